@@ -1,47 +1,79 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { ChatState, Message, Attachment } from './types';
-import { sendMessageToGemini, extractTextFromImage } from './services/geminiService';
+import { ChatState, Message, Attachment, Conversation } from './types';
+import { streamMessage, extractTextFromImage, summarizeHistory } from './services/aiService';
+import {
+  loadLibrary,
+  saveLibrary,
+  createConversation,
+  duplicateConversation,
+  generateTitle,
+  DEFAULT_TITLE,
+} from './services/conversationStore';
+import { StorageFullError } from './services/chatDatabase';
+import { getActivePath, getSiblings, findLatestLeaf } from './services/conversationTree';
 import WelcomeScreen from './components/WelcomeScreen';
 import ChatMessage from './components/ChatMessage';
-import InputArea from './components/InputArea';
-import { Trash2, Menu, X, ArrowLeft, Search, Bot, FileText, Save } from 'lucide-react';
+import InputArea, { InputAreaHandle } from './components/InputArea';
+import ConversationList from './components/ConversationList';
+import ExportDialog from './components/ExportDialog';
+import FinalAccountsWizard from './components/FinalAccountsWizard';
+import QuizDialog from './components/QuizDialog';
+import FlashcardsDialog from './components/FlashcardsDialog';
+import SettingsDialog from './components/SettingsDialog';
+import DocumentLibraryDialog from './components/DocumentLibraryDialog';
+import SourcePassageDialog from './components/SourcePassageDialog';
+import ContextMeter from './components/ContextMeter';
+import ContextSummaryNote from './components/ContextSummaryNote';
+import { Trash2, Menu, X, ArrowLeft, Search, Bot, FileText, Save, Plus, AlertTriangle, Download, ClipboardCheck, Layers, Globe, Library, Upload } from 'lucide-react';
 import { SUBJECTS } from './constants';
+import { LocaleSettings, getLocaleSettings, saveLocaleSettings, JURISDICTIONS, localizeAmounts } from './services/localeSettings';
+import { TAX_RULE_PACKS, taxPacksFor, resolveTaxPack } from './services/taxEngine';
+import { ChatModeId, questionPrompt } from './services/chatModes';
+import { SourcePassage } from './services/documentLibrary';
+import { ContextSummary, planContext } from './services/contextBudget';
 
-const STORAGE_KEY = 'acctsolver_chat_state';
+// Chats on this subject compute tax with the local rule packs
+const TAXATION_SUBJECT = SUBJECTS.find(sub => sub.id === 'taxation')!.name;
 
 const App: React.FC = () => {
-  // Initialize state from localStorage if available
+  // Start on a fresh draft; the saved library is loaded from IndexedDB after mount
   const [state, setState] = useState<ChatState>(() => {
-    try {
-      const saved = localStorage.getItem(STORAGE_KEY);
-      if (saved) {
-        const parsed = JSON.parse(saved);
-        // Restore Date objects from string timestamps
-        const messages = parsed.messages.map((msg: any) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }));
-        return {
-          ...parsed,
-          messages,
-          isLoading: false // Always reset loading state on restore
-        };
-      }
-    } catch (error) {
-      console.error("Failed to load state from localStorage:", error);
-    }
+    const draft = createConversation();
     return {
-      messages: [],
+      conversations: [draft],
+      activeConversationId: draft.id,
       isLoading: false,
-      selectedSubject: null,
     };
   });
   
   const [searchTerm, setSearchTerm] = useState('');
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isSaving, setIsSaving] = useState(false);
+  const [isHydrated, setIsHydrated] = useState(false);
+  const [storageWarning, setStorageWarning] = useState<string | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [isQuizOpen, setIsQuizOpen] = useState(false);
+  // Open flashcards dialog, optionally with an answer to turn into cards
+  const [flashcards, setFlashcards] = useState<{ source?: string } | null>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  // Cited library passage being viewed
+  const [openSource, setOpenSource] = useState<SourcePassage | null>(null);
+  // True while older turns are being folded into the summary before a question is sent
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [localeSettings, setLocaleSettings] = useState<LocaleSettings>(getLocaleSettings);
+  const [finalAccountsSource, setFinalAccountsSource] = useState<Attachment | null>(null);
+  // True while files are dragged over the chat area
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const inputAreaRef = useRef<InputAreaHandle>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  // Controller for the in-flight stream so the user can stop generation
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Conversation the in-flight stream is writing into
+  const streamingConversationIdRef = useRef<string | null>(null);
+  // Saves run one after another so two writes never interleave
+  const saveQueueRef = useRef<Promise<void>>(Promise.resolve());
   
   // Ref to hold the latest state for the auto-save interval
   const stateRef = useRef(state);
@@ -51,12 +83,53 @@ const App: React.FC = () => {
     stateRef.current = state;
   }, [state]);
 
+  // Restore saved conversations (migrating old localStorage data on first run)
+  useEffect(() => {
+    loadLibrary().then(library => {
+      setState(prev => {
+        // Keep anything the user started while the library was loading
+        const libraryIds = new Set(library.conversations.map(conv => conv.id));
+        const drafts = prev.conversations.filter(conv => conv.messages.length > 0 && !libraryIds.has(conv.id));
+        const conversations = [...library.conversations, ...drafts];
+        const startedDraft = drafts.find(conv => conv.id === prev.activeConversationId);
+        const restoredActive = conversations.find(conv => conv.id === library.activeConversationId);
+
+        if (startedDraft || !restoredActive) {
+          const active = startedDraft || createConversation();
+          return {
+            ...prev,
+            conversations: startedDraft ? conversations : [...conversations, active],
+            activeConversationId: active.id,
+          };
+        }
+        return { ...prev, conversations, activeConversationId: restoredActive.id };
+      });
+      setIsHydrated(true);
+    });
+  }, []);
+
+  const persistLibrary = () => {
+    const snapshot = stateRef.current;
+    saveQueueRef.current = saveQueueRef.current
+      .then(() => saveLibrary(snapshot))
+      .then(() => setStorageWarning(null))
+      .catch(error => {
+        console.error("Failed to save conversations:", error);
+        setStorageWarning(error instanceof StorageFullError
+          ? "Storage is full, so recent changes were not saved. Delete old conversations or large attachments to free up space."
+          : "Your conversations could not be saved in this browser.");
+      });
+    return saveQueueRef.current;
+  };
+
   // Auto-save every 30 seconds
   useEffect(() => {
+    if (!isHydrated) return;
+
     const saveInterval = setInterval(() => {
-      if (stateRef.current.messages.length > 0) {
+      if (stateRef.current.conversations.some(conv => conv.messages.length > 0)) {
         setIsSaving(true);
-        localStorage.setItem(STORAGE_KEY, JSON.stringify(stateRef.current));
+        persistLibrary();
         
         // Hide indicator after 2 seconds
         setTimeout(() => {
@@ -66,7 +139,26 @@ const App: React.FC = () => {
     }, 30000);
 
     return () => clearInterval(saveInterval);
-  }, []);
+  }, [isHydrated]);
+
+  // Save immediately when conversations are added, removed or renamed
+  const librarySignature = state.conversations.map(conv => `${conv.id}:${conv.title}`).join('|');
+  useEffect(() => {
+    if (isHydrated) persistLibrary();
+  }, [isHydrated, librarySignature, state.activeConversationId]);
+
+  const activeConversation = state.conversations.find(conv => conv.id === state.activeConversationId)!;
+  // Only the branch on screen is shown, searched and sent as history
+  const messages = useMemo(
+    () => getActivePath(activeConversation),
+    [activeConversation.messages, activeConversation.activeLeafId],
+  );
+  const selectedSubject = activeConversation.selectedSubject;
+  // History the next question would carry, and the summary standing in for older turns
+  const contextPlan = useMemo(
+    () => planContext(messages, activeConversation.contextSummaries),
+    [messages, activeConversation.contextSummaries],
+  );
 
   const scrollToBottom = () => {
     // Only scroll if not searching, to avoid jumping around while reading results
@@ -77,59 +169,242 @@ const App: React.FC = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [state.messages, searchTerm, state.isLoading]);
+  }, [messages, searchTerm, state.isLoading]);
+
+  // Apply an update to one conversation, leaving the rest untouched
+  const updateConversation = (id: string, updater: (conv: Conversation) => Conversation) => {
+    setState(prev => ({
+      ...prev,
+      conversations: prev.conversations.map(conv => conv.id === id ? updater(conv) : conv),
+    }));
+  };
+
+  // Post the wizard's generated statements into the chat as an answer
+  const handleFinalAccountsComplete = (markdown: string) => {
+    updateConversation(activeConversation.id, conv => {
+      const aiMessage: Message = {
+        id: uuidv4(),
+        parentId: conv.activeLeafId,
+        role: 'model',
+        text: markdown,
+        timestamp: new Date(),
+      };
+      return {
+        ...conv,
+        messages: [...conv.messages, aiMessage],
+        activeLeafId: aiMessage.id,
+        updatedAt: aiMessage.timestamp,
+      };
+    });
+    setFinalAccountsSource(null);
+  };
+
+  // Stream an answer to `userMsg` into the given conversation, even if the user
+  // switches away while the answer arrives
+  const requestAnswer = async (
+    conversationId: string,
+    userMsg: Message,
+    history: Message[],
+    context: Pick<Conversation, 'selectedSubject' | 'taxPackId' | 'contextSummaries'>,
+  ) => {
+    setState(prev => ({ ...prev, isLoading: true }));
+
+    const subject = context.selectedSubject;
+    const taxPack = subject === TAXATION_SUBJECT ? resolveTaxPack(context.taxPackId, localeSettings.jurisdiction) : null;
+
+    const aiMsgId = uuidv4();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    streamingConversationIdRef.current = conversationId;
+
+    // Fold the oldest turns into the rolling summary once the history outgrows its budget
+    const plan = planContext(history, context.contextSummaries);
+    let summary = plan.summary;
+    let sentHistory = plan.history;
+    if (plan.toSummarize.length > 0) {
+      setIsSummarizing(true);
+      try {
+        const folded: ContextSummary = {
+          text: await summarizeHistory(summary?.text ?? null, plan.toSummarize, controller.signal),
+          throughMessageId: plan.toSummarize[plan.toSummarize.length - 1].id,
+          messageCount: (summary?.messageCount || 0) + plan.toSummarize.length,
+        };
+        summary = folded;
+        updateConversation(conversationId, conv => ({
+          ...conv,
+          contextSummaries: { ...conv.contextSummaries, [folded.throughMessageId]: folded },
+        }));
+      } catch (error) {
+        // Send the turns in full rather than lose them; after Stop the answer ends at once
+        if (!controller.signal.aborted) console.error("Failed to summarize older messages:", error);
+        sentHistory = [...plan.toSummarize, ...plan.history];
+      } finally {
+        setIsSummarizing(false);
+      }
+    }
+
+    // Insert the model message on the first chunk, then update it in place
+    const upsertAiMessage = (patch: Partial<Message>) => {
+      updateConversation(conversationId, conv => {
+        const exists = conv.messages.some(msg => msg.id === aiMsgId);
+        if (!exists) {
+          const aiMsg: Message = {
+            id: aiMsgId,
+            parentId: userMsg.id,
+            role: 'model',
+            text: '',
+            timestamp: new Date(),
+            isStreaming: true,
+            ...patch,
+          };
+          return {
+            ...conv,
+            messages: [...conv.messages, aiMsg],
+            // Follow the new answer unless the user has moved to another branch
+            activeLeafId: conv.activeLeafId === userMsg.id ? aiMsgId : conv.activeLeafId,
+            updatedAt: aiMsg.timestamp,
+          };
+        }
+        return {
+          ...conv,
+          messages: conv.messages.map(msg => msg.id === aiMsgId ? { ...msg, ...patch } : msg),
+        };
+      });
+    };
 
-  const handleSendMessage = async (text: string, attachment?: Attachment) => {
+    // Pass the history so the model has context of previous turns
+    const response = await streamMessage(
+      questionPrompt(userMsg),
+      sentHistory,
+      userMsg.attachments || [],
+      (partialText) => upsertAiMessage({ text: partialText }),
+      { signal: controller.signal, subject, mode: userMsg.mode, taxPackId: taxPack?.id, summary: summary?.text },
+    );
+
+    // Finalize AI Response
+    // The conversation was deleted while streaming; don't resurrect the message
+    if (abortControllerRef.current !== controller) return;
+    abortControllerRef.current = null;
+    streamingConversationIdRef.current = null;
+
+    upsertAiMessage({
+      text: response.text,
+      chart: response.chart,
+      sources: response.sources,
+      calculations: response.calculations?.length ? response.calculations : undefined,
+      isStreaming: false,
+      stopReason: response.stopReason,
+      error: response.error,
+    });
+
+    setState(prev => ({ ...prev, isLoading: false }));
+  };
+
+  const handleSendMessage = async (text: string, attachments: Attachment[] = [], mode?: ChatModeId) => {
     // Clear search when sending a new message to return to full view
     if (searchTerm) setSearchTerm('');
 
-    // 1. Add User Message
+    const conversationId = activeConversation.id;
+
     const userMsg: Message = {
       id: uuidv4(),
+      parentId: activeConversation.activeLeafId,
       role: 'user',
       text,
+      mode,
       timestamp: new Date(),
-      attachment: attachment, // Store the full attachment object
+      attachments: attachments.length ? attachments : undefined, // Store the full attachment objects
     };
 
     // Capture current history before state update (for API call)
-    const currentHistory = state.messages;
+    const currentHistory = messages;
 
-    setState(prev => ({
-      ...prev,
-      messages: [...prev.messages, userMsg],
-      isLoading: true
+    updateConversation(conversationId, conv => ({
+      ...conv,
+      // Title the conversation after its first question
+      title: conv.messages.length === 0 && conv.title === DEFAULT_TITLE
+        ? generateTitle(text || attachments[0]?.name || '')
+        : conv.title,
+      messages: [...conv.messages, userMsg],
+      activeLeafId: userMsg.id,
+      updatedAt: userMsg.timestamp,
     }));
 
-    // 2. Prepare Context
-    let promptContext = text;
-    if (state.selectedSubject) {
-      promptContext = `[Subject: ${state.selectedSubject}] ${text}`;
-    }
+    await requestAnswer(conversationId, userMsg, currentHistory, activeConversation);
+  };
+
+  // Ask for another answer to the question before `messageId`, as a new branch.
+  // Retrying drops the failed answer instead of keeping it as a sibling.
+  const regenerateAnswer = (messageId: string, discardOriginal: boolean) => {
+    if (state.isLoading) return;
+    const conv = activeConversation;
+    const idx = messages.findIndex(msg => msg.id === messageId);
+    const userMsg = messages[idx - 1];
+    if (idx < 1 || userMsg.role !== 'user') return;
+
+    const isLeaf = !conv.messages.some(msg => msg.parentId === messageId);
+    updateConversation(conv.id, c => ({
+      ...c,
+      messages: discardOriginal && isLeaf ? c.messages.filter(msg => msg.id !== messageId) : c.messages,
+      activeLeafId: userMsg.id,
+    }));
+    requestAnswer(conv.id, userMsg, messages.slice(0, idx - 1), conv);
+  };
 
-    // 3. Call API
-    // Pass currentHistory so the model has context of previous turns
-    // Use the attachment from the new message
-    const response = await sendMessageToGemini(promptContext, currentHistory, attachment || null);
+  const handleRegenerate = (messageId: string) => regenerateAnswer(messageId, false);
+  const handleRetry = (messageId: string) => regenerateAnswer(messageId, true);
 
-    // 4. Add AI Response
-    const aiMsg: Message = {
+  // Send an edited copy of an earlier question as a sibling branch; later turns stay on the old branch
+  const handleEditMessage = (messageId: string, text: string) => {
+    if (state.isLoading) return;
+    const conv = activeConversation;
+    const idx = messages.findIndex(msg => msg.id === messageId);
+    const original = messages[idx];
+    if (!original || original.role !== 'user') return;
+
+    const editedMsg: Message = {
       id: uuidv4(),
-      role: 'model',
-      text: response.text,
+      parentId: original.parentId,
+      role: 'user',
+      text,
+      mode: original.mode,
       timestamp: new Date(),
-      image: response.generatedImage, // Attach generated image if present
+      attachments: original.attachments,
     };
-
-    setState(prev => ({
-      ...prev,
-      messages: [...prev.messages, aiMsg],
-      isLoading: false
+    updateConversation(conv.id, c => ({
+      ...c,
+      messages: [...c.messages, editedMsg],
+      activeLeafId: editedMsg.id,
+      updatedAt: editedMsg.timestamp,
     }));
+    requestAnswer(conv.id, editedMsg, messages.slice(0, idx), conv);
+  };
+
+  // Show the previous or next version of a message, with the latest turns on that branch
+  const handleSwitchBranch = (messageId: string, direction: -1 | 1) => {
+    const conv = activeConversation;
+    const message = conv.messages.find(msg => msg.id === messageId);
+    if (!message) return;
+    const siblings = getSiblings(conv, message);
+    const target = siblings[siblings.indexOf(message) + direction];
+    if (!target) return;
+    updateConversation(conv.id, c => ({ ...c, activeLeafId: findLatestLeaf(c, target.id) }));
+  };
+
+  const handleStopGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  // Abort and detach the current stream so its result is discarded
+  const cancelStream = () => {
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    streamingConversationIdRef.current = null;
+    setState(prev => ({ ...prev, isLoading: false }));
   };
 
   const handleSummarize = () => {
-    if (state.messages.length === 0) return;
+    if (messages.length === 0) return;
     
     // Send a summarization request
     const summaryPrompt = "Please provide a concise summary of our conversation so far. Highlight any numerical problems solved and key accounting theory concepts we discussed.";
@@ -139,38 +414,116 @@ const App: React.FC = () => {
     setIsSidebarOpen(false);
   };
 
+  const activeTaxPack = resolveTaxPack(activeConversation.taxPackId, localeSettings.jurisdiction);
+  // Packs for the user's jurisdiction; every pack when it has none or the chat uses another country's
+  const jurisdictionPacks = taxPacksFor(localeSettings.jurisdiction);
+  const showAllTaxPacks = jurisdictionPacks.length === 0 || (!!activeTaxPack && !jurisdictionPacks.includes(activeTaxPack));
+  const taxPackOptions = showAllTaxPacks ? TAX_RULE_PACKS : jurisdictionPacks;
+
+  const handleTaxPackChange = (packId: string) => {
+    updateConversation(activeConversation.id, conv => ({ ...conv, taxPackId: packId || null }));
+  };
+
+  const handleSaveSettings = (settings: LocaleSettings) => {
+    saveLocaleSettings(settings);
+    setLocaleSettings(settings);
+    setIsSettingsOpen(false);
+  };
+
   const handleExtractText = async (image: string): Promise<string> => {
     return await extractTextFromImage(image);
   };
 
-  const handleSubjectSelect = (subjectName: string) => {
-    setState(prev => ({ ...prev, selectedSubject: subjectName }));
+  const handleSubjectSelect = (subjectName: string | null) => {
+    updateConversation(activeConversation.id, conv => ({ ...conv, selectedSubject: subjectName }));
     setIsSidebarOpen(false); // Close sidebar on mobile
   };
 
+  // Open a fresh draft, reusing an existing empty one instead of piling them up
+  const startNewConversation = () => {
+    setState(prev => {
+      const emptyDraft = prev.conversations.find(conv => conv.messages.length === 0);
+      if (emptyDraft) {
+        return {
+          ...prev,
+          conversations: prev.conversations.map(conv =>
+            conv.id === emptyDraft.id ? { ...conv, selectedSubject: null } : conv
+          ),
+          activeConversationId: emptyDraft.id,
+        };
+      }
+      const draft = createConversation();
+      return { ...prev, conversations: [...prev.conversations, draft], activeConversationId: draft.id };
+    });
+    setSearchTerm('');
+    setIsSidebarOpen(false);
+  };
+
+  const openConversation = (id: string) => {
+    setState(prev => ({
+      ...prev,
+      // Drop an abandoned empty draft when switching to a saved conversation
+      conversations: prev.conversations.filter(conv => conv.messages.length > 0 || conv.id === id),
+      activeConversationId: id,
+    }));
+    setSearchTerm('');
+    setIsSidebarOpen(false);
+  };
+
+  const renameConversation = (id: string, title: string) => {
+    updateConversation(id, conv => ({ ...conv, title }));
+  };
+
+  const handleDuplicateConversation = (id: string) => {
+    const source = state.conversations.find(conv => conv.id === id);
+    if (!source) return;
+    const copy = duplicateConversation(source);
+    setState(prev => ({
+      ...prev,
+      conversations: [...prev.conversations, copy],
+      activeConversationId: copy.id,
+    }));
+    setSearchTerm('');
+  };
+
+  const deleteConversation = (id: string) => {
+    const target = state.conversations.find(conv => conv.id === id);
+    if (!target) return;
+    if (!window.confirm(`Delete "${target.title}"? This cannot be undone.`)) return;
+
+    if (streamingConversationIdRef.current === id) cancelStream();
+
+    setState(prev => {
+      const remaining = prev.conversations.filter(conv => conv.id !== id);
+      if (prev.activeConversationId !== id) {
+        return { ...prev, conversations: remaining };
+      }
+      // Deleting the open conversation drops the user on a fresh draft
+      const draft = createConversation();
+      return { ...prev, conversations: [...remaining, draft], activeConversationId: draft.id };
+    });
+    if (state.activeConversationId === id) setSearchTerm('');
+  };
+
   const resetChat = () => {
-    if (window.confirm("Are you sure you want to clear the current chat session?")) {
-      setState({
-        messages: [],
-        isLoading: false,
-        selectedSubject: null,
-      });
-      setSearchTerm('');
-      localStorage.removeItem(STORAGE_KEY); // Clear saved data immediately
-    }
+    deleteConversation(activeConversation.id);
   };
 
   const goHome = () => {
-    setState(prev => ({ ...prev, messages: [], selectedSubject: null }));
-    setSearchTerm('');
+    startNewConversation();
   };
 
   // Filter messages based on search term
   const displayedMessages = searchTerm.trim()
-    ? state.messages.filter(msg => 
+    ? messages.filter(msg => 
         msg.text.toLowerCase().includes(searchTerm.toLowerCase())
       )
-    : state.messages;
+    : messages;
+
+  // Only show the typing indicator in the conversation that is waiting for an answer
+  const isAwaitingFirstChunk = state.isLoading
+    && messages.length > 0
+    && messages[messages.length - 1].role === 'user';
 
   return (
     <div className="flex h-screen bg-slate-50 font-sans">
@@ -209,7 +562,7 @@ const App: React.FC = () => {
                 placeholder="Search messages..." 
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
-                disabled={state.messages.length === 0}
+                disabled={messages.length === 0}
                 className="w-full bg-slate-50 border border-slate-200 rounded-lg pl-9 pr-8 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500 transition-all disabled:opacity-50 disabled:cursor-not-allowed placeholder:text-slate-400"
               />
               {searchTerm && (
@@ -224,27 +577,106 @@ const App: React.FC = () => {
           </div>
 
           <div className="p-4 overflow-y-auto flex-1">
-            <div className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3 mt-2">Subjects</div>
+            <button
+              onClick={startNewConversation}
+              className="flex items-center justify-center gap-2 w-full mt-2 px-3 py-2 rounded-lg text-sm font-medium bg-brand-600 text-white hover:bg-brand-700 transition-colors"
+            >
+              <Plus size={16} />
+              New Chat
+            </button>
+
+            <div className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3 mt-6">Conversations</div>
+            <ConversationList
+              conversations={state.conversations}
+              activeConversationId={state.activeConversationId}
+              onSelect={openConversation}
+              onRename={renameConversation}
+              onDuplicate={handleDuplicateConversation}
+              onDelete={deleteConversation}
+            />
+
+            <div className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3 mt-6">Subjects</div>
             <nav className="space-y-1">
               {SUBJECTS.map((sub) => (
-                <button
-                  key={sub.id}
-                  onClick={() => handleSubjectSelect(sub.name)}
-                  className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
-                    state.selectedSubject === sub.name 
-                      ? 'bg-brand-50 text-brand-700 font-medium' 
-                      : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'
-                  }`}
-                >
-                  {sub.name}
-                </button>
+                <div key={sub.id}>
+                  <button
+                    onClick={() => handleSubjectSelect(sub.name)}
+                    className={`w-full text-left px-3 py-2 rounded-lg text-sm transition-colors ${
+                      selectedSubject === sub.name 
+                        ? 'bg-brand-50 text-brand-700 font-medium' 
+                        : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'
+                    }`}
+                  >
+                    {sub.name}
+                  </button>
+
+                  {/* Starters and answer formats of the chat's subject */}
+                  {selectedSubject === sub.name && (
+                    <div className="ml-3 mt-1 mb-2 pl-3 border-l border-brand-100 space-y-1.5">
+                      <p className="text-xs text-slate-400">{sub.description}</p>
+                      {sub.starters.map(starter => localizeAmounts(starter)).map(starter => (
+                        <button
+                          key={starter}
+                          onClick={() => {
+                            handleSendMessage(starter);
+                            setIsSidebarOpen(false);
+                          }}
+                          disabled={state.isLoading}
+                          className="block w-full text-left text-xs text-slate-500 hover:text-brand-700 disabled:opacity-50 line-clamp-2"
+                          title={starter}
+                        >
+                          {starter}
+                        </button>
+                      ))}
+                      <div className="flex flex-wrap gap-1 pt-0.5">
+                        {sub.templates.map(template => (
+                          <span key={template.name} className="text-[10px] bg-slate-100 text-slate-500 rounded px-1.5 py-0.5" title={`Answer format for ${template.useFor}`}>
+                            {template.name}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                </div>
               ))}
             </nav>
 
             <div className="mt-8 border-t border-slate-100 pt-4 space-y-2">
+              <button
+                onClick={() => setIsQuizOpen(true)}
+                className="flex items-center gap-2 text-sm text-slate-600 hover:bg-slate-50 w-full px-3 py-2 rounded-lg transition-colors"
+                title="Test yourself on a subject"
+              >
+                <ClipboardCheck size={16} />
+                Practice Quiz
+              </button>
+              <button
+                onClick={() => setFlashcards({})}
+                className="flex items-center gap-2 text-sm text-slate-600 hover:bg-slate-50 w-full px-3 py-2 rounded-lg transition-colors"
+                title="Review your flashcard decks"
+              >
+                <Layers size={16} />
+                Flashcards
+              </button>
+              <button
+                onClick={() => setIsLibraryOpen(true)}
+                className="flex items-center gap-2 text-sm text-slate-600 hover:bg-slate-50 w-full px-3 py-2 rounded-lg transition-colors"
+                title="Textbooks answers are looked up in"
+              >
+                <Library size={16} />
+                Textbook Library
+              </button>
+              <button
+                onClick={() => setIsSettingsOpen(true)}
+                className="flex items-center gap-2 text-sm text-slate-600 hover:bg-slate-50 w-full px-3 py-2 rounded-lg transition-colors"
+                title="Currency, number format and tax jurisdiction"
+              >
+                <Globe size={16} />
+                Currency & Region
+              </button>
               <button
                 onClick={handleSummarize}
-                disabled={state.messages.length === 0}
+                disabled={messages.length === 0}
                 className="flex items-center gap-2 text-sm text-slate-600 hover:bg-slate-50 w-full px-3 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
                 title="Summarize the current conversation"
               >
@@ -253,10 +685,11 @@ const App: React.FC = () => {
               </button>
               <button
                 onClick={resetChat}
-                className="flex items-center gap-2 text-sm text-red-500 hover:bg-red-50 w-full px-3 py-2 rounded-lg transition-colors"
+                disabled={messages.length === 0}
+                className="flex items-center gap-2 text-sm text-red-500 hover:bg-red-50 w-full px-3 py-2 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
                 <Trash2 size={16} />
-                Clear Conversation
+                Delete Conversation
               </button>
             </div>
           </div>
@@ -264,14 +697,37 @@ const App: React.FC = () => {
       </aside>
 
       {/* Main Content */}
-      <main className="flex-1 flex flex-col h-full w-full relative">
+      <main
+        className="flex-1 flex flex-col h-full w-full relative"
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes('Files')) return;
+          e.preventDefault();
+          setIsDraggingFiles(true);
+        }}
+        onDragLeave={(e) => {
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFiles(false);
+        }}
+        onDrop={(e) => {
+          if (!e.dataTransfer.files.length) return;
+          e.preventDefault();
+          setIsDraggingFiles(false);
+          inputAreaRef.current?.addFiles(Array.from(e.dataTransfer.files));
+        }}
+      >
+        {isDraggingFiles && (
+          <div className="absolute inset-2 z-30 pointer-events-none flex flex-col items-center justify-center gap-2 rounded-2xl border-2 border-dashed border-brand-400 bg-brand-50/80 text-brand-700">
+            <Upload size={28} />
+            <span className="text-sm font-medium">Drop files to attach them to your question</span>
+          </div>
+        )}
+
         {/* Header */}
         <header className="h-16 bg-white border-b border-slate-200 flex items-center justify-between px-4 md:px-6">
           <div className="flex items-center gap-3">
              <button onClick={() => setIsSidebarOpen(true)} className="md:hidden p-2 text-slate-500 hover:bg-slate-100 rounded-lg">
               <Menu size={20} />
             </button>
-            {state.messages.length > 0 && (
+            {messages.length > 0 && (
               <button onClick={goHome} className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg hover:text-brand-600" title="Back to Home">
                  <ArrowLeft size={20} />
               </button>
@@ -280,9 +736,9 @@ const App: React.FC = () => {
               <h2 className="font-semibold text-slate-800">
                 {searchTerm 
                   ? "Search Results" 
-                  : (state.selectedSubject || "Accounting Assistant")}
+                  : (selectedSubject || "Accounting Assistant")}
               </h2>
-              {state.messages.length > 0 && state.selectedSubject && !searchTerm && (
+              {messages.length > 0 && selectedSubject && !searchTerm && (
                  <p className="text-xs text-brand-600 font-medium">Topic Active</p>
               )}
               {searchTerm && (
@@ -293,19 +749,62 @@ const App: React.FC = () => {
             </div>
           </div>
           
-          {/* Auto-save Indicator */}
-          <div className={`flex items-center gap-2 text-xs font-medium text-slate-400 transition-opacity duration-300 ${isSaving ? 'opacity-100' : 'opacity-0'}`}>
-             <Save size={14} />
-             <span>Autosaving...</span>
+          <div className="flex items-center gap-3">
+            {/* Tax year for Taxation chats */}
+            {selectedSubject === TAXATION_SUBJECT && !searchTerm && (
+              <select
+                value={activeTaxPack?.id || ''}
+                onChange={(e) => handleTaxPackChange(e.target.value)}
+                className="max-w-[14rem] bg-white border border-slate-200 rounded-lg px-2 py-1.5 text-xs text-slate-600 focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500"
+                title="Tax rules used for computations in this chat"
+              >
+                {!activeTaxPack && <option value="">No tax rules for {JURISDICTIONS[localeSettings.jurisdiction].label}</option>}
+                {taxPackOptions.map(pack => (
+                  <option key={pack.id} value={pack.id}>
+                    {showAllTaxPacks ? `${JURISDICTIONS[pack.jurisdiction].label}: ${pack.label}` : pack.label}
+                  </option>
+                ))}
+              </select>
+            )}
+
+            {messages.length > 0 && !searchTerm && <ContextMeter plan={contextPlan} />}
+
+            {/* Auto-save Indicator */}
+            <div className={`flex items-center gap-2 text-xs font-medium text-slate-400 transition-opacity duration-300 ${isSaving ? 'opacity-100' : 'opacity-0'}`}>
+               <Save size={14} />
+               <span>Autosaving...</span>
+            </div>
+
+            {messages.length > 0 && (
+              <button
+                onClick={() => setIsExportOpen(true)}
+                className="p-2 text-slate-500 hover:bg-slate-100 rounded-lg hover:text-brand-600"
+                title="Export conversation"
+              >
+                <Download size={20} />
+              </button>
+            )}
           </div>
         </header>
 
+        {/* Storage Warning */}
+        {storageWarning && (
+          <div className="flex items-start gap-3 bg-amber-50 border-b border-amber-200 px-4 md:px-6 py-3 text-sm text-amber-800">
+            <AlertTriangle size={18} className="flex-shrink-0 mt-0.5" />
+            <p className="flex-1">{storageWarning}</p>
+            <button onClick={() => setStorageWarning(null)} className="text-amber-500 hover:text-amber-700" title="Dismiss">
+              <X size={16} />
+            </button>
+          </div>
+        )}
+
         {/* Chat Area */}
         <div className="flex-1 overflow-y-auto p-4 md:p-6 scroll-smooth bg-slate-50">
-          {state.messages.length === 0 ? (
+          {messages.length === 0 ? (
             <WelcomeScreen 
+              selectedSubject={selectedSubject}
               onSelectSubject={handleSubjectSelect} 
-              onSelectSuggestion={(text) => handleSendMessage(text)}
+              onSelectSuggestion={(text, mode) => handleSendMessage(text, [], mode)}
             />
           ) : (
             <div className="max-w-4xl mx-auto pb-4">
@@ -322,16 +821,32 @@ const App: React.FC = () => {
                   </button>
                 </div>
               ) : (
-                displayedMessages.map((msg) => (
-                  <ChatMessage 
-                    key={msg.id} 
-                    message={msg} 
-                    highlightTerm={searchTerm} 
-                  />
-                ))
+                displayedMessages.map((msg) => {
+                  const siblings = getSiblings(activeConversation, msg);
+                  return (
+                    <React.Fragment key={msg.id}>
+                      <ChatMessage
+                        message={msg}
+                        highlightTerm={searchTerm}
+                        branch={siblings.length > 1 ? { index: siblings.indexOf(msg), count: siblings.length } : undefined}
+                        onPrepareFinalAccounts={setFinalAccountsSource}
+                        onRetry={handleRetry}
+                        onRegenerate={state.isLoading ? undefined : handleRegenerate}
+                        onEdit={state.isLoading ? undefined : handleEditMessage}
+                        onSwitchBranch={handleSwitchBranch}
+                        onMakeFlashcards={(text) => setFlashcards({ source: text })}
+                        onOpenSource={setOpenSource}
+                      />
+                      {/* Where the turns folded into the rolling summary end */}
+                      {!searchTerm && contextPlan.summary?.throughMessageId === msg.id && (
+                        <ContextSummaryNote summary={contextPlan.summary} />
+                      )}
+                    </React.Fragment>
+                  );
+                })
               )}
               
-              {state.isLoading && !searchTerm && (
+              {isAwaitingFirstChunk && !searchTerm && (
                 <div className="flex w-full mb-6 justify-start">
                   <div className="flex max-w-[90%] md:max-w-[80%] flex-row gap-3">
                     <div className="flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center mt-1 bg-brand-100 text-brand-600">
@@ -339,7 +854,7 @@ const App: React.FC = () => {
                     </div>
                     <div className="flex flex-col items-start">
                       <div className="bg-white border border-slate-200 rounded-2xl rounded-tl-none px-5 py-4 shadow-sm flex items-center gap-3">
-                        <span className="text-sm text-slate-500 font-medium">AcctSolver is typing</span>
+                        <span className="text-sm text-slate-500 font-medium">{isSummarizing ? 'Summarizing earlier messages' : 'AcctSolver is typing'}</span>
                         <div className="flex gap-1 mt-1">
                           <div className="w-1.5 h-1.5 bg-brand-500 rounded-full animate-bounce" style={{ animationDelay: '0ms' }} />
                           <div className="w-1.5 h-1.5 bg-brand-500 rounded-full animate-bounce" style={{ animationDelay: '150ms' }} />
@@ -357,11 +872,45 @@ const App: React.FC = () => {
 
         {/* Input Area */}
         <InputArea 
+          ref={inputAreaRef}
           onSendMessage={handleSendMessage} 
           isLoading={state.isLoading} 
+          onStop={handleStopGeneration}
           onExtractText={handleExtractText}
         />
       </main>
+
+      {isExportOpen && (
+        <ExportDialog conversation={activeConversation} onClose={() => setIsExportOpen(false)} />
+      )}
+
+      {isQuizOpen && (
+        <QuizDialog defaultSubject={selectedSubject} onClose={() => setIsQuizOpen(false)} />
+      )}
+
+      {flashcards && (
+        <FlashcardsDialog defaultSubject={selectedSubject} source={flashcards.source} onClose={() => setFlashcards(null)} />
+      )}
+
+      {isSettingsOpen && (
+        <SettingsDialog settings={localeSettings} onClose={() => setIsSettingsOpen(false)} onSave={handleSaveSettings} />
+      )}
+
+      {isLibraryOpen && (
+        <DocumentLibraryDialog onClose={() => setIsLibraryOpen(false)} />
+      )}
+
+      {openSource && (
+        <SourcePassageDialog source={openSource} onClose={() => setOpenSource(null)} />
+      )}
+
+      {finalAccountsSource && (
+        <FinalAccountsWizard
+          attachment={finalAccountsSource}
+          onClose={() => setFinalAccountsSource(null)}
+          onComplete={handleFinalAccountsComplete}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,275 @@
+import React from 'react';
+import { ChartSpec, chartLabels, niceTicks } from '../services/chartSpec';
+import { formatNumber } from '../services/localeSettings';
+
+interface ChartSvgProps {
+  spec: ChartSpec;
+  // Highlighted x value or category, with a tooltip; the print export leaves it unset
+  activeIndex?: number | null;
+  onActiveIndexChange?: (index: number | null) => void;
+  svgRef?: React.Ref<SVGSVGElement>;
+}
+
+// Colours are written into the SVG, not Tailwind classes, so downloads look the same
+export const SERIES_COLORS = ['#0284c7', '#dc2626', '#059669', '#d97706', '#7c3aed', '#db2777', '#0891b2', '#4b5563'];
+
+const WIDTH = 640;
+const HEIGHT = 380;
+const PLOT = { left: 72, right: WIDTH - 24, top: 44, bottom: HEIGHT - 76 };
+const FONT = 'ui-sans-serif, system-ui, sans-serif';
+
+const Tooltip: React.FC<{ x: number; title: string; lines: { color: string; text: string }[] }> = ({ x, title, lines }) => {
+  const width = 180;
+  const height = 22 + lines.length * 16;
+  const left = Math.min(Math.max(x + 10, PLOT.left), PLOT.right - width);
+  return (
+    <g pointerEvents="none">
+      <rect x={left} y={PLOT.top + 4} width={width} height={height} rx={6} fill="#ffffff" stroke="#cbd5e1" opacity={0.95} />
+      <text x={left + 8} y={PLOT.top + 20} fontSize={11} fontWeight={600} fill="#334155">{title}</text>
+      {lines.map((line, idx) => (
+        <g key={idx}>
+          <rect x={left + 8} y={PLOT.top + 28 + idx * 16} width={8} height={8} rx={2} fill={line.color} />
+          <text x={left + 22} y={PLOT.top + 36 + idx * 16} fontSize={11} fill="#475569">{line.text}</text>
+        </g>
+      ))}
+    </g>
+  );
+};
+
+// Map a pointer position to an index along the x axis
+const indexFromPointer = (event: React.MouseEvent<SVGRectElement>, count: number, centres: number[]) => {
+  const svg = event.currentTarget.ownerSVGElement;
+  if (!svg || count === 0) return null;
+  const box = svg.getBoundingClientRect();
+  const x = ((event.clientX - box.left) / box.width) * WIDTH;
+  let nearest = 0;
+  centres.forEach((centre, idx) => {
+    if (Math.abs(centre - x) < Math.abs(centres[nearest] - x)) nearest = idx;
+  });
+  return nearest;
+};
+
+// Axis chart (line or bar) drawn from a spec
+const AxisChart: React.FC<ChartSvgProps> = ({ spec, activeIndex, onActiveIndexChange }) => {
+  const labels = chartLabels(spec);
+  const count = labels.length;
+  const isLine = spec.kind === 'line';
+
+  const allValues = [...spec.series.flatMap(s => s.values), ...spec.annotations.flatMap(a => (a.y !== undefined ? [a.y] : []))];
+  const yTicks = niceTicks(Math.min(0, ...allValues), Math.max(0, ...allValues));
+  const yMin = yTicks[0];
+  const yMax = yTicks[yTicks.length - 1];
+  const yScale = (value: number) => PLOT.bottom - ((value - yMin) / (yMax - yMin)) * (PLOT.bottom - PLOT.top);
+
+  const xMin = isLine ? Math.min(spec.xValues[0], ...spec.annotations.flatMap(a => (a.x !== undefined ? [a.x] : []))) : 0;
+  const xMax = isLine ? Math.max(spec.xValues[count - 1], ...spec.annotations.flatMap(a => (a.x !== undefined ? [a.x] : []))) : 0;
+  const xScale = (value: number) => PLOT.left + ((value - xMin) / (xMax - xMin || 1)) * (PLOT.right - PLOT.left);
+  const band = (PLOT.right - PLOT.left) / Math.max(count, 1);
+  const centres = isLine ? spec.xValues.map(xScale) : labels.map((_, idx) => PLOT.left + band * (idx + 0.5));
+  const xTicks = isLine ? niceTicks(xMin, xMax, 6).filter(tick => tick >= xMin && tick <= xMax) : [];
+
+  const barWidth = (band * 0.75) / spec.series.length;
+  const zeroY = yScale(Math.max(yMin, Math.min(0, yMax)));
+
+  return (
+    <>
+      {/* Grid and y axis */}
+      {yTicks.map(tick => (
+        <g key={tick}>
+          <line x1={PLOT.left} x2={PLOT.right} y1={yScale(tick)} y2={yScale(tick)} stroke={tick === 0 ? '#94a3b8' : '#e2e8f0'} />
+          <text x={PLOT.left - 8} y={yScale(tick) + 4} fontSize={11} fill="#64748b" textAnchor="end">{formatNumber(tick)}</text>
+        </g>
+      ))}
+      <text transform={`translate(16 ${(PLOT.top + PLOT.bottom) / 2}) rotate(-90)`} fontSize={12} fill="#475569" textAnchor="middle">{spec.yLabel}</text>
+
+      {/* x axis */}
+      <line x1={PLOT.left} x2={PLOT.right} y1={PLOT.bottom} y2={PLOT.bottom} stroke="#94a3b8" />
+      {isLine
+        ? xTicks.map(tick => (
+          <text key={tick} x={xScale(tick)} y={PLOT.bottom + 18} fontSize={11} fill="#64748b" textAnchor="middle">{formatNumber(tick)}</text>
+        ))
+        : labels.map((label, idx) => (
+          <text key={idx} x={centres[idx]} y={PLOT.bottom + 18} fontSize={11} fill="#64748b" textAnchor="middle">
+            {label.length > 14 ? `${label.slice(0, 13)}…` : label}
+          </text>
+        ))}
+      <text x={(PLOT.left + PLOT.right) / 2} y={PLOT.bottom + 38} fontSize={12} fill="#475569" textAnchor="middle">{spec.xLabel}</text>
+
+      {/* Data */}
+      {isLine
+        ? spec.series.map((series, s) => (
+          <polyline
+            key={series.name}
+            points={series.values.map((value, idx) => `${centres[idx]},${yScale(value)}`).join(' ')}
+            fill="none"
+            stroke={SERIES_COLORS[s % SERIES_COLORS.length]}
+            strokeWidth={2.5}
+            strokeLinejoin="round"
+          />
+        ))
+        : labels.map((_, idx) => spec.series.map((series, s) => {
+          const value = series.values[idx];
+          const x = PLOT.left + band * idx + band * 0.125 + barWidth * s;
+          return (
+            <rect
+              key={`${idx}-${s}`}
+              x={x}
+              y={Math.min(yScale(value), zeroY)}
+              width={Math.max(barWidth - 2, 1)}
+              height={Math.abs(zeroY - yScale(value))}
+              fill={SERIES_COLORS[s % SERIES_COLORS.length]}
+              opacity={activeIndex === undefined || activeIndex === null || activeIndex === idx ? 1 : 0.45}
+            />
+          );
+        }))}
+
+      {/* Annotations */}
+      {spec.annotations.map((note, idx) => {
+        if (note.x !== undefined && note.y !== undefined) {
+          return (
+            <g key={idx}>
+              <line x1={xScale(note.x)} x2={xScale(note.x)} y1={yScale(note.y)} y2={PLOT.bottom} stroke="#0f172a" strokeDasharray="4 3" />
+              <circle cx={xScale(note.x)} cy={yScale(note.y)} r={5} fill="#0f172a" />
+              {/* Labels on the right half sit to the left of the point so they stay inside */}
+              <text
+                x={xScale(note.x) + (xScale(note.x) > WIDTH / 2 ? -8 : 8)}
+                y={yScale(note.y) - 8}
+                fontSize={11}
+                fontWeight={600}
+                fill="#0f172a"
+                textAnchor={xScale(note.x) > WIDTH / 2 ? 'end' : 'start'}
+              >
+                {note.label}
+              </text>
+            </g>
+          );
+        }
+        if (note.x !== undefined) {
+          return (
+            <g key={idx}>
+              <line x1={xScale(note.x)} x2={xScale(note.x)} y1={PLOT.top} y2={PLOT.bottom} stroke="#0f172a" strokeDasharray="4 3" />
+              <text x={xScale(note.x) + 4} y={PLOT.top + 12} fontSize={11} fontWeight={600} fill="#0f172a">{note.label}</text>
+            </g>
+          );
+        }
+        return (
+          <g key={idx}>
+            <line x1={PLOT.left} x2={PLOT.right} y1={yScale(note.y!)} y2={yScale(note.y!)} stroke="#0f172a" strokeDasharray="4 3" />
+            <text x={PLOT.right - 4} y={yScale(note.y!) - 6} fontSize={11} fontWeight={600} fill="#0f172a" textAnchor="end">{note.label}</text>
+          </g>
+        );
+      })}
+
+      {/* Hover */}
+      {activeIndex !== undefined && activeIndex !== null && activeIndex < count && (
+        <>
+          {isLine && (
+            <>
+              <line x1={centres[activeIndex]} x2={centres[activeIndex]} y1={PLOT.top} y2={PLOT.bottom} stroke="#94a3b8" pointerEvents="none" />
+              {spec.series.map((series, s) => (
+                <circle key={s} cx={centres[activeIndex]} cy={yScale(series.values[activeIndex])} r={4} fill={SERIES_COLORS[s % SERIES_COLORS.length]} pointerEvents="none" />
+              ))}
+            </>
+          )}
+          <Tooltip
+            x={centres[activeIndex]}
+            title={isLine ? `${spec.xLabel || 'x'}: ${labels[activeIndex]}` : labels[activeIndex]}
+            lines={spec.series.map((series, s) => ({ color: SERIES_COLORS[s % SERIES_COLORS.length], text: `${series.name}: ${formatNumber(series.values[activeIndex])}` }))}
+          />
+        </>
+      )}
+      {onActiveIndexChange && (
+        <rect
+          x={PLOT.left}
+          y={PLOT.top}
+          width={PLOT.right - PLOT.left}
+          height={PLOT.bottom - PLOT.top}
+          fill="transparent"
+          onMouseMove={(e) => onActiveIndexChange(indexFromPointer(e, count, centres))}
+          onMouseLeave={() => onActiveIndexChange(null)}
+        />
+      )}
+    </>
+  );
+};
+
+// Pie chart of the first series, with shares in the legend
+const PieChart: React.FC<ChartSvgProps> = ({ spec, activeIndex, onActiveIndexChange }) => {
+  const values = spec.series[0].values;
+  const total = values.reduce((sum, value) => sum + value, 0);
+  const cx = 200;
+  const cy = (PLOT.top + PLOT.bottom) / 2 + 10;
+  const radius = 130;
+
+  let angle = -Math.PI / 2;
+  const slices = values.map((value, idx) => {
+    const start = angle;
+    const sweep = (value / total) * Math.PI * 2;
+    angle += sweep;
+    const point = (a: number, r = radius) => `${cx + r * Math.cos(a)},${cy + r * Math.sin(a)}`;
+    // A single slice covering the whole pie cannot be drawn as an arc
+    const path = sweep >= Math.PI * 2 - 1e-9
+      ? `M ${cx - radius},${cy} a ${radius},${radius} 0 1,0 ${radius * 2},0 a ${radius},${radius} 0 1,0 ${-radius * 2},0`
+      : `M ${cx},${cy} L ${point(start)} A ${radius},${radius} 0 ${sweep > Math.PI ? 1 : 0},1 ${point(start + sweep)} Z`;
+    return { idx, value, path, color: SERIES_COLORS[idx % SERIES_COLORS.length] };
+  });
+
+  return (
+    <>
+      {slices.map(slice => (
+        <path
+          key={slice.idx}
+          d={slice.path}
+          fill={slice.color}
+          stroke="#ffffff"
+          strokeWidth={2}
+          opacity={activeIndex === undefined || activeIndex === null || activeIndex === slice.idx ? 1 : 0.45}
+          onMouseEnter={onActiveIndexChange ? () => onActiveIndexChange(slice.idx) : undefined}
+          onMouseLeave={onActiveIndexChange ? () => onActiveIndexChange(null) : undefined}
+        />
+      ))}
+      {spec.categories.map((category, idx) => (
+        <g key={idx} opacity={activeIndex === undefined || activeIndex === null || activeIndex === idx ? 1 : 0.45}>
+          <rect x={380} y={PLOT.top + 10 + idx * 22} width={12} height={12} rx={2} fill={SERIES_COLORS[idx % SERIES_COLORS.length]} />
+          <text x={398} y={PLOT.top + 20 + idx * 22} fontSize={12} fill="#334155">
+            {category}: {formatNumber(values[idx])} ({formatNumber((values[idx] / total) * 100, undefined, 1)}%)
+          </text>
+        </g>
+      ))}
+    </>
+  );
+};
+
+// Static SVG drawing of a chart spec; ChartView adds the interactive parts around it
+const ChartSvg: React.FC<ChartSvgProps> = (props) => {
+  const { spec, svgRef } = props;
+  return (
+    <svg
+      ref={svgRef}
+      xmlns="http://www.w3.org/2000/svg"
+      viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+      width="100%"
+      fontFamily={FONT}
+      role="img"
+      aria-label={spec.title}
+    >
+      <rect width={WIDTH} height={HEIGHT} fill="#ffffff" />
+      <text x={WIDTH / 2} y={24} fontSize={15} fontWeight={600} fill="#1e293b" textAnchor="middle">{spec.title}</text>
+      {spec.kind === 'pie' ? <PieChart {...props} /> : <AxisChart {...props} />}
+
+      {/* Legend */}
+      {spec.kind !== 'pie' && (
+        <g transform={`translate(${PLOT.left} ${HEIGHT - 16})`}>
+          {spec.series.map((series, s) => (
+            <g key={series.name} transform={`translate(${s * Math.min(150, (PLOT.right - PLOT.left) / spec.series.length)} 0)`}>
+              <rect y={-9} width={12} height={12} rx={2} fill={SERIES_COLORS[s % SERIES_COLORS.length]} />
+              <text x={18} y={1} fontSize={12} fill="#334155">{series.name.length > 18 ? `${series.name.slice(0, 17)}…` : series.name}</text>
+            </g>
+          ))}
+        </g>
+      )}
+    </svg>
+  );
+};
+
+export default ChartSvg;
@@ -0,0 +1,102 @@
+import React, { useRef, useState } from 'react';
+import { Table2, FileDown, Image as ImageIcon } from 'lucide-react';
+import ChartSvg, { SERIES_COLORS } from './ChartSvg';
+import { ChartSpec, chartLabels } from '../services/chartSpec';
+import { chartFileName, downloadChartAsSvg, downloadChartAsPng } from '../services/chartExport';
+import { formatNumber } from '../services/localeSettings';
+
+interface ChartViewProps {
+  spec: ChartSpec;
+}
+
+// Interactive chart under an answer, with its data table and SVG / PNG downloads
+const ChartView: React.FC<ChartViewProps> = ({ spec }) => {
+  const svgRef = useRef<SVGSVGElement>(null);
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [showTable, setShowTable] = useState(false);
+
+  const labels = chartLabels(spec);
+  const fileName = chartFileName(spec.title);
+
+  const handlePng = async () => {
+    if (!svgRef.current) return;
+    try {
+      await downloadChartAsPng(svgRef.current, fileName);
+    } catch (error) {
+      console.error("Failed to export chart:", error);
+    }
+  };
+
+  const actionClass = "flex items-center gap-1 px-2 py-1 rounded-md text-[11px] font-medium text-slate-500 hover:bg-white hover:text-brand-600 transition-colors";
+
+  return (
+    <div className="my-4 border border-slate-200 rounded-lg group/chart">
+      <div className="flex justify-end gap-1 px-2 py-1 bg-slate-50 border-b border-slate-200 rounded-t-lg opacity-60 group-hover/chart:opacity-100 transition-opacity">
+        <button onClick={() => setShowTable(prev => !prev)} className={actionClass} title="Show the plotted figures">
+          <Table2 size={12} />
+          {showTable ? 'Hide data' : 'Data'}
+        </button>
+        <button onClick={() => svgRef.current && downloadChartAsSvg(svgRef.current, fileName)} className={actionClass} title="Download as SVG">
+          <FileDown size={12} />
+          SVG
+        </button>
+        <button onClick={handlePng} className={actionClass} title="Download as PNG image">
+          <ImageIcon size={12} />
+          PNG
+        </button>
+      </div>
+
+      <div className="p-2">
+        <ChartSvg spec={spec} svgRef={svgRef} activeIndex={activeIndex} onActiveIndexChange={setActiveIndex} />
+      </div>
+
+      {showTable && (
+        <div className="overflow-x-auto border-t border-slate-200">
+          <table className="min-w-full text-xs">
+            <thead className="bg-slate-50 text-slate-600">
+              <tr>
+                <th className="px-3 py-2 text-left font-semibold">{spec.xLabel || (spec.kind === 'line' ? 'x' : 'Category')}</th>
+                {spec.series.map((series, s) => (
+                  <th key={series.name} className="px-3 py-2 text-right font-semibold">
+                    {spec.kind !== 'pie' && (
+                      <span className="inline-block w-2 h-2 rounded-sm mr-1.5" style={{ backgroundColor: SERIES_COLORS[s % SERIES_COLORS.length] }} />
+                    )}
+                    {series.name}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {labels.map((label, idx) => (
+                <tr
+                  key={idx}
+                  className={activeIndex === idx ? 'bg-brand-50' : ''}
+                  onMouseEnter={() => setActiveIndex(idx)}
+                  onMouseLeave={() => setActiveIndex(null)}
+                >
+                  <td className="px-3 py-1.5 text-slate-700">{label}</td>
+                  {spec.series.map(series => (
+                    <td key={series.name} className="px-3 py-1.5 text-right font-mono text-slate-700">{formatNumber(series.values[idx])}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {spec.annotations.length > 0 && (
+            <ul className="px-3 py-2 border-t border-slate-100 text-xs text-slate-500 space-y-0.5">
+              {spec.annotations.map((note, idx) => (
+                <li key={idx}>
+                  <span className="font-medium text-slate-700">{note.label}</span>
+                  {note.x !== undefined && ` · ${spec.xLabel || 'x'} ${formatNumber(note.x)}`}
+                  {note.y !== undefined && ` · ${spec.yLabel || 'y'} ${formatNumber(note.y)}`}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChartView;
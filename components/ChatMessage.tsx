@@ -1,17 +1,60 @@
-import React from 'react';
+import React, { useMemo, useState } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Message } from '../types';
-import { Bot, User, FileText } from 'lucide-react';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Message, CalculatorCall, Attachment } from '../types';
+import { Bot, User, FileText, AlertTriangle, CircleStop, CheckCircle2, XCircle, Calculator, ClipboardList, RotateCcw, Pencil, RefreshCw, ChevronLeft, ChevronRight, Layers, BookOpen } from 'lucide-react';
+import ExportableTable from './ExportableTable';
+import ChartView from './ChartView';
+import { CALCULATOR_LABELS, collectResultFigures } from '../services/calculatorTools';
+import { validateAccountingTables, TableValidation, AccountingTableKind } from '../services/balanceValidator';
+import { formatNumber } from '../services/localeSettings';
+import { getChatMode } from '../services/chatModes';
+import { prepareMath, REMARK_MATH_OPTIONS } from '../services/mathText';
+import { SourcePassage, linkCitations, citationLabel, sourceNumberFromHref } from '../services/documentLibrary';
 
 interface ChatMessageProps {
   message: Message;
   highlightTerm?: string;
+  onPrepareFinalAccounts?: (attachment: Attachment) => void;
+  onRetry?: (messageId: string) => void;
+  // Position among alternative versions of this message, when there is more than one
+  branch?: { index: number; count: number };
+  onRegenerate?: (messageId: string) => void;
+  onEdit?: (messageId: string, text: string) => void;
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
+  onMakeFlashcards?: (text: string) => void;
+  onOpenSource?: (source: SourcePassage) => void;
 }
 
+// Figures produced by a local calculator, keyed by value rounded to 2 decimals
+type CalculatedFigures = Map<string, string>;
+
+const figureKey = (value: number) => value.toFixed(2);
+
+// Underline numbers that match a calculator result
+const markFigures = (text: string, figures?: CalculatedFigures): React.ReactNode => {
+  if (!figures || figures.size === 0) return text;
+
+  const parts = text.split(/(\d[\d,]*(?:\.\d+)?)/g);
+  return parts.map((part, i) => {
+    const label = i % 2 === 1 ? figures.get(figureKey(parseFloat(part.replace(/,/g, '')))) : undefined;
+    return label ? (
+      <span
+        key={i}
+        className="underline decoration-dotted decoration-emerald-500 decoration-2 underline-offset-2 cursor-help"
+        title={`Computed by the ${label}`}
+      >
+        {part}
+      </span>
+    ) : part;
+  });
+};
+
 // Utility component to highlight matching text
-const HighlightText: React.FC<{ text: string; term: string }> = ({ text, term }) => {
-  if (!term || !text) return <>{text}</>;
+const HighlightText: React.FC<{ text: string; term: string; figures?: CalculatedFigures }> = ({ text, term, figures }) => {
+  if (!term || !text) return <>{markFigures(text, figures)}</>;
   
   // Escape special regex characters in term
   const escapedTerm = term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
@@ -22,34 +65,152 @@ const HighlightText: React.FC<{ text: string; term: string }> = ({ text, term })
       {parts.map((part, i) => 
         part.toLowerCase() === term.toLowerCase() ? 
           <mark key={i} className="bg-yellow-200 text-slate-900 rounded-sm px-0.5 font-medium">{part}</mark> : 
-          part
+          <React.Fragment key={i}>{markFigures(part, figures)}</React.Fragment>
       )}
     </>
   );
 };
 
 // Recursive helper to highlight text strings within React children
-const highlightNodes = (children: React.ReactNode, term: string): React.ReactNode => {
-  if (!term) return children;
+const highlightNodes = (children: React.ReactNode, term: string, figures?: CalculatedFigures): React.ReactNode => {
+  if (!term && (!figures || figures.size === 0)) return children;
 
   return React.Children.map(children, (child) => {
     if (typeof child === 'string') {
-      return <HighlightText text={child} term={term} />;
+      return <HighlightText text={child} term={term} figures={figures} />;
     }
     // Note: We don't recurse into React Elements (like <strong>) here because we 
     // rely on the Markdown components (p, strong, etc.) to call this function on their own children.
+    // Formulas rendered by KaTeX are elements too, so highlights never split their markup.
     return child;
   });
 };
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, highlightTerm = '' }) => {
+const formatArg = (value: unknown) => (typeof value === 'number' ? formatNumber(value, undefined, 4) : String(value));
+
+// Lists the calculator runs an answer relied on
+const CalculatorSummary: React.FC<{ calculations: CalculatorCall[] }> = ({ calculations }) => (
+  <details className="mt-3 pt-3 border-t border-slate-100 text-xs text-slate-500">
+    <summary className="flex items-center gap-1.5 cursor-pointer font-medium text-emerald-600">
+      <Calculator size={14} />
+      Figures underlined in green were computed by {calculations.length === 1 ? 'a local calculator' : `${calculations.length} local calculators`}
+    </summary>
+    <ul className="mt-2 space-y-1 pl-5 list-disc">
+      {calculations.map((calc, idx) => (
+        <li key={idx}>
+          <span className="font-medium text-slate-600">{CALCULATOR_LABELS[calc.name] || calc.name}</span>
+          {' '}({Object.entries(calc.args).map(([key, value]) => `${key}: ${Array.isArray(value) ? value.map(formatArg).join(', ') : formatArg(value)}`).join('; ')})
+          {calc.error && <span className="text-red-500"> failed: {calc.error}</span>}
+        </li>
+      ))}
+    </ul>
+  </details>
+);
+
+// Library passages the answer was given, each opening the passage
+const SourceList: React.FC<{ sources: SourcePassage[]; onOpen?: (source: SourcePassage) => void }> = ({ sources, onOpen }) => (
+  <div className="mt-3 pt-3 border-t border-slate-100 text-xs text-slate-500">
+    <p className="flex items-center gap-1.5 font-medium text-slate-600 mb-1.5">
+      <BookOpen size={14} />
+      Sources from your library
+    </p>
+    <div className="flex flex-wrap gap-1.5">
+      {sources.map((source, idx) => (
+        <button
+          key={idx}
+          onClick={() => onOpen?.(source)}
+          className="px-2 py-1 rounded-md bg-slate-50 border border-slate-200 hover:border-brand-300 hover:text-brand-700 transition-colors"
+          title={source.text.slice(0, 200)}
+        >
+          [{idx + 1}] {citationLabel(source)}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+const TABLE_KIND_LABELS: Record<AccountingTableKind, string> = {
+  'journal': 'Journal',
+  'ledger': 'Ledger',
+  'trial-balance': 'Trial Balance',
+};
+
+// Badge showing whether the debit and credit totals of an answer's tables agree
+const BalanceCheck: React.FC<{ validations: TableValidation[] }> = ({ validations }) => (
+  <div className="flex flex-col gap-2 mt-3 pt-3 border-t border-slate-100">
+    {validations.map((result, idx) => {
+      const label = result.caption || TABLE_KIND_LABELS[result.kind];
+      return result.balanced ? (
+        <div key={idx} className="flex items-center gap-1.5 text-xs font-medium text-emerald-600">
+          <CheckCircle2 size={14} />
+          <span>{label}: balanced</span>
+        </div>
+      ) : (
+        <div key={idx} className="text-xs text-red-600 bg-red-50 border border-red-100 rounded-lg px-3 py-2">
+          <div className="flex items-center gap-1.5 font-medium">
+            <XCircle size={14} />
+            <span>{label}: does not balance</span>
+          </div>
+          <ul className="list-disc pl-5 mt-1 space-y-0.5">
+            {result.issues.map((issue, i) => <li key={i}>{issue}</li>)}
+          </ul>
+        </div>
+      );
+    })}
+  </div>
+);
+
+const ChatMessage: React.FC<ChatMessageProps> = ({
+  message,
+  highlightTerm = '',
+  onPrepareFinalAccounts,
+  onRetry,
+  branch,
+  onRegenerate,
+  onEdit,
+  onSwitchBranch,
+  onMakeFlashcards,
+  onOpenSource,
+}) => {
   const isUser = message.role === 'user';
+  const mode = isUser ? getChatMode(message.mode) : undefined;
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+
+  const startEditing = () => {
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    if (!draft.trim() || !onEdit) return;
+    onEdit(message.id, draft.trim());
+    setIsEditing(false);
+  };
+
+  // Recheck accounting tables once the answer has finished streaming
+  const validations = useMemo(
+    () => (isUser || message.isStreaming ? [] : validateAccountingTables(message.text)),
+    [isUser, message.isStreaming, message.text],
+  );
+
+  const calculatedFigures = useMemo(() => {
+    const figures: CalculatedFigures = new Map();
+    message.calculations?.forEach(calc => {
+      const label = CALCULATOR_LABELS[calc.name] || calc.name;
+      collectResultFigures(calc.result).forEach(value => figures.set(figureKey(value), label));
+    });
+    return figures;
+  }, [message.calculations]);
   
-  // Determine attachment details
-  const attachmentData = message.attachment?.data || message.image;
-  const isImage = message.image || message.attachment?.mimeType.startsWith('image/');
-  const fileName = message.attachment?.name || 'Attachment';
-  const fileType = message.attachment?.mimeType.split('/')[1] || 'FILE';
+  // Images are shown as thumbnails, other files as cards; legacy messages hold a bare image
+  const attachments = message.attachments || [];
+  const images = [
+    ...(message.image ? [message.image] : []),
+    ...attachments.filter(att => att.mimeType.startsWith('image/')).map(att => att.data),
+  ];
+  const files = attachments.filter(att => !att.mimeType.startsWith('image/'));
+  const isFailed = !!message.error && !message.text;
 
   return (
     <div className={`flex w-full mb-6 ${isUser ? 'justify-end' : 'justify-start'}`}>
@@ -63,80 +224,231 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, highlightTerm = '' }
 
         {/* Message Content */}
         <div className={`flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
+          {mode && (
+            <span className={`mb-1 text-[11px] font-medium border rounded-full px-2 py-0.5 ${mode.chipClass}`}>{mode.label}</span>
+          )}
           <div className={`rounded-2xl px-5 py-4 shadow-sm markdown-body overflow-x-auto ${
             isUser 
               ? 'bg-indigo-600 text-white rounded-tr-none' 
-              : 'bg-white text-slate-800 border border-slate-200 rounded-tl-none'
+              : isFailed
+                ? 'bg-red-50 text-red-700 border border-red-200 rounded-tl-none'
+                : 'bg-white text-slate-800 border border-slate-200 rounded-tl-none'
           }`}>
-            {attachmentData && (
-              <div className="mb-3">
-                {isImage ? (
+            {images.length > 0 && (
+              <div className="mb-3 flex flex-wrap gap-2">
+                {images.map((src, idx) => (
                   <img 
-                    src={attachmentData} 
-                    alt="Attachment" 
-                    className="max-h-64 rounded-lg border border-white/20" 
+                    key={idx}
+                    src={src} 
+                    alt={`Attachment ${idx + 1}`} 
+                    className={`${images.length > 1 ? 'max-h-40' : 'max-h-64'} rounded-lg border border-white/20`} 
                   />
-                ) : (
-                  <div className={`flex items-center gap-3 p-3 rounded-lg border ${isUser ? 'bg-white/10 border-white/20' : 'bg-slate-50 border-slate-200'}`}>
+                ))}
+              </div>
+            )}
+            {files.length > 0 && (
+              <div className="mb-3 flex flex-col gap-2">
+                {files.map((file, idx) => (
+                  <div key={idx} className={`flex items-center gap-3 p-3 rounded-lg border ${isUser ? 'bg-white/10 border-white/20' : 'bg-slate-50 border-slate-200'}`}>
                     <div className={`p-2 rounded-full ${isUser ? 'bg-white/20' : 'bg-slate-200'}`}>
                       <FileText size={20} className={isUser ? 'text-white' : 'text-slate-600'} />
                     </div>
                     <div className="flex flex-col">
-                      <span className={`text-sm font-medium ${isUser ? 'text-white' : 'text-slate-800'}`}>{fileName}</span>
-                      <span className={`text-xs uppercase ${isUser ? 'text-white/70' : 'text-slate-500'}`}>{fileType}</span>
+                      <span className={`text-sm font-medium ${isUser ? 'text-white' : 'text-slate-800'}`}>{file.name}</span>
+                      <span className={`text-xs uppercase ${isUser ? 'text-white/70' : 'text-slate-500'}`}>{file.mimeType.split('/')[1] || 'FILE'}</span>
                     </div>
+                    {isUser && file.mimeType === 'text/csv' && onPrepareFinalAccounts && (
+                      <button
+                        onClick={() => onPrepareFinalAccounts(file)}
+                        className="ml-2 flex items-center gap-1.5 text-xs font-medium bg-white/20 hover:bg-white/30 px-2.5 py-1.5 rounded-lg"
+                        title="Build Trading, P&L and Balance Sheet from this trial balance"
+                      >
+                        <ClipboardList size={14} />
+                        Prepare final accounts
+                      </button>
+                    )}
                   </div>
-                )}
+                ))}
               </div>
             )}
             
-            {isUser ? (
+            {isUser && isEditing ? (
+              <div className="flex flex-col gap-2 min-w-[16rem]">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) {
+                      e.preventDefault();
+                      submitEdit();
+                    }
+                    if (e.key === 'Escape') setIsEditing(false);
+                  }}
+                  rows={Math.min(8, Math.max(2, draft.split('\n').length))}
+                  className="w-full bg-white/10 text-white placeholder-white/60 border border-white/30 rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-white/60 resize-y"
+                  autoFocus
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setIsEditing(false)} className="text-xs px-3 py-1.5 rounded-lg hover:bg-white/10">
+                    Cancel
+                  </button>
+                  <button
+                    onClick={submitEdit}
+                    disabled={!draft.trim() || !onEdit}
+                    className="text-xs font-medium px-3 py-1.5 rounded-lg bg-white text-indigo-700 hover:bg-indigo-50 disabled:opacity-50"
+                  >
+                    Send
+                  </button>
+                </div>
+              </div>
+            ) : isUser ? (
               <div className="whitespace-pre-wrap">
                 {highlightTerm ? <HighlightText text={message.text} term={highlightTerm} /> : message.text}
               </div>
-            ) : (
+            ) : isFailed ? null : (
               <ReactMarkdown 
-                remarkPlugins={[remarkGfm]}
+                remarkPlugins={[remarkGfm, [remarkMath, REMARK_MATH_OPTIONS]]}
+                rehypePlugins={[rehypeKatex]}
                 components={{
                   // Containers that usually hold text
-                  p: ({node, children, ...props}) => <p {...props}>{highlightNodes(children, highlightTerm)}</p>,
-                  li: ({node, children, ...props}) => <li className="mb-1" {...props}>{highlightNodes(children, highlightTerm)}</li>,
-                  h1: ({node, children, ...props}) => <h1 className="text-xl font-bold mb-3 mt-4 text-slate-900" {...props}>{highlightNodes(children, highlightTerm)}</h1>,
-                  h2: ({node, children, ...props}) => <h2 className="text-lg font-bold mb-2 mt-3 text-slate-800" {...props}>{highlightNodes(children, highlightTerm)}</h2>,
-                  h3: ({node, children, ...props}) => <h3 className="text-md font-bold mb-2 mt-2 text-slate-800" {...props}>{highlightNodes(children, highlightTerm)}</h3>,
-                  strong: ({node, children, ...props}) => <span className="font-bold text-indigo-700" {...props}>{highlightNodes(children, highlightTerm)}</span>,
-                  em: ({node, children, ...props}) => <em className="italic" {...props}>{highlightNodes(children, highlightTerm)}</em>,
+                  p: ({node, children, ...props}) => <p {...props}>{highlightNodes(children, highlightTerm, calculatedFigures)}</p>,
+                  li: ({node, children, ...props}) => <li className="mb-1" {...props}>{highlightNodes(children, highlightTerm, calculatedFigures)}</li>,
+                  h1: ({node, children, ...props}) => <h1 className="text-xl font-bold mb-3 mt-4 text-slate-900" {...props}>{highlightNodes(children, highlightTerm, calculatedFigures)}</h1>,
+                  h2: ({node, children, ...props}) => <h2 className="text-lg font-bold mb-2 mt-3 text-slate-800" {...props}>{highlightNodes(children, highlightTerm, calculatedFigures)}</h2>,
+                  h3: ({node, children, ...props}) => <h3 className="text-md font-bold mb-2 mt-2 text-slate-800" {...props}>{highlightNodes(children, highlightTerm, calculatedFigures)}</h3>,
+                  strong: ({node, children, ...props}) => <span className="font-bold text-indigo-700" {...props}>{highlightNodes(children, highlightTerm, calculatedFigures)}</span>,
+                  em: ({node, children, ...props}) => <em className="italic" {...props}>{highlightNodes(children, highlightTerm, calculatedFigures)}</em>,
                   
                   // Table specific highlighting
-                  table: ({node, ...props}) => (
-                    <div className="overflow-x-auto my-4 border border-slate-200 rounded-lg">
-                       <table className="min-w-full divide-y divide-slate-200" {...props} />
-                    </div>
-                  ),
+                  table: ({node, ...props}) => <ExportableTable {...props} />,
                   thead: ({node, ...props}) => <thead className="bg-slate-50" {...props} />,
                   th: ({node, children, ...props}) => (
                     <th className="px-4 py-3 text-left text-xs font-bold text-slate-500 uppercase tracking-wider border-b border-slate-200" {...props}>
-                       {highlightNodes(children, highlightTerm)}
+                       {highlightNodes(children, highlightTerm, calculatedFigures)}
                     </th>
                   ),
                   td: ({node, children, ...props}) => (
                     <td className="px-4 py-3 text-sm text-slate-700 border-b border-slate-100 whitespace-nowrap" {...props}>
-                      {highlightNodes(children, highlightTerm)}
+                      {highlightNodes(children, highlightTerm, calculatedFigures)}
                     </td>
                   ),
                   
                   // Lists
                   ul: ({node, ...props}) => <ul className="list-disc pl-5 mb-2 space-y-1" {...props} />,
                   ol: ({node, ...props}) => <ol className="list-decimal pl-5 mb-2 space-y-1" {...props} />,
+
+                  // Citations of library passages open the passage
+                  a: ({node, href, children, ...props}) => {
+                    const sourceNumber = sourceNumberFromHref(href);
+                    const source = sourceNumber ? message.sources?.[sourceNumber - 1] : undefined;
+                    return source ? (
+                      <button
+                        onClick={() => onOpenSource?.(source)}
+                        className="inline-flex items-center gap-1 align-baseline text-xs font-medium text-brand-700 bg-brand-50 border border-brand-100 rounded px-1.5 hover:bg-brand-100"
+                        title={source.text.slice(0, 200)}
+                      >
+                        <BookOpen size={11} />
+                        {children}
+                      </button>
+                    ) : <a href={href} target="_blank" rel="noreferrer" className="text-brand-600 underline" {...props}>{children}</a>;
+                  },
                 }}
               >
-                {message.text}
+                {prepareMath(linkCitations(message.text, message.sources || []))}
               </ReactMarkdown>
             )}
+
+            {/* Streaming caret */}
+            {message.isStreaming && (
+              <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-brand-500 animate-pulse rounded-sm" />
+            )}
+
+            {validations.length > 0 && <BalanceCheck validations={validations} />}
+
+            {message.chart && <ChartView spec={message.chart} />}
+
+            {message.sources && message.sources.length > 0 && !message.isStreaming && !isFailed && (
+              <SourceList sources={message.sources} onOpen={onOpenSource} />
+            )}
+
+            {message.calculations && message.calculations.length > 0 && !message.isStreaming && (
+              <CalculatorSummary calculations={message.calculations} />
+            )}
+
+            {/* Partial answer notice */}
+            {message.stopReason && !message.error && !message.isStreaming && (
+              <div className={`flex items-center gap-2 mt-3 pt-3 border-t text-xs font-medium ${
+                message.stopReason === 'error' ? 'border-red-100 text-red-500' : 'border-slate-100 text-slate-400'
+              }`}>
+                {message.stopReason === 'error' ? <AlertTriangle size={14} /> : <CircleStop size={14} />}
+                {message.stopReason === 'error'
+                  ? 'The connection was interrupted. This answer is incomplete.'
+                  : 'Generation stopped.'}
+              </div>
+            )}
+
+            {/* Failed request */}
+            {message.error && !message.isStreaming && (
+              <div className={`flex items-center gap-3 text-sm ${message.text ? 'mt-3 pt-3 border-t border-red-100 text-red-500' : ''}`}>
+                <AlertTriangle size={16} className="flex-shrink-0" />
+                <span className="flex-1">
+                  {message.text && 'This answer is incomplete. '}
+                  {message.error.message}
+                </span>
+                {onRetry && (
+                  <button
+                    onClick={() => onRetry(message.id)}
+                    className="flex items-center gap-1.5 text-xs font-medium text-red-600 bg-white border border-red-200 hover:bg-red-100 px-2.5 py-1.5 rounded-lg"
+                  >
+                    <RotateCcw size={14} />
+                    Retry
+                  </button>
+                )}
+              </div>
+            )}
+          </div>
+          <div className={`flex items-center gap-2 mt-1 px-1 text-xs text-slate-400 ${isUser ? 'flex-row-reverse' : ''}`}>
+            <span>{message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}</span>
+
+            {/* Version switcher */}
+            {branch && onSwitchBranch && (
+              <div className="flex items-center">
+                <button
+                  onClick={() => onSwitchBranch(message.id, -1)}
+                  disabled={branch.index === 0}
+                  className="p-0.5 rounded hover:text-slate-600 disabled:opacity-30"
+                  title="Previous version"
+                >
+                  <ChevronLeft size={14} />
+                </button>
+                <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+                <button
+                  onClick={() => onSwitchBranch(message.id, 1)}
+                  disabled={branch.index === branch.count - 1}
+                  className="p-0.5 rounded hover:text-slate-600 disabled:opacity-30"
+                  title="Next version"
+                >
+                  <ChevronRight size={14} />
+                </button>
+              </div>
+            )}
+
+            {isUser && onEdit && !isEditing && (
+              <button onClick={startEditing} className="p-0.5 rounded hover:text-slate-600" title="Edit question">
+                <Pencil size={13} />
+              </button>
+            )}
+            {!isUser && onRegenerate && !message.isStreaming && !message.error && (
+              <button onClick={() => onRegenerate(message.id)} className="p-0.5 rounded hover:text-slate-600" title="Regenerate answer">
+                <RefreshCw size={13} />
+              </button>
+            )}
+            {!isUser && onMakeFlashcards && !message.isStreaming && message.text && (
+              <button onClick={() => onMakeFlashcards(message.text)} className="p-0.5 rounded hover:text-slate-600" title="Make flashcards">
+                <Layers size={13} />
+              </button>
+            )}
           </div>
-          <span className="text-xs text-slate-400 mt-1 px-1">
-            {message.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-          </span>
         </div>
       </div>
     </div>
@@ -0,0 +1,33 @@
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { ContextPlan, CONTEXT_TOKEN_BUDGET } from '../services/contextBudget';
+
+interface ContextMeterProps {
+  plan: ContextPlan;
+}
+
+const formatTokens = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens));
+
+// Share of the history budget the next question will use
+const ContextMeter: React.FC<ContextMeterProps> = ({ plan }) => {
+  const share = Math.min(1, plan.estimatedTokens / CONTEXT_TOKEN_BUDGET);
+  const barClass = share > 0.8 ? 'bg-amber-500' : 'bg-brand-500';
+  const summarized = plan.summary?.messageCount || 0;
+
+  return (
+    <div
+      className="hidden sm:flex items-center gap-2 text-xs text-slate-500"
+      title={`About ${plan.estimatedTokens.toLocaleString()} of ${CONTEXT_TOKEN_BUDGET.toLocaleString()} tokens of chat history go with the next question. ` +
+        `Files from older turns are not resent, and the oldest turns are summarized once the history passes the budget.`}
+    >
+      <Gauge size={14} />
+      <div className="w-16 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+        <div className={`h-full ${barClass} transition-all`} style={{ width: `${Math.max(2, share * 100)}%` }} />
+      </div>
+      <span className="tabular-nums">{formatTokens(plan.estimatedTokens)} / {formatTokens(CONTEXT_TOKEN_BUDGET)}</span>
+      {summarized > 0 && <span className="text-slate-400">· {summarized} summarized</span>}
+    </div>
+  );
+};
+
+export default ContextMeter;
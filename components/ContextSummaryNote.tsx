@@ -0,0 +1,26 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import { ContextSummary } from '../services/contextBudget';
+
+interface ContextSummaryNoteProps {
+  summary: ContextSummary;
+}
+
+// Marks where the summarized part of a chat ends, with the summary the model is given
+const ContextSummaryNote: React.FC<ContextSummaryNoteProps> = ({ summary }) => (
+  <details className="mb-6 group">
+    <summary className="flex items-center gap-3 cursor-pointer list-none text-xs text-slate-400 hover:text-slate-600">
+      <span className="flex-1 border-t border-dashed border-slate-300" />
+      <span className="flex items-center gap-1.5">
+        <History size={14} />
+        Messages above this line are sent to the AI as a summary
+      </span>
+      <span className="flex-1 border-t border-dashed border-slate-300" />
+    </summary>
+    <div className="mt-3 mx-auto max-w-2xl bg-white border border-slate-200 rounded-lg px-4 py-3 text-sm text-slate-600 whitespace-pre-wrap">
+      {summary.text}
+    </div>
+  </details>
+);
+
+export default ContextSummaryNote;
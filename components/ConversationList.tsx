@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Conversation } from '../types';
+import { MessageSquare, Pencil, Copy, Trash2, Check, X } from 'lucide-react';
+
+interface ConversationListProps {
+  conversations: Conversation[];
+  activeConversationId: string;
+  onSelect: (id: string) => void;
+  onRename: (id: string, title: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const formatUpdatedAt = (date: Date) => {
+  const isToday = date.toDateString() === new Date().toDateString();
+  return isToday
+    ? date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+    : date.toLocaleDateString([], { month: 'short', day: 'numeric' });
+};
+
+const ConversationList: React.FC<ConversationListProps> = ({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onRename,
+  onDuplicate,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  // Most recently updated first; empty drafts are not listed
+  const sorted = conversations
+    .filter(conv => conv.messages.length > 0)
+    .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+
+  const startEditing = (conv: Conversation) => {
+    setEditingId(conv.id);
+    setDraftTitle(conv.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      setEditingId(null);
+    }
+  };
+
+  if (sorted.length === 0) {
+    return <p className="text-xs text-slate-400 px-3 py-2">No saved conversations yet.</p>;
+  }
+
+  return (
+    <nav className="space-y-1">
+      {sorted.map((conv) => {
+        const isActive = conv.id === activeConversationId;
+
+        if (editingId === conv.id) {
+          return (
+            <div key={conv.id} className="flex items-center gap-1 px-2 py-1.5 rounded-lg bg-slate-50">
+              <input
+                autoFocus
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onKeyDown={handleKeyDown}
+                className="flex-1 min-w-0 bg-white border border-slate-200 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500"
+              />
+              <button onClick={commitRename} className="p-1 text-slate-400 hover:text-brand-600" title="Save name">
+                <Check size={14} />
+              </button>
+              <button onClick={() => setEditingId(null)} className="p-1 text-slate-400 hover:text-slate-600" title="Cancel">
+                <X size={14} />
+              </button>
+            </div>
+          );
+        }
+
+        return (
+          <div
+            key={conv.id}
+            className={`group flex items-center gap-2 px-3 py-2 rounded-lg text-sm transition-colors cursor-pointer ${
+              isActive
+                ? 'bg-brand-50 text-brand-700 font-medium'
+                : 'text-slate-600 hover:bg-slate-50 hover:text-slate-900'
+            }`}
+            onClick={() => onSelect(conv.id)}
+          >
+            <MessageSquare size={14} className="flex-shrink-0 opacity-60" />
+            <div className="flex-1 min-w-0">
+              <div className="truncate">{conv.title}</div>
+              <div className="text-[10px] text-slate-400 font-normal truncate">
+                {conv.selectedSubject ? `${conv.selectedSubject} · ` : ''}{formatUpdatedAt(conv.updatedAt)}
+              </div>
+            </div>
+            <div className="hidden group-hover:flex items-center gap-0.5" onClick={(e) => e.stopPropagation()}>
+              <button onClick={() => startEditing(conv)} className="p-1 text-slate-400 hover:text-brand-600" title="Rename">
+                <Pencil size={13} />
+              </button>
+              <button onClick={() => onDuplicate(conv.id)} className="p-1 text-slate-400 hover:text-brand-600" title="Duplicate">
+                <Copy size={13} />
+              </button>
+              <button onClick={() => onDelete(conv.id)} className="p-1 text-slate-400 hover:text-red-500" title="Delete">
+                <Trash2 size={13} />
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </nav>
+  );
+};
+
+export default ConversationList;
@@ -0,0 +1,118 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Upload, Trash2, Loader2, FileText, Library } from 'lucide-react';
+import { LibraryDocument } from '../services/documentLibrary';
+import { listDocuments, addDocument, deleteDocument } from '../services/documentStore';
+
+interface DocumentLibraryDialogProps {
+  onClose: () => void;
+}
+
+// Textbooks kept in the browser; questions are answered from their matching passages
+const DocumentLibraryDialog: React.FC<DocumentLibraryDialogProps> = ({ onClose }) => {
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [progress, setProgress] = useState<{ name: string; page: number; pageCount: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = () =>
+    listDocuments()
+      .then(setDocuments)
+      .catch(err => console.error("Failed to load the document library:", err));
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    setError(null);
+
+    for (const file of files) {
+      setProgress({ name: file.name, page: 0, pageCount: 0 });
+      try {
+        await addDocument(file, file.name, (page, pageCount) => setProgress({ name: file.name, page, pageCount }));
+      } catch (err) {
+        console.error("Failed to add document:", err);
+        setError(err instanceof Error ? err.message : `Could not read ${file.name}.`);
+      }
+    }
+    setProgress(null);
+    refresh();
+  };
+
+  const handleDelete = async (doc: LibraryDocument) => {
+    if (!window.confirm(`Remove "${doc.name}" from your library? Answers that cite it keep their quoted passages.`)) return;
+    try {
+      await deleteDocument(doc.id);
+      setDocuments(prev => prev.filter(d => d.id !== doc.id));
+    } catch (err) {
+      console.error("Failed to delete document:", err);
+      setError(`Could not remove ${doc.name}.`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-800">Textbook Library</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          <p className="text-sm text-slate-500">
+            Add a PDF once. Every question is then sent with the passages that match it, and answers cite the book and page.
+          </p>
+
+          <input ref={fileInputRef} type="file" accept=".pdf,application/pdf" multiple className="hidden" onChange={handleFiles} />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={!!progress}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+          >
+            {progress ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+            Add PDF
+          </button>
+
+          {progress && (
+            <p className="text-xs text-slate-500">
+              Reading {progress.name}{progress.pageCount ? `: page ${progress.page} of ${progress.pageCount}` : '...'}
+            </p>
+          )}
+          {error && <p className="text-xs text-red-500">{error}</p>}
+
+          {documents.length === 0 ? (
+            <div className="flex flex-col items-center py-8 text-slate-400">
+              <Library size={36} className="mb-2 opacity-40" />
+              <p className="text-sm">No books yet.</p>
+            </div>
+          ) : (
+            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-lg">
+              {documents.map(doc => (
+                <li key={doc.id} className="flex items-center gap-3 px-3 py-2.5">
+                  <FileText size={18} className="text-red-500 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-slate-700 font-medium truncate">{doc.name}</p>
+                    <p className="text-xs text-slate-400">{doc.pageCount} pages · added {doc.addedAt.toLocaleDateString()}</p>
+                  </div>
+                  <button
+                    onClick={() => handleDelete(doc)}
+                    className="p-1.5 text-slate-400 hover:text-red-500 hover:bg-red-50 rounded-lg"
+                    title="Remove from library"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DocumentLibraryDialog;
@@ -0,0 +1,135 @@
+import React, { useState } from 'react';
+import { Conversation } from '../types';
+import { exportConversation, ExportFormat } from '../services/exportService';
+import { getActivePath } from '../services/conversationTree';
+import { X, Download, Loader2, FileText, FileDown, FileType } from 'lucide-react';
+
+interface ExportDialogProps {
+  conversation: Conversation;
+  onClose: () => void;
+}
+
+const FORMATS: { id: ExportFormat; label: string; description: string; icon: React.ReactNode }[] = [
+  { id: 'pdf', label: 'PDF', description: 'Print-ready, via the print dialog', icon: <FileDown size={18} /> },
+  { id: 'docx', label: 'Word (DOCX)', description: 'Editable document with real tables', icon: <FileType size={18} /> },
+  { id: 'markdown', label: 'Markdown', description: 'Plain text with GFM tables', icon: <FileText size={18} /> },
+];
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ conversation, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [scope, setScope] = useState<'all' | 'selected'>('all');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleMessage = (id: string) => {
+    setSelectedIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id]);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await exportConversation(conversation, format, scope === 'selected' ? selectedIds : undefined);
+      onClose();
+    } catch (e) {
+      console.error("Export failed:", e);
+      setError(e instanceof Error ? e.message : 'Export failed. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const canExport = scope === 'all' || selectedIds.length > 0;
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-800">Export Conversation</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-5 overflow-y-auto">
+          {/* Format */}
+          <div>
+            <div className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Format</div>
+            <div className="grid grid-cols-3 gap-2">
+              {FORMATS.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => setFormat(f.id)}
+                  className={`flex flex-col items-center text-center gap-1 p-3 rounded-xl border transition-colors ${
+                    format === f.id
+                      ? 'border-brand-400 bg-brand-50 text-brand-700'
+                      : 'border-slate-200 text-slate-600 hover:border-brand-200'
+                  }`}
+                >
+                  {f.icon}
+                  <span className="text-sm font-medium">{f.label}</span>
+                  <span className="text-[10px] text-slate-400 leading-tight">{f.description}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Scope */}
+          <div>
+            <div className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Messages</div>
+            <div className="flex gap-4 text-sm text-slate-600 mb-3">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} />
+                Whole conversation
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={scope === 'selected'} onChange={() => setScope('selected')} />
+                Selected messages
+              </label>
+            </div>
+
+            {scope === 'selected' && (
+              <div className="border border-slate-200 rounded-lg divide-y divide-slate-100 max-h-64 overflow-y-auto">
+                {getActivePath(conversation).map(msg => (
+                  <label key={msg.id} className="flex items-start gap-2 p-2 text-sm hover:bg-slate-50 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      className="mt-1"
+                      checked={selectedIds.includes(msg.id)}
+                      onChange={() => toggleMessage(msg.id)}
+                    />
+                    <div className="min-w-0">
+                      <span className={`text-xs font-medium ${msg.role === 'user' ? 'text-indigo-600' : 'text-brand-600'}`}>
+                        {msg.role === 'user' ? 'Question' : 'Answer'} · {msg.timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                      </span>
+                      <p className="text-slate-600 truncate">{msg.text || msg.attachments?.map(att => att.name).join(', ')}</p>
+                    </div>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-50 rounded-lg">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!canExport || isExporting}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {isExporting ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
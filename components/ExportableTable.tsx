@@ -0,0 +1,49 @@
+import React, { useRef, useState } from 'react';
+import { Copy, Check, FileDown, FileSpreadsheet } from 'lucide-react';
+import { readTableElement, toTsv, downloadTableAsCsv, downloadTableAsXlsx } from '../services/tableExport';
+
+type ExportableTableProps = React.TableHTMLAttributes<HTMLTableElement>;
+
+// Markdown table with copy / CSV / XLSX actions for moving answers into a spreadsheet
+const ExportableTable: React.FC<ExportableTableProps> = ({ className, ...props }) => {
+  const tableRef = useRef<HTMLTableElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const readRows = () => (tableRef.current ? readTableElement(tableRef.current) : []);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(toTsv(readRows()));
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error("Failed to copy table:", error);
+    }
+  };
+
+  const actionClass = "flex items-center gap-1 px-2 py-1 rounded-md text-[11px] font-medium text-slate-500 hover:bg-white hover:text-brand-600 transition-colors";
+
+  return (
+    <div className="my-4 border border-slate-200 rounded-lg group/table">
+      <div className="flex justify-end gap-1 px-2 py-1 bg-slate-50 border-b border-slate-200 rounded-t-lg opacity-60 group-hover/table:opacity-100 transition-opacity">
+        <button onClick={handleCopy} className={actionClass} title="Copy as tab-separated values">
+          {copied ? <Check size={12} /> : <Copy size={12} />}
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button onClick={() => downloadTableAsCsv(readRows(), 'acctsolver-table')} className={actionClass} title="Download as CSV">
+          <FileDown size={12} />
+          CSV
+        </button>
+        <button onClick={() => downloadTableAsXlsx(readRows(), 'acctsolver-table')} className={actionClass} title="Download as Excel workbook">
+          <FileSpreadsheet size={12} />
+          XLSX
+        </button>
+      </div>
+      <div className="overflow-x-auto">
+        <table {...props} ref={tableRef} className={`min-w-full divide-y divide-slate-200 ${className ?? ''}`.trim()} />
+      </div>
+    </div>
+  );
+};
+
+export default ExportableTable;
@@ -0,0 +1,301 @@
+import React, { useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment } from '../types';
+import { decodeBase64Text, stripDataUrlPrefix } from '../services/fileUtils';
+import {
+  parseTrialBalanceCsv,
+  checkTrialBalance,
+  suggestClassification,
+  buildFinalAccounts,
+  finalAccountsToMarkdown,
+  TrialBalanceAccount,
+  AccountClass,
+  AccrualType,
+  FinalAccountsAdjustments,
+  ACCOUNT_CLASSES,
+  ACCOUNT_CLASS_LABELS,
+} from '../services/finalAccounts';
+import { suggestAccountClassifications } from '../services/aiService';
+import { formatNumber } from '../services/localeSettings';
+import { X, CheckCircle2, XCircle, Sparkles, Loader2, Plus, Trash2, ArrowLeft, ArrowRight } from 'lucide-react';
+
+interface FinalAccountsWizardProps {
+  attachment: Attachment;
+  onClose: () => void;
+  onComplete: (markdown: string) => void;
+}
+
+type Step = 'review' | 'classify' | 'adjust';
+
+const ACCRUAL_LABELS: Record<AccrualType, string> = {
+  'outstanding-expense': 'Outstanding expense',
+  'prepaid-expense': 'Prepaid expense',
+  'accrued-income': 'Accrued income',
+  'income-received-in-advance': 'Income received in advance',
+};
+
+// Step-by-step workflow: verify the trial balance, classify accounts, enter adjustments
+const FinalAccountsWizard: React.FC<FinalAccountsWizardProps> = ({ attachment, onClose, onComplete }) => {
+  const [initial] = useState(() => {
+    try {
+      const csv = decodeBase64Text(stripDataUrlPrefix(attachment.data));
+      const parsed = parseTrialBalanceCsv(csv).map(acc => ({ ...acc, classification: suggestClassification(acc) }));
+      return { accounts: parsed, error: null };
+    } catch (error) {
+      return { accounts: [] as TrialBalanceAccount[], error: error instanceof Error ? error.message : 'Could not read the trial balance.' };
+    }
+  });
+  const parseError = initial.error;
+  const [accounts, setAccounts] = useState<TrialBalanceAccount[]>(initial.accounts);
+  const [step, setStep] = useState<Step>('review');
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [periodLabel, setPeriodLabel] = useState('the year ended 31 March');
+  const [adjustments, setAdjustments] = useState<FinalAccountsAdjustments>({ closingStock: 0, accruals: [], depreciation: [] });
+  const [buildError, setBuildError] = useState<string | null>(null);
+
+  const check = useMemo(() => checkTrialBalance(accounts), [accounts]);
+  const unclassifiedCount = accounts.filter(acc => !acc.classification).length;
+  const expenseOrIncomeAccounts = accounts.filter(acc =>
+    acc.classification && ['direct-expense', 'indirect-expense', 'direct-income', 'indirect-income'].includes(acc.classification)
+  );
+  const fixedAssets = accounts.filter(acc => acc.classification === 'fixed-asset');
+
+  const setClassification = (id: string, classification: AccountClass) => {
+    setAccounts(prev => prev.map(acc => acc.id === id ? { ...acc, classification } : acc));
+  };
+
+  const handleSuggest = async () => {
+    setIsSuggesting(true);
+    const suggestions = await suggestAccountClassifications(accounts);
+    setAccounts(prev => prev.map(acc => suggestions[acc.id] ? { ...acc, classification: suggestions[acc.id] } : acc));
+    setIsSuggesting(false);
+  };
+
+  const addAccrual = () => {
+    if (expenseOrIncomeAccounts.length === 0) return;
+    setAdjustments(prev => ({
+      ...prev,
+      accruals: [...prev.accruals, { id: uuidv4(), accountId: expenseOrIncomeAccounts[0].id, type: 'outstanding-expense', amount: 0 }],
+    }));
+  };
+
+  const addDepreciation = () => {
+    if (fixedAssets.length === 0) return;
+    setAdjustments(prev => ({
+      ...prev,
+      depreciation: [...prev.depreciation, { id: uuidv4(), accountId: fixedAssets[0].id, ratePercent: 10 }],
+    }));
+  };
+
+  const handleGenerate = () => {
+    try {
+      const result = buildFinalAccounts(accounts, adjustments);
+      onComplete(finalAccountsToMarkdown(result, periodLabel.trim() || 'the year'));
+    } catch (error) {
+      setBuildError(error instanceof Error ? error.message : 'Could not prepare the final accounts.');
+    }
+  };
+
+  const inputClass = "bg-white border border-slate-200 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-slate-800">Prepare Final Accounts</h3>
+            <p className="text-xs text-slate-400">{attachment.name}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {parseError ? (
+            <p className="text-sm text-red-500">{parseError}</p>
+          ) : step === 'review' ? (
+            <>
+              <div className={`flex items-center gap-2 mb-3 text-sm font-medium ${check.balanced ? 'text-emerald-600' : 'text-red-600'}`}>
+                {check.balanced ? <CheckCircle2 size={16} /> : <XCircle size={16} />}
+                {check.balanced
+                  ? `Trial balance agrees: Dr ${formatNumber(check.debitTotal)} = Cr ${formatNumber(check.creditTotal)}`
+                  : `Trial balance does not agree: Dr ${formatNumber(check.debitTotal)} vs Cr ${formatNumber(check.creditTotal)}`}
+              </div>
+              <table className="min-w-full text-sm border border-slate-200">
+                <thead className="bg-slate-50 text-xs text-slate-500 uppercase">
+                  <tr>
+                    <th className="px-3 py-2 text-left">Account</th>
+                    <th className="px-3 py-2 text-right">Debit</th>
+                    <th className="px-3 py-2 text-right">Credit</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {accounts.map(acc => (
+                    <tr key={acc.id} className="border-t border-slate-100">
+                      <td className="px-3 py-1.5">{acc.name}</td>
+                      <td className="px-3 py-1.5 text-right">{acc.debit ? formatNumber(acc.debit) : ''}</td>
+                      <td className="px-3 py-1.5 text-right">{acc.credit ? formatNumber(acc.credit) : ''}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          ) : step === 'classify' ? (
+            <>
+              <div className="flex items-center justify-between mb-3">
+                <p className="text-sm text-slate-500">
+                  {unclassifiedCount > 0 ? `${unclassifiedCount} account(s) still need a classification.` : 'All accounts are classified.'}
+                </p>
+                <button
+                  onClick={handleSuggest}
+                  disabled={isSuggesting}
+                  className="flex items-center gap-1.5 text-sm text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                >
+                  {isSuggesting ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                  Suggest with AI
+                </button>
+              </div>
+              <div className="space-y-1.5">
+                {accounts.map(acc => (
+                  <div key={acc.id} className="flex items-center gap-3">
+                    <span className="flex-1 text-sm text-slate-700 truncate">{acc.name}</span>
+                    <span className="text-xs text-slate-400 w-24 text-right">
+                      {acc.debit ? `Dr ${formatNumber(acc.debit)}` : `Cr ${formatNumber(acc.credit)}`}
+                    </span>
+                    <select
+                      value={acc.classification || ''}
+                      onChange={(e) => setClassification(acc.id, e.target.value as AccountClass)}
+                      className={`${inputClass} w-56 ${acc.classification ? '' : 'border-amber-300 bg-amber-50'}`}
+                    >
+                      <option value="" disabled>Choose...</option>
+                      {ACCOUNT_CLASSES.map(cls => <option key={cls} value={cls}>{ACCOUNT_CLASS_LABELS[cls]}</option>)}
+                    </select>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <div className="space-y-5">
+              <div className="grid grid-cols-2 gap-4">
+                <label className="text-sm text-slate-600">
+                  <span className="block mb-1 font-medium">Period</span>
+                  <input value={periodLabel} onChange={(e) => setPeriodLabel(e.target.value)} className={`${inputClass} w-full`} />
+                </label>
+                <label className="text-sm text-slate-600">
+                  <span className="block mb-1 font-medium">Closing stock</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={adjustments.closingStock || ''}
+                    onChange={(e) => setAdjustments(prev => ({ ...prev, closingStock: Number(e.target.value) || 0 }))}
+                    className={`${inputClass} w-full`}
+                  />
+                </label>
+              </div>
+
+              {/* Depreciation */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-slate-600">Depreciation</span>
+                  <button onClick={addDepreciation} disabled={fixedAssets.length === 0} className="flex items-center gap-1 text-xs text-brand-600 disabled:opacity-40">
+                    <Plus size={12} /> Add
+                  </button>
+                </div>
+                {adjustments.depreciation.map(dep => (
+                  <div key={dep.id} className="flex items-center gap-2 mb-1.5">
+                    <select
+                      value={dep.accountId}
+                      onChange={(e) => setAdjustments(prev => ({ ...prev, depreciation: prev.depreciation.map(d => d.id === dep.id ? { ...d, accountId: e.target.value } : d) }))}
+                      className={`${inputClass} flex-1`}
+                    >
+                      {fixedAssets.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      value={dep.ratePercent}
+                      onChange={(e) => setAdjustments(prev => ({ ...prev, depreciation: prev.depreciation.map(d => d.id === dep.id ? { ...d, ratePercent: Number(e.target.value) || 0 } : d) }))}
+                      className={`${inputClass} w-20`}
+                    />
+                    <span className="text-sm text-slate-400">% p.a.</span>
+                    <button onClick={() => setAdjustments(prev => ({ ...prev, depreciation: prev.depreciation.filter(d => d.id !== dep.id) }))} className="p-1 text-slate-400 hover:text-red-500">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              {/* Accruals */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-slate-600">Outstanding, prepaid and accrued items</span>
+                  <button onClick={addAccrual} disabled={expenseOrIncomeAccounts.length === 0} className="flex items-center gap-1 text-xs text-brand-600 disabled:opacity-40">
+                    <Plus size={12} /> Add
+                  </button>
+                </div>
+                {adjustments.accruals.map(adj => (
+                  <div key={adj.id} className="flex items-center gap-2 mb-1.5">
+                    <select
+                      value={adj.type}
+                      onChange={(e) => setAdjustments(prev => ({ ...prev, accruals: prev.accruals.map(a => a.id === adj.id ? { ...a, type: e.target.value as AccrualType } : a) }))}
+                      className={`${inputClass} w-48`}
+                    >
+                      {(Object.keys(ACCRUAL_LABELS) as AccrualType[]).map(type => <option key={type} value={type}>{ACCRUAL_LABELS[type]}</option>)}
+                    </select>
+                    <select
+                      value={adj.accountId}
+                      onChange={(e) => setAdjustments(prev => ({ ...prev, accruals: prev.accruals.map(a => a.id === adj.id ? { ...a, accountId: e.target.value } : a) }))}
+                      className={`${inputClass} flex-1`}
+                    >
+                      {expenseOrIncomeAccounts.map(acc => <option key={acc.id} value={acc.id}>{acc.name}</option>)}
+                    </select>
+                    <input
+                      type="number"
+                      min={0}
+                      value={adj.amount || ''}
+                      onChange={(e) => setAdjustments(prev => ({ ...prev, accruals: prev.accruals.map(a => a.id === adj.id ? { ...a, amount: Number(e.target.value) || 0 } : a) }))}
+                      className={`${inputClass} w-28`}
+                    />
+                    <button onClick={() => setAdjustments(prev => ({ ...prev, accruals: prev.accruals.filter(a => a.id !== adj.id) }))} className="p-1 text-slate-400 hover:text-red-500">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+
+              {buildError && <p className="text-sm text-red-500">{buildError}</p>}
+            </div>
+          )}
+        </div>
+
+        {!parseError && (
+          <div className="p-4 border-t border-slate-100 flex justify-between">
+            <button
+              onClick={() => setStep(step === 'adjust' ? 'classify' : 'review')}
+              disabled={step === 'review'}
+              className="flex items-center gap-1 px-4 py-2 text-sm text-slate-600 hover:bg-slate-50 rounded-lg disabled:invisible"
+            >
+              <ArrowLeft size={16} /> Back
+            </button>
+            {step === 'adjust' ? (
+              <button onClick={handleGenerate} className="px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700">
+                Generate Final Accounts
+              </button>
+            ) : (
+              <button
+                onClick={() => setStep(step === 'review' ? 'classify' : 'adjust')}
+                disabled={(step === 'review' && !check.balanced) || (step === 'classify' && unclassifiedCount > 0)}
+                className="flex items-center gap-1 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Next <ArrowRight size={16} />
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FinalAccountsWizard;
@@ -0,0 +1,346 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { SUBJECTS, CONCEPT_SUGGESTIONS, getSubject } from '../constants';
+import {
+  Flashcard,
+  GENERAL_DECK,
+  REVIEW_BUTTONS,
+  ReviewQuality,
+  createFlashcard,
+  reviewFlashcard,
+  isDue,
+  groupIntoDecks,
+  flashcardsToAnkiCsv,
+  parseAnkiCsv,
+} from '../services/flashcards';
+import { loadFlashcards, saveFlashcards, deleteFlashcards } from '../services/flashcardStore';
+import { generateFlashcards } from '../services/aiService';
+import { downloadBlob } from '../services/fileUtils';
+import { X, Plus, Trash2, Sparkles, Loader2, Upload, Download, ArrowLeft, Layers } from 'lucide-react';
+
+interface FlashcardsDialogProps {
+  defaultSubject: string | null;
+  // Answer text to turn into cards; opens straight on the add step
+  source?: string;
+  onClose: () => void;
+}
+
+type Step = 'decks' | 'review' | 'add';
+
+const DECK_NAMES = [...SUBJECTS.map(sub => sub.name), GENERAL_DECK];
+
+// Flashcard decks grouped by subject, with SM-2 reviews and Anki CSV import/export
+const FlashcardsDialog: React.FC<FlashcardsDialogProps> = ({ defaultSubject, source, onClose }) => {
+  const [cards, setCards] = useState<Flashcard[]>([]);
+  const [step, setStep] = useState<Step>(source ? 'add' : 'decks');
+  const [deck, setDeck] = useState(defaultSubject || GENERAL_DECK);
+  const [queue, setQueue] = useState<string[]>([]);
+  const [isAnswerShown, setIsAnswerShown] = useState(false);
+  const [material, setMaterial] = useState(source || '');
+  const [drafts, setDrafts] = useState<Flashcard[]>([]);
+  const [front, setFront] = useState('');
+  const [back, setBack] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadFlashcards()
+      .then(setCards)
+      .catch(err => console.error("Failed to load flashcards:", err));
+  }, []);
+
+  const decks = useMemo(() => groupIntoDecks(cards), [cards]);
+  const currentCard = cards.find(card => card.id === queue[0]);
+
+  const persist = async (updated: Flashcard[]) => {
+    setCards(prev => [...prev.filter(card => !updated.some(u => u.id === card.id)), ...updated]);
+    try {
+      await saveFlashcards(updated);
+    } catch (err) {
+      console.error("Failed to save flashcards:", err);
+      setError('Could not save the cards. Storage may be full.');
+    }
+  };
+
+  const startReview = (subject: string) => {
+    setDeck(subject);
+    setQueue(cards.filter(card => card.subject === subject && isDue(card)).map(card => card.id));
+    setIsAnswerShown(false);
+    setStep('review');
+  };
+
+  const handleReview = (quality: ReviewQuality) => {
+    if (!currentCard) return;
+    persist([reviewFlashcard(currentCard, quality)]);
+    // Cards you forgot come back at the end of this session
+    setQueue(prev => quality < 3 ? [...prev.slice(1), prev[0]] : prev.slice(1));
+    setIsAnswerShown(false);
+  };
+
+  const handleDeleteCard = async (id: string) => {
+    setCards(prev => prev.filter(card => card.id !== id));
+    setQueue(prev => prev.filter(cardId => cardId !== id));
+    setIsAnswerShown(false);
+    try {
+      await deleteFlashcards([id]);
+    } catch (err) {
+      console.error("Failed to delete flashcard:", err);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!material.trim()) return;
+    setIsGenerating(true);
+    setError(null);
+    try {
+      const generated = await generateFlashcards(material, deck);
+      setDrafts(prev => [...prev, ...generated]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create flashcards.');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const addManualCard = () => {
+    if (!front.trim() || !back.trim()) return;
+    setDrafts(prev => [...prev, createFlashcard(front, back, deck)]);
+    setFront('');
+    setBack('');
+  };
+
+  const updateDraft = (id: string, update: Partial<Flashcard>) => {
+    setDrafts(prev => prev.map(card => card.id === id ? { ...card, ...update } : card));
+  };
+
+  const saveDrafts = async () => {
+    const ready = drafts
+      .filter(card => card.front.trim() && card.back.trim())
+      .map(card => ({ ...card, subject: deck }));
+    await persist(ready);
+    setNotice(`Added ${ready.length} card${ready.length !== 1 ? 's' : ''} to ${deck}.`);
+    setDrafts([]);
+    setMaterial('');
+    setStep('decks');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setError(null);
+    try {
+      const imported = parseAnkiCsv(await file.text(), defaultSubject);
+      await persist(imported);
+      setNotice(`Imported ${imported.length} card${imported.length !== 1 ? 's' : ''} from ${file.name}.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read that file.');
+    }
+  };
+
+  const handleExport = (subject?: string) => {
+    const selected = subject ? cards.filter(card => card.subject === subject) : cards;
+    const name = (subject || 'all-decks').toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadBlob(new Blob([flashcardsToAnkiCsv(selected)], { type: 'text/csv' }), `flashcards-${name}.csv`);
+  };
+
+  const inputClass = "bg-white border border-slate-200 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {step !== 'decks' && (
+              <button onClick={() => setStep('decks')} className="p-1 text-slate-400 hover:text-slate-600 rounded" title="Back to decks">
+                <ArrowLeft size={18} />
+              </button>
+            )}
+            <div>
+              <h3 className="font-semibold text-slate-800">Flashcards</h3>
+              {step !== 'decks' && <p className="text-xs text-slate-400">{deck}</p>}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {error && <p className="text-sm text-red-500 mb-3">{error}</p>}
+
+          {step === 'decks' ? (
+            <>
+              {notice && <p className="text-sm text-emerald-600 mb-3">{notice}</p>}
+              {decks.length === 0 ? (
+                <div className="flex flex-col items-center py-10 text-slate-400">
+                  <Layers size={40} className="mb-3 opacity-30" />
+                  <p className="text-sm">No flashcards yet. Add some, make them from an answer, or import an Anki CSV.</p>
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  {decks.map(d => (
+                    <div key={d.subject} className="flex items-center gap-3 border border-slate-200 rounded-lg px-3 py-2">
+                      <div className="flex-1">
+                        <p className="text-sm font-medium text-slate-800">{d.subject}</p>
+                        <p className="text-xs text-slate-400">{d.cards.length} card{d.cards.length !== 1 ? 's' : ''} · {d.dueCount} due</p>
+                      </div>
+                      <button onClick={() => handleExport(d.subject)} className="p-1.5 text-slate-400 hover:text-slate-600 rounded" title="Export deck as Anki CSV">
+                        <Download size={16} />
+                      </button>
+                      <button
+                        onClick={() => startReview(d.subject)}
+                        disabled={d.dueCount === 0}
+                        className="px-3 py-1.5 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-40"
+                      >
+                        Review
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
+          ) : step === 'review' ? (
+            currentCard ? (
+              <div className="flex flex-col items-center">
+                <p className="text-xs text-slate-400 mb-2">{queue.length} left in this session</p>
+                <div className="w-full border border-slate-200 rounded-xl p-6 text-center min-h-[10rem]">
+                  <p className="text-base font-medium text-slate-800 whitespace-pre-wrap">{currentCard.front}</p>
+                  {isAnswerShown && (
+                    <p className="mt-4 pt-4 border-t border-slate-100 text-sm text-slate-600 whitespace-pre-wrap">{currentCard.back}</p>
+                  )}
+                </div>
+                <div className="mt-4 flex gap-2">
+                  {isAnswerShown ? (
+                    REVIEW_BUTTONS.map(button => (
+                      <button
+                        key={button.quality}
+                        onClick={() => handleReview(button.quality)}
+                        className="px-4 py-2 text-sm border border-slate-200 rounded-lg text-slate-700 hover:bg-brand-50 hover:border-brand-200"
+                      >
+                        {button.label}
+                      </button>
+                    ))
+                  ) : (
+                    <button onClick={() => setIsAnswerShown(true)} className="px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700">
+                      Show Answer
+                    </button>
+                  )}
+                </div>
+                <button onClick={() => handleDeleteCard(currentCard.id)} className="mt-4 flex items-center gap-1 text-xs text-slate-400 hover:text-red-500">
+                  <Trash2 size={12} /> Delete card
+                </button>
+              </div>
+            ) : (
+              <p className="text-sm text-slate-500 text-center py-10">All done for now. Come back when more cards are due.</p>
+            )
+          ) : (
+            <div className="space-y-5">
+              <label className="block text-sm text-slate-600">
+                <span className="block mb-1 font-medium">Deck</span>
+                <select value={deck} onChange={(e) => setDeck(e.target.value)} className={`${inputClass} w-full`}>
+                  {DECK_NAMES.map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              </label>
+
+              <div>
+                <span className="block mb-1 text-sm font-medium text-slate-600">Make cards from text</span>
+                <textarea
+                  value={material}
+                  onChange={(e) => setMaterial(e.target.value)}
+                  placeholder="Paste notes or an answer, or pick a concept below"
+                  rows={4}
+                  className={`${inputClass} w-full resize-y`}
+                />
+                <div className="flex items-center justify-between mt-2 gap-2">
+                  <select
+                    value=""
+                    onChange={(e) => setMaterial(`Concept: ${e.target.value}`)}
+                    className={`${inputClass} flex-1`}
+                  >
+                    <option value="" disabled>Key concept...</option>
+                    {(getSubject(deck)?.concepts || CONCEPT_SUGGESTIONS).map(concept => <option key={concept} value={concept}>{concept}</option>)}
+                  </select>
+                  <button
+                    onClick={handleGenerate}
+                    disabled={isGenerating || !material.trim()}
+                    className="flex items-center gap-1.5 text-sm text-indigo-600 hover:bg-indigo-50 px-3 py-1.5 rounded-lg disabled:opacity-50"
+                  >
+                    {isGenerating ? <Loader2 size={14} className="animate-spin" /> : <Sparkles size={14} />}
+                    Generate with AI
+                  </button>
+                </div>
+              </div>
+
+              <div>
+                <span className="block mb-1 text-sm font-medium text-slate-600">Write a card</span>
+                <div className="flex gap-2">
+                  <input value={front} onChange={(e) => setFront(e.target.value)} placeholder="Front" className={`${inputClass} flex-1`} />
+                  <input value={back} onChange={(e) => setBack(e.target.value)} placeholder="Back" className={`${inputClass} flex-1`} />
+                  <button onClick={addManualCard} disabled={!front.trim() || !back.trim()} className="p-1.5 text-brand-600 disabled:opacity-40" title="Add card">
+                    <Plus size={18} />
+                  </button>
+                </div>
+              </div>
+
+              {drafts.length > 0 && (
+                <div>
+                  <span className="block mb-2 text-sm font-medium text-slate-600">New cards ({drafts.length})</span>
+                  <div className="space-y-2">
+                    {drafts.map(card => (
+                      <div key={card.id} className="flex items-start gap-2">
+                        <textarea value={card.front} onChange={(e) => updateDraft(card.id, { front: e.target.value })} rows={2} className={`${inputClass} flex-1 resize-y`} />
+                        <textarea value={card.back} onChange={(e) => updateDraft(card.id, { back: e.target.value })} rows={2} className={`${inputClass} flex-1 resize-y`} />
+                        <button onClick={() => setDrafts(prev => prev.filter(d => d.id !== card.id))} className="p-1 text-slate-400 hover:text-red-500">
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {step !== 'review' && (
+          <div className="p-4 border-t border-slate-100 flex justify-between">
+            {step === 'decks' ? (
+              <>
+                <div className="flex gap-2">
+                  <input ref={fileInputRef} type="file" accept=".csv,.txt,text/csv,text/plain" className="hidden" onChange={handleImport} />
+                  <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 px-3 py-2 text-sm text-slate-600 hover:bg-slate-50 rounded-lg">
+                    <Upload size={16} /> Import
+                  </button>
+                  <button onClick={() => handleExport()} disabled={cards.length === 0} className="flex items-center gap-1.5 px-3 py-2 text-sm text-slate-600 hover:bg-slate-50 rounded-lg disabled:opacity-40">
+                    <Download size={16} /> Export all
+                  </button>
+                </div>
+                <button
+                  onClick={() => { setNotice(null); setStep('add'); }}
+                  className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700"
+                >
+                  <Plus size={16} /> Add Cards
+                </button>
+              </>
+            ) : (
+              <>
+                <span />
+                <button
+                  onClick={saveDrafts}
+                  disabled={drafts.length === 0}
+                  className="px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Save {drafts.length || ''} Card{drafts.length !== 1 ? 's' : ''}
+                </button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default FlashcardsDialog;
@@ -1,24 +1,56 @@
-import React, { useState, useRef, useEffect } from 'react';
-import { Send, Image as ImageIcon, X, Loader2, Lightbulb, Zap, Mic, MicOff, Camera, PieChart, ScanText, Paperclip, FileText, FileSpreadsheet } from 'lucide-react';
+import React, { useState, useRef, useEffect, useImperativeHandle } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Send, Image as ImageIcon, X, Loader2, Mic, MicOff, Camera, ScanText, Paperclip, FileText, FileSpreadsheet, Square } from 'lucide-react';
+import * as Icons from 'lucide-react';
 import { Attachment } from '../types';
+import { readWorkbook, workbookToAttachment, isSpreadsheetFile, ParsedWorkbook } from '../services/spreadsheetImport';
+import { addDocument } from '../services/documentStore';
+import { detectMimeType, rejectionReason, MAX_ATTACHMENTS } from '../services/attachmentRules';
+import { blobToDataUrl } from '../services/fileUtils';
+import { ChatModeId, CHAT_MODE_LIST, getChatMode, parseSlashCommand, matchSlashCommands } from '../services/chatModes';
+import ScanDialog from './ScanDialog';
+
+// Lets the chat area hand over files dropped on it
+export interface InputAreaHandle {
+  addFiles: (files: File[]) => void;
+}
 
 interface InputAreaProps {
-  onSendMessage: (text: string, attachment?: Attachment) => void;
+  ref?: React.Ref<InputAreaHandle>;
+  onSendMessage: (text: string, attachments: Attachment[], mode?: ChatModeId) => void;
   isLoading: boolean;
+  onStop: () => void;
   onExtractText: (image: string) => Promise<string>;
 }
 
-const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading, onExtractText }) => {
+// A file waiting to be sent with the next question
+interface PendingFile {
+  id: string;
+  attachment: Attachment;
+  workbook?: ParsedWorkbook; // Spreadsheets keep their sheets so another can be picked
+  sheetIndex?: number | null; // null sends every sheet
+  indexing?: { page: number; pageCount: number }; // Progress while a PDF is added to the document library
+}
+
+const InputArea: React.FC<InputAreaProps> = ({ ref, onSendMessage, isLoading, onStop, onExtractText }) => {
   const [inputText, setInputText] = useState('');
-  const [selectedAttachment, setSelectedAttachment] = useState<Attachment | null>(null);
+  const [mode, setMode] = useState<ChatModeId | null>(null);
+  const [pending, setPending] = useState<PendingFile[]>([]);
   const [isRecording, setIsRecording] = useState(false);
   const [isSpeechSupported, setIsSpeechSupported] = useState(false);
-  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractingId, setExtractingId] = useState<string | null>(null);
+  const [isReadingFiles, setIsReadingFiles] = useState(false);
+  const [attachmentErrors, setAttachmentErrors] = useState<string[]>([]);
+  const [isScanOpen, setIsScanOpen] = useState(false);
   
+  // Latest pending files, for checks made from async callbacks
+  const pendingRef = useRef(pending);
+  pendingRef.current = pending;
+  // Indexing in progress, by pending file, so removing the file stops it
+  const indexingRef = useRef(new Map<string, AbortController>());
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const documentInputRef = useRef<HTMLInputElement>(null);
-  const cameraInputRef = useRef<HTMLInputElement>(null);
   const recognitionRef = useRef<any>(null);
 
   // Initialize Speech Recognition
@@ -64,65 +96,125 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading, onExtra
 
   // Ensure focus when attachment is added
   useEffect(() => {
-    if (selectedAttachment) {
+    if (pending.length > 0) {
       textareaRef.current?.focus();
     }
-  }, [selectedAttachment]);
+  }, [pending.length]);
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Tab' && commandMatches.length > 0) {
+      e.preventDefault();
+      selectCommand(commandMatches[0].id);
+      return;
+    }
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
     }
   };
 
-  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      const file = e.target.files[0];
-      const reader = new FileReader();
-      
-      reader.onloadend = () => {
-        let mimeType = file.type;
-        const ext = file.name.split('.').pop()?.toLowerCase();
-
-        // Robust MIME type detection
-        // Browsers often miss CSV, MD, or return generic octet-stream for unknown types
-        if (!mimeType || mimeType === 'application/octet-stream') {
-            switch (ext) {
-                case 'csv': mimeType = 'text/csv'; break;
-                case 'md': mimeType = 'text/markdown'; break;
-                case 'json': mimeType = 'application/json'; break;
-                case 'pdf': mimeType = 'application/pdf'; break;
-                case 'txt': mimeType = 'text/plain'; break;
-                case 'tsv': mimeType = 'text/tab-separated-values'; break;
-                case 'xml': mimeType = 'text/xml'; break;
-                case 'yml': 
-                case 'yaml': mimeType = 'text/yaml'; break;
-            }
+  // Read files into the pending list, rejecting the ones the rules do not allow.
+  // Scanned PDFs skip the library since they have no text layer to index.
+  const addFiles = async (files: File[], indexPdfs = true) => {
+    if (files.length === 0) return;
+    setIsReadingFiles(true);
+    const errors: string[] = [];
+    const added: PendingFile[] = [];
+    const pdfs: { id: string; file: File }[] = [];
+
+    for (const file of files) {
+      const mimeType = detectMimeType(file);
+      const reason = rejectionReason(file, mimeType, [...pendingRef.current, ...added].map(p => p.attachment));
+      if (reason) {
+        errors.push(reason);
+        continue;
+      }
+      try {
+        // Workbooks are converted to CSV text in the browser
+        if (isSpreadsheetFile(file.name)) {
+          const workbook = await readWorkbook(file);
+          added.push({ id: uuidv4(), attachment: workbookToAttachment(workbook, 0), workbook, sheetIndex: 0 });
+        } else {
+          const id = uuidv4();
+          added.push({ id, attachment: { data: await blobToDataUrl(file), mimeType, name: file.name } });
+          if (mimeType === 'application/pdf' && indexPdfs) pdfs.push({ id, file });
         }
+      } catch (err) {
+        console.error(`Failed to read ${file.name}:`, err);
+        errors.push(err instanceof Error ? err.message : `Could not read ${file.name}.`);
+      }
+    }
 
-        setSelectedAttachment({
-          data: reader.result as string,
-          mimeType: mimeType || 'application/octet-stream',
-          name: file.name
-        });
-      };
-      reader.readAsDataURL(file);
+    setPending(prev => [...prev, ...added]);
+    setAttachmentErrors(errors);
+    setIsReadingFiles(false);
+    pdfs.forEach(({ id, file }) => handlePdfIndex(id, file));
+  };
+
+  useImperativeHandle(ref, () => ({ addFiles }));
+
+  const updatePending = (id: string, update: (p: PendingFile) => PendingFile) => {
+    setPending(prev => prev.map(p => (p.id === id ? update(p) : p)));
+  };
+
+  // Index an attached PDF so later questions only carry its matching passages
+  const handlePdfIndex = async (id: string, file: File) => {
+    const controller = new AbortController();
+    indexingRef.current.set(id, controller);
+    updatePending(id, p => ({ ...p, indexing: { page: 0, pageCount: 0 } }));
+    try {
+      const doc = await addDocument(
+        file,
+        file.name,
+        (page, pageCount) => updatePending(id, p => ({ ...p, indexing: { page, pageCount } })),
+        controller.signal,
+      );
+      updatePending(id, p => ({ ...p, attachment: { ...p.attachment, documentId: doc.id }, indexing: undefined }));
+    } catch (err) {
+      if (controller.signal.aborted) return; // The file was removed
+      console.error("Failed to index PDF:", err);
+      setAttachmentErrors(prev => [...prev, `${err instanceof Error ? err.message : `Could not read ${file.name}.`} It will be sent as a file instead.`]);
+      updatePending(id, p => ({ ...p, indexing: undefined }));
+    } finally {
+      indexingRef.current.delete(id);
     }
+  };
+
+  const handleSheetChange = (id: string, value: string) => {
+    const index = value === 'all' ? null : Number(value);
+    updatePending(id, p => (p.workbook ? { ...p, sheetIndex: index, attachment: workbookToAttachment(p.workbook, index) } : p));
+  };
+
+  const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files || []));
     // Reset value so same file can be selected again
     e.target.value = '';
   };
 
-  const removeAttachment = () => {
-    setSelectedAttachment(null);
+  // Pasted screenshots are attached; pasted text stays text
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0 || e.clipboardData.getData('text/plain')) return;
+    e.preventDefault();
+    addFiles(files.map((file, idx) => {
+      const ext = file.type.split('/')[1] || 'png';
+      // Browsers name every pasted image "image.png"
+      return new File([file], `Pasted image ${pendingRef.current.length + idx + 1}.${ext}`, { type: file.type });
+    }));
+  };
+
+  const removeAttachment = (id: string) => {
+    indexingRef.current.get(id)?.abort();
+    setPending(prev => prev.filter(p => p.id !== id));
+    setAttachmentErrors([]);
     if (textareaRef.current) textareaRef.current.focus();
   };
 
-  const handleScan = async () => {
-    if (!selectedAttachment || !selectedAttachment.mimeType.startsWith('image') || isExtracting) return;
-    setIsExtracting(true);
+  const handleScan = async (file: PendingFile) => {
+    if (!file.attachment.mimeType.startsWith('image') || extractingId) return;
+    setExtractingId(file.id);
     try {
-      const text = await onExtractText(selectedAttachment.data);
+      const text = await onExtractText(file.attachment.data);
       if (text) {
         setInputText(prev => {
           const prefix = prev ? prev + "\n\n" : "";
@@ -132,68 +224,31 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading, onExtra
     } catch (e) {
       console.error("Failed to extract text", e);
     } finally {
-      setIsExtracting(false);
+      setExtractingId(null);
       textareaRef.current?.focus();
     }
   };
 
-  const handleExplainClick = () => {
-    const prefix = "Explain the concept of ";
-    const prefixesToRemove = ["Exam Note: ", "Generate Image: "];
-    let newText = inputText;
-    
-    // Remove conflicting prefixes
-    prefixesToRemove.forEach(p => {
-      if (newText.startsWith(p)) newText = newText.substring(p.length);
-    });
-    
-    // Toggle current prefix
-    if (newText.startsWith(prefix)) {
-      setInputText(newText.substring(prefix.length));
-    } else {
-      setInputText(prefix + newText);
-    }
-    
+
+  const toggleMode = (id: ChatModeId) => {
+    setMode(prev => prev === id ? null : id);
     textareaRef.current?.focus();
   };
 
-  const handleExamModeClick = () => {
-    const prefix = "Exam Note: ";
-    const prefixesToRemove = ["Explain the concept of ", "Generate Image: "];
-    let newText = inputText;
-    
-    // Remove conflicting prefixes
-    prefixesToRemove.forEach(p => {
-      if (newText.startsWith(p)) newText = newText.substring(p.length);
-    });
-
-    // Toggle current prefix
-    if (newText.startsWith(prefix)) {
-      setInputText(newText.substring(prefix.length));
+  // A slash command followed by a space picks its mode, e.g. "/exam "
+  const handleInputChange = (value: string) => {
+    const command = /^\/\w+\s/.test(value) ? parseSlashCommand(value) : null;
+    if (command) {
+      setMode(command.mode);
+      setInputText(command.text);
     } else {
-      setInputText(prefix + newText);
+      setInputText(value);
     }
-    
-    textareaRef.current?.focus();
   };
 
-  const handleChartClick = () => {
-    const prefix = "Generate Image: ";
-    const prefixesToRemove = ["Explain the concept of ", "Exam Note: "];
-    let newText = inputText;
-    
-    // Remove conflicting prefixes
-    prefixesToRemove.forEach(p => {
-      if (newText.startsWith(p)) newText = newText.substring(p.length);
-    });
-
-    // Toggle current prefix
-    if (newText.startsWith(prefix)) {
-      setInputText(newText.substring(prefix.length));
-    } else {
-      setInputText(prefix + newText);
-    }
-    
+  const selectCommand = (id: ChatModeId) => {
+    setMode(id);
+    setInputText('');
     textareaRef.current?.focus();
   };
 
@@ -216,8 +271,20 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading, onExtra
     }
   };
 
+  const isIndexing = pending.some(p => p.indexing);
+  const hasContent = inputText.trim().length > 0 || pending.length > 0;
+
   const handleSend = () => {
-    if ((!inputText.trim() && !selectedAttachment) || isLoading) return;
+    // Also catch a command typed without the trailing space, e.g. "/exam" on its own
+    const command = parseSlashCommand(inputText);
+    if (command) {
+      setMode(command.mode);
+      setInputText(command.text);
+      if (!command.text.trim() && pending.length === 0) return;
+    }
+    const text = command ? command.text : inputText;
+    const sendMode = command ? command.mode : mode;
+    if ((!text.trim() && pending.length === 0) || isLoading || isIndexing || isReadingFiles) return;
     
     // Stop recording if active when sending
     if (isRecording && recognitionRef.current) {
@@ -225,16 +292,19 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading, onExtra
       setIsRecording(false);
     }
 
-    onSendMessage(inputText, selectedAttachment || undefined);
+    onSendMessage(text, pending.map(p => p.attachment), sendMode || undefined);
     setInputText('');
-    setSelectedAttachment(null);
+    setMode(null);
+    setPending([]);
+    setAttachmentErrors([]);
     if (textareaRef.current) textareaRef.current.style.height = 'auto';
     // Keep focus for continuous chatting
     textareaRef.current?.focus();
   };
 
-  // Helper to determine if attachment is an image
-  const isImage = selectedAttachment?.mimeType.startsWith('image/');
+  const activeMode = getChatMode(mode);
+  const commandMatches = matchSlashCommands(inputText);
+
   
   // Helper for file icon based on type
   const getFileIcon = (mimeType: string) => {
@@ -247,86 +317,152 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading, onExtra
   return (
     <div className="w-full bg-white border-t border-slate-200 p-4">
       <div className="max-w-4xl mx-auto">
-        {/* Attachment Preview */}
-        {selectedAttachment && (
-          <div className="relative inline-block mb-3 group animate-in fade-in zoom-in duration-200">
-            {isImage ? (
-              <img 
-                src={selectedAttachment.data} 
-                alt="Preview" 
-                className="h-24 w-auto rounded-lg border border-slate-200 shadow-sm" 
-              />
-            ) : (
-              <div className="h-24 w-48 bg-slate-50 rounded-lg border border-slate-200 flex flex-col items-center justify-center p-3 text-center shadow-sm">
-                <div className="bg-white p-2 rounded-full mb-2 shadow-sm">
-                  {getFileIcon(selectedAttachment.mimeType)}
+        {isReadingFiles && (
+          <div className="flex items-center gap-2 mb-3 text-xs text-slate-500">
+            <Loader2 size={14} className="animate-spin" />
+            Reading files...
+          </div>
+        )}
+        {attachmentErrors.length > 0 && (
+          <ul className="mb-3 space-y-0.5 text-xs text-red-500">
+            {attachmentErrors.map((error, idx) => <li key={idx}>{error}</li>)}
+          </ul>
+        )}
+
+        {/* Attachment Previews */}
+        {pending.length > 0 && (
+          <div className="flex flex-wrap items-start gap-3 mb-3">
+            {pending.map(file => {
+              const { attachment, workbook } = file;
+              const isImage = attachment.mimeType.startsWith('image/');
+              return (
+                <div key={file.id} className="relative inline-block group animate-in fade-in zoom-in duration-200">
+                  {isImage ? (
+                    <img 
+                      src={attachment.data} 
+                      alt={attachment.name} 
+                      className="h-24 w-auto rounded-lg border border-slate-200 shadow-sm" 
+                    />
+                  ) : workbook ? (
+                    <div className="w-72 bg-slate-50 rounded-lg border border-slate-200 p-3 shadow-sm">
+                      <div className="flex items-center gap-2 mb-2">
+                        <FileSpreadsheet className="text-emerald-500 flex-shrink-0" size={20} />
+                        <span className="text-xs text-slate-700 font-medium truncate">{workbook.fileName}</span>
+                      </div>
+
+                      {/* Sheet Picker */}
+                      {workbook.sheets.length > 1 && (
+                        <select
+                          value={file.sheetIndex === null ? 'all' : String(file.sheetIndex)}
+                          onChange={(e) => handleSheetChange(file.id, e.target.value)}
+                          className="w-full mb-2 bg-white border border-slate-200 rounded-md px-2 py-1 text-xs text-slate-700 focus:outline-none focus:ring-2 focus:ring-brand-500/20"
+                        >
+                          {workbook.sheets.map((sheet, idx) => (
+                            <option key={sheet.name} value={idx}>{sheet.name}</option>
+                          ))}
+                          <option value="all">All sheets ({workbook.sheets.length})</option>
+                        </select>
+                      )}
+
+                      {/* Sheet Preview */}
+                      {file.sheetIndex !== null && file.sheetIndex !== undefined && (
+                        <div className="overflow-hidden rounded border border-slate-200 bg-white">
+                          <table className="w-full text-[10px] text-slate-600">
+                            <tbody>
+                              {workbook.sheets[file.sheetIndex].previewRows.map((row, r) => (
+                                <tr key={r} className={r === 0 ? 'bg-slate-100 font-semibold' : 'border-t border-slate-100'}>
+                                  {row.map((cell, c) => (
+                                    <td key={c} className="px-1.5 py-0.5 truncate max-w-[64px]">{cell}</td>
+                                  ))}
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <div className="h-24 w-48 bg-slate-50 rounded-lg border border-slate-200 flex flex-col items-center justify-center p-3 text-center shadow-sm">
+                      <div className="bg-white p-2 rounded-full mb-2 shadow-sm">
+                        {file.indexing ? <Loader2 className="text-brand-500 animate-spin" size={24} /> : getFileIcon(attachment.mimeType)}
+                      </div>
+                      <span className="text-xs text-slate-700 font-medium truncate w-full px-1">{attachment.name}</span>
+                      <span className="text-[10px] text-slate-400 uppercase font-mono mt-0.5">
+                        {file.indexing
+                          ? (file.indexing.pageCount ? `Indexing ${file.indexing.page}/${file.indexing.pageCount}` : 'Indexing...')
+                          : attachment.documentId ? 'In library' : attachment.mimeType.split('/')[1] || 'FILE'}
+                      </span>
+                    </div>
+                  )}
+                  
+                  <button
+                    onClick={() => removeAttachment(file.id)}
+                    className="absolute -top-2 -right-2 bg-slate-800 text-white rounded-full p-1 shadow-md hover:bg-red-500 transition-colors z-20"
+                    title={`Remove ${attachment.name}`}
+                  >
+                    <X size={12} />
+                  </button>
+                  
+                  {isImage && (
+                    <button
+                      onClick={() => handleScan(file)}
+                      disabled={!!extractingId}
+                      className="absolute -bottom-2 -right-2 bg-indigo-500 text-white rounded-full p-1 shadow-md hover:bg-indigo-600 transition-colors disabled:opacity-70 z-20"
+                      title="Extract text from image (OCR)"
+                    >
+                      {extractingId === file.id ? <Loader2 size={12} className="animate-spin" /> : <ScanText size={12} />}
+                    </button>
+                  )}
                 </div>
-                <span className="text-xs text-slate-700 font-medium truncate w-full px-1">{selectedAttachment.name}</span>
-                <span className="text-[10px] text-slate-400 uppercase font-mono mt-0.5">{selectedAttachment.mimeType.split('/')[1] || 'FILE'}</span>
-              </div>
-            )}
-            
-            <button
-              onClick={removeAttachment}
-              className="absolute -top-2 -right-2 bg-slate-800 text-white rounded-full p-1 shadow-md hover:bg-red-500 transition-colors z-20"
-              title="Remove attachment"
-            >
-              <X size={12} />
-            </button>
-            
-            {isImage && (
+              );
+            })}
+          </div>
+        )}
+
+        {/* Selected Mode */}
+        {activeMode && (
+          <div className="mb-2">
+            <span className={`inline-flex items-center gap-1.5 text-xs font-medium border rounded-full pl-3 pr-1.5 py-1 ${activeMode.chipClass}`}>
+              {activeMode.label}
+              <button onClick={() => setMode(null)} className="opacity-60 hover:opacity-100" title="Clear mode">
+                <X size={12} />
+              </button>
+            </span>
+          </div>
+        )}
+
+        {/* Slash Command Suggestions */}
+        {commandMatches.length > 0 && (
+          <div className="mb-2 bg-white border border-slate-200 rounded-xl shadow-sm overflow-hidden">
+            {commandMatches.map(m => (
               <button
-                onClick={handleScan}
-                disabled={isExtracting}
-                className="absolute -bottom-2 -right-2 bg-indigo-500 text-white rounded-full p-1 shadow-md hover:bg-indigo-600 transition-colors disabled:opacity-70 z-20"
-                title="Extract text from image (OCR)"
+                key={m.id}
+                onClick={() => selectCommand(m.id)}
+                className="w-full flex items-center gap-3 px-3 py-2 text-left text-sm hover:bg-slate-50 transition-colors"
               >
-                {isExtracting ? <Loader2 size={12} className="animate-spin" /> : <ScanText size={12} />}
+                <span className="font-mono text-slate-700">{m.command}</span>
+                <span className="text-slate-400">{m.description}</span>
               </button>
-            )}
+            ))}
           </div>
         )}
 
         <div className="flex items-end gap-3 bg-slate-50 p-2 rounded-2xl border border-slate-200 focus-within:ring-2 focus-within:ring-brand-200 focus-within:border-brand-400 transition-all">
           
-          {/* Explain Concept Button */}
-          <button
-            onClick={handleExplainClick}
-            className={`p-2 rounded-xl transition-colors mb-0.5 ${
-              inputText.startsWith("Explain the concept of ") 
-                ? 'bg-indigo-100 text-indigo-600' 
-                : 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50'
-            }`}
-            title="Explain Concept"
-          >
-            <Lightbulb size={20} />
-          </button>
-
-          {/* Exam Mode Button */}
-          <button
-            onClick={handleExamModeClick}
-             className={`p-2 rounded-xl transition-colors mb-0.5 ${
-              inputText.startsWith("Exam Note: ") 
-                ? 'bg-amber-100 text-amber-600' 
-                : 'text-slate-400 hover:text-amber-500 hover:bg-amber-50'
-            }`}
-            title="Exam Note (Short Answer)"
-          >
-            <Zap size={20} />
-          </button>
-
-          {/* Chart Generation Button */}
-          <button
-            onClick={handleChartClick}
-             className={`p-2 rounded-xl transition-colors mb-0.5 ${
-              inputText.startsWith("Generate Image: ") 
-                ? 'bg-emerald-100 text-emerald-600' 
-                : 'text-slate-400 hover:text-emerald-500 hover:bg-emerald-50'
-            }`}
-            title="Generate Chart/Graph Image"
-          >
-            <PieChart size={20} />
-          </button>
+          {/* Mode Buttons */}
+          {CHAT_MODE_LIST.map(m => {
+            const IconComponent = (Icons as any)[m.icon] || Icons.Sparkles;
+            return (
+              <button
+                key={m.id}
+                onClick={() => toggleMode(m.id)}
+                className={`p-2 rounded-xl transition-colors mb-0.5 ${mode === m.id ? m.activeClass : m.idleClass}`}
+                title={`${m.label} (${m.command})`}
+              >
+                <IconComponent size={20} />
+              </button>
+            );
+          })}
 
           {/* Voice Input Button */}
           {isSpeechSupported && (
@@ -347,7 +483,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading, onExtra
           <button
             onClick={() => documentInputRef.current?.click()}
             className="p-2 text-slate-400 hover:text-brand-600 hover:bg-brand-50 rounded-xl transition-colors mb-0.5"
-            title="Attach File (PDF, CSV, TXT)"
+            title="Attach files (PDF, CSV, TXT, Excel)"
           >
             <Paperclip size={20} />
           </button>
@@ -355,32 +491,25 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading, onExtra
             type="file"
             ref={documentInputRef}
             onChange={handleFileSelect}
-            accept=".pdf,.csv,.txt,.json,.md"
+            accept=".pdf,.csv,.tsv,.txt,.json,.md,.xlsx,.xls,.ods"
+            multiple
             className="hidden"
           />
 
           {/* Camera Button */}
           <button
-            onClick={() => cameraInputRef.current?.click()}
+            onClick={() => setIsScanOpen(true)}
             className="p-2 text-slate-400 hover:text-brand-600 hover:bg-brand-50 rounded-xl transition-colors mb-0.5"
-            title="Take photo of problem"
+            title="Scan pages with the camera"
           >
             <Camera size={20} />
           </button>
-          <input
-            type="file"
-            ref={cameraInputRef}
-            onChange={handleFileSelect}
-            accept="image/*"
-            capture="environment"
-            className="hidden"
-          />
 
           {/* Image Button */}
           <button
             onClick={() => fileInputRef.current?.click()}
             className="p-2 text-slate-400 hover:text-brand-600 hover:bg-brand-50 rounded-xl transition-colors mb-0.5"
-            title="Upload image"
+            title="Upload images"
           >
             <ImageIcon size={20} />
           </button>
@@ -389,6 +518,7 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading, onExtra
             ref={fileInputRef}
             onChange={handleFileSelect}
             accept="image/*"
+            multiple
             className="hidden"
           />
 
@@ -396,30 +526,49 @@ const InputArea: React.FC<InputAreaProps> = ({ onSendMessage, isLoading, onExtra
           <textarea
             ref={textareaRef}
             value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
+            onChange={(e) => handleInputChange(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={isRecording ? "Listening..." : "Type your question..."}
+            onPaste={handlePaste}
+            placeholder={isRecording ? "Listening..." : activeMode ? `${activeMode.label}: type your question...` : "Type your question, or / for modes..."}
             className={`flex-1 max-h-[150px] bg-transparent border-none focus:ring-0 resize-none py-3 px-1 text-slate-700 placeholder:text-slate-400 text-sm md:text-base leading-relaxed ${isRecording ? 'placeholder:text-red-400' : ''}`}
             rows={1}
           />
 
-          {/* Send Button */}
-          <button
-            onClick={handleSend}
-            disabled={(!inputText.trim() && !selectedAttachment) || isLoading}
-            className={`p-2 rounded-xl mb-0.5 transition-all flex items-center justify-center
-              ${(!inputText.trim() && !selectedAttachment) || isLoading
-                ? 'bg-slate-200 text-slate-400 cursor-not-allowed'
-                : 'bg-brand-600 text-white hover:bg-brand-700 shadow-md hover:shadow-lg'
-              }`}
-          >
-            {isLoading ? <Loader2 size={20} className="animate-spin" /> : <Send size={20} />}
-          </button>
+          {/* Send / Stop Button */}
+          {isLoading ? (
+            <button
+              onClick={onStop}
+              className="p-2 rounded-xl mb-0.5 transition-all flex items-center justify-center bg-slate-800 text-white hover:bg-red-500 shadow-md"
+              title="Stop generating"
+            >
+              <Square size={20} fill="currentColor" />
+            </button>
+          ) : (
+            <button
+              onClick={handleSend}
+              disabled={!hasContent || isIndexing || isReadingFiles}
+              className={`p-2 rounded-xl mb-0.5 transition-all flex items-center justify-center
+                ${!hasContent || isIndexing || isReadingFiles
+                  ? 'bg-slate-200 text-slate-400 cursor-not-allowed'
+                  : 'bg-brand-600 text-white hover:bg-brand-700 shadow-md hover:shadow-lg'
+                }`}
+            >
+              <Send size={20} />
+            </button>
+          )}
         </div>
         <div className="text-center mt-2">
            <p className="text-[10px] text-slate-400">AI can make mistakes. Please verify important financial data.</p>
         </div>
       </div>
+
+      {isScanOpen && (
+        <ScanDialog
+          slotsLeft={MAX_ATTACHMENTS - pending.length}
+          onAttach={(files) => addFiles(files, false)}
+          onClose={() => setIsScanOpen(false)}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,68 @@
+import React from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import { Conversation, Message } from '../types';
+import ChartSvg from './ChartSvg';
+import { chartToMarkdownTable } from '../services/chartSpec';
+import { prepareMath, REMARK_MATH_OPTIONS } from '../services/mathText';
+import { citationsToText, sourcesToMarkdown } from '../services/documentLibrary';
+
+interface PrintableConversationProps {
+  conversation: Conversation;
+  messages: Message[];
+  attachmentTexts: Record<string, string>; // Decoded contents of text attachments, by `${message id}:${index}`
+}
+
+// Static print layout used for the PDF export; rendered to HTML, not mounted in the app
+const PrintableConversation: React.FC<PrintableConversationProps> = ({ conversation, messages, attachmentTexts }) => (
+  <article>
+    <header className="doc-header">
+      <h1>{conversation.title}</h1>
+      <p className="meta">
+        {conversation.selectedSubject && <><strong>Subject:</strong> {conversation.selectedSubject} · </>}
+        <strong>Exported:</strong> {new Date().toLocaleString()}
+      </p>
+    </header>
+
+    {messages.map((msg) => {
+      return (
+        <section key={msg.id} className={`message ${msg.role}`}>
+          <h2>
+            {msg.role === 'user' ? 'Question' : 'AcctSolver'}
+            <span className="time">{msg.timestamp.toLocaleString()}</span>
+          </h2>
+
+          {msg.attachments?.map((attachment, idx) => (attachment.mimeType.startsWith('image/') ? (
+            <img key={idx} src={attachment.data} alt={attachment.name} />
+          ) : (
+            <div key={idx} className="attachment">
+              <p><strong>Attached file:</strong> {attachment.name} ({attachment.mimeType})</p>
+              {attachmentTexts[`${msg.id}:${idx}`] && <pre>{attachmentTexts[`${msg.id}:${idx}`]}</pre>}
+            </div>
+          )))}
+
+          <ReactMarkdown remarkPlugins={[remarkGfm, [remarkMath, REMARK_MATH_OPTIONS]]} rehypePlugins={[rehypeKatex]}>
+            {prepareMath(citationsToText(msg.text, msg.sources || []))}
+          </ReactMarkdown>
+
+          {msg.chart && (
+            <>
+              <ChartSvg spec={msg.chart} />
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{chartToMarkdownTable(msg.chart)}</ReactMarkdown>
+            </>
+          )}
+
+          {msg.sources && msg.sources.length > 0 && (
+            <ReactMarkdown>{sourcesToMarkdown(msg.sources)}</ReactMarkdown>
+          )}
+
+          {msg.image && <img src={msg.image} alt="Generated visual" />}
+        </section>
+      );
+    })}
+  </article>
+);
+
+export default PrintableConversation;
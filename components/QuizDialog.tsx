@@ -0,0 +1,324 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { SUBJECTS } from '../constants';
+import {
+  QuizAttempt,
+  QuizDifficulty,
+  QuizQuestion,
+  QuizResult,
+  QUIZ_DIFFICULTIES,
+  gradeObjective,
+  formatCorrectAnswer,
+  attemptPercent,
+  summarizeAttempts,
+} from '../services/quiz';
+import { saveQuizAttempt, loadQuizAttempts } from '../services/quizStore';
+import { generateQuiz, gradeNumericalWorking } from '../services/aiService';
+import { X, Loader2, CheckCircle2, XCircle, MinusCircle, History, RotateCcw } from 'lucide-react';
+
+interface QuizDialogProps {
+  defaultSubject: string | null;
+  onClose: () => void;
+}
+
+type Step = 'setup' | 'answer' | 'results' | 'history';
+
+interface Answer {
+  response: string;
+  working: string;
+}
+
+const QUESTION_COUNTS = [5, 10, 15];
+
+const ResultIcon: React.FC<{ score: number }> = ({ score }) =>
+  score >= 1 ? <CheckCircle2 size={16} className="text-emerald-600" />
+    : score > 0 ? <MinusCircle size={16} className="text-amber-500" />
+      : <XCircle size={16} className="text-red-500" />;
+
+// Practice quiz: generate questions for a subject, answer them, then grade and save the attempt
+const QuizDialog: React.FC<QuizDialogProps> = ({ defaultSubject, onClose }) => {
+  const [step, setStep] = useState<Step>('setup');
+  const [subject, setSubject] = useState(defaultSubject || SUBJECTS[0].name);
+  const [difficulty, setDifficulty] = useState<QuizDifficulty>('medium');
+  const [count, setCount] = useState(QUESTION_COUNTS[0]);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([]);
+  const [answers, setAnswers] = useState<Record<string, Answer>>({});
+  const [results, setResults] = useState<QuizResult[]>([]);
+  const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadQuizAttempts()
+      .then(setAttempts)
+      .catch(err => console.error("Failed to load quiz history:", err));
+  }, []);
+
+  const stats = useMemo(() => summarizeAttempts(attempts), [attempts]);
+  const score = results.reduce((sum, result) => sum + result.score, 0);
+  const unanswered = questions.filter(q => !answers[q.id]?.response.trim()).length;
+
+  const setAnswer = (id: string, update: Partial<Answer>) => {
+    setAnswers(prev => ({ ...prev, [id]: { response: '', working: '', ...prev[id], ...update } }));
+  };
+
+  const handleStart = async () => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      setQuestions(await generateQuiz(subject, difficulty, count));
+      setAnswers({});
+      setResults([]);
+      setStep('answer');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the quiz.');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setIsBusy(true);
+    const graded = await Promise.all(questions.map(async (question): Promise<QuizResult> => {
+      const { response = '', working = '' } = answers[question.id] || {};
+      const local = gradeObjective(question, response);
+      // Working is marked by the model; without it only the final figure counts
+      if (question.type !== 'numerical' || !working.trim()) return local;
+      const marked = await gradeNumericalWorking(question, working, response);
+      return marked ? { ...local, working, score: marked.score, feedback: marked.feedback } : { ...local, working };
+    }));
+
+    const attempt: QuizAttempt = {
+      id: uuidv4(),
+      subject,
+      difficulty,
+      questions,
+      results: graded,
+      score: graded.reduce((sum, result) => sum + result.score, 0),
+      createdAt: new Date(),
+    };
+    try {
+      await saveQuizAttempt(attempt);
+    } catch (err) {
+      console.error("Failed to save quiz attempt:", err);
+    }
+
+    setAttempts(prev => [attempt, ...prev]);
+    setResults(graded);
+    setStep('results');
+    setIsBusy(false);
+  };
+
+  const inputClass = "bg-white border border-slate-200 rounded-md px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-2xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <div>
+            <h3 className="font-semibold text-slate-800">Practice Quiz</h3>
+            {step !== 'setup' && step !== 'history' && (
+              <p className="text-xs text-slate-400">{subject} · {difficulty}</p>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            {step === 'setup' && (
+              <button
+                onClick={() => setStep('history')}
+                className="flex items-center gap-1.5 text-sm text-slate-500 hover:bg-slate-50 px-3 py-1.5 rounded-lg"
+              >
+                <History size={14} /> Score history
+              </button>
+            )}
+            <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+              <X size={20} />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 overflow-y-auto flex-1">
+          {step === 'setup' ? (
+            <div className="space-y-4">
+              <label className="block text-sm text-slate-600">
+                <span className="block mb-1 font-medium">Subject</span>
+                <select value={subject} onChange={(e) => setSubject(e.target.value)} className={`${inputClass} w-full`}>
+                  {SUBJECTS.map(sub => <option key={sub.id} value={sub.name}>{sub.name}</option>)}
+                </select>
+              </label>
+              <div className="grid grid-cols-2 gap-4">
+                <label className="text-sm text-slate-600">
+                  <span className="block mb-1 font-medium">Difficulty</span>
+                  <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as QuizDifficulty)} className={`${inputClass} w-full capitalize`}>
+                    {QUIZ_DIFFICULTIES.map(level => <option key={level} value={level}>{level}</option>)}
+                  </select>
+                </label>
+                <label className="text-sm text-slate-600">
+                  <span className="block mb-1 font-medium">Questions</span>
+                  <select value={count} onChange={(e) => setCount(Number(e.target.value))} className={`${inputClass} w-full`}>
+                    {QUESTION_COUNTS.map(n => <option key={n} value={n}>{n}</option>)}
+                  </select>
+                </label>
+              </div>
+              <p className="text-xs text-slate-400">
+                Multiple-choice and true/false answers are marked instantly. For numerical questions, show your working to get partial credit.
+              </p>
+              {error && <p className="text-sm text-red-500">{error}</p>}
+            </div>
+          ) : step === 'answer' ? (
+            <ol className="space-y-5">
+              {questions.map((question, idx) => {
+                const answer = answers[question.id] || { response: '', working: '' };
+                return (
+                  <li key={question.id}>
+                    <p className="text-sm font-medium text-slate-800 mb-2">{idx + 1}. {question.prompt}</p>
+                    {question.type === 'mcq' ? (
+                      <div className="space-y-1">
+                        {question.options.map((option, optionIdx) => (
+                          <label key={optionIdx} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                            <input
+                              type="radio"
+                              name={question.id}
+                              checked={answer.response === String(optionIdx)}
+                              onChange={() => setAnswer(question.id, { response: String(optionIdx) })}
+                            />
+                            {option}
+                          </label>
+                        ))}
+                      </div>
+                    ) : question.type === 'true-false' ? (
+                      <div className="flex gap-4">
+                        {['true', 'false'].map(value => (
+                          <label key={value} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer capitalize">
+                            <input
+                              type="radio"
+                              name={question.id}
+                              checked={answer.response === value}
+                              onChange={() => setAnswer(question.id, { response: value })}
+                            />
+                            {value}
+                          </label>
+                        ))}
+                      </div>
+                    ) : (
+                      <div className="space-y-2">
+                        <textarea
+                          value={answer.working}
+                          onChange={(e) => setAnswer(question.id, { working: e.target.value })}
+                          placeholder="Working (optional)"
+                          rows={3}
+                          className={`${inputClass} w-full resize-y`}
+                        />
+                        <input
+                          value={answer.response}
+                          onChange={(e) => setAnswer(question.id, { response: e.target.value })}
+                          placeholder={`Final answer${question.unit ? ` (${question.unit})` : ''}`}
+                          className={`${inputClass} w-60`}
+                        />
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ol>
+          ) : step === 'results' ? (
+            <>
+              <div className="mb-4 text-sm font-medium text-slate-700">
+                Score: {Math.round(score * 10) / 10} / {questions.length} ({questions.length ? Math.round((score / questions.length) * 100) : 0}%)
+              </div>
+              <ol className="space-y-4">
+                {questions.map((question, idx) => {
+                  const result = results.find(r => r.questionId === question.id);
+                  if (!result) return null;
+                  return (
+                    <li key={question.id} className="border border-slate-200 rounded-lg p-3">
+                      <div className="flex items-start gap-2">
+                        <ResultIcon score={result.score} />
+                        <p className="flex-1 text-sm font-medium text-slate-800">{idx + 1}. {question.prompt}</p>
+                      </div>
+                      <div className="mt-2 pl-6 space-y-1 text-sm text-slate-600">
+                        <p>Correct answer: <span className="font-medium">{formatCorrectAnswer(question)}</span></p>
+                        {result.feedback && <p className="text-slate-500">{result.feedback}</p>}
+                        {question.explanation && <p className="text-xs text-slate-400 whitespace-pre-wrap">{question.explanation}</p>}
+                      </div>
+                    </li>
+                  );
+                })}
+              </ol>
+            </>
+          ) : stats.length === 0 ? (
+            <p className="text-sm text-slate-400">No quizzes taken yet.</p>
+          ) : (
+            <div className="space-y-4">
+              {stats.map(stat => (
+                <div key={stat.subject} className="border border-slate-200 rounded-lg p-3">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium text-slate-800">{stat.subject}</span>
+                    <span className="text-xs text-slate-400">
+                      {stat.attempts} attempt{stat.attempts !== 1 ? 's' : ''} · average {stat.averagePercent}% · best {stat.bestPercent}%
+                    </span>
+                  </div>
+                  {/* Recent scores, oldest on the left */}
+                  <div className="flex items-end gap-1 h-12">
+                    {stat.recentPercents.map((percent, idx) => (
+                      <div
+                        key={idx}
+                        className="w-5 bg-brand-500 rounded-t"
+                        style={{ height: `${Math.max(percent, 4)}%` }}
+                        title={`${percent}%`}
+                      />
+                    ))}
+                  </div>
+                </div>
+              ))}
+              <div>
+                <h4 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-2">Recent attempts</h4>
+                {attempts.slice(0, 10).map(attempt => (
+                  <div key={attempt.id} className="flex items-center justify-between text-sm text-slate-600 py-1">
+                    <span>{attempt.subject} <span className="text-slate-400 capitalize">· {attempt.difficulty}</span></span>
+                    <span className="text-slate-400">
+                      {attempt.createdAt.toLocaleDateString()} · <span className="text-slate-700 font-medium">{attemptPercent(attempt)}%</span>
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          {step === 'setup' && (
+            <button
+              onClick={handleStart}
+              disabled={isBusy}
+              className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+            >
+              {isBusy && <Loader2 size={16} className="animate-spin" />}
+              {isBusy ? 'Creating quiz...' : 'Start Quiz'}
+            </button>
+          )}
+          {step === 'answer' && (
+            <button
+              onClick={handleSubmit}
+              disabled={isBusy}
+              className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+              title={unanswered > 0 ? `${unanswered} question(s) unanswered` : undefined}
+            >
+              {isBusy && <Loader2 size={16} className="animate-spin" />}
+              {isBusy ? 'Grading...' : 'Submit Answers'}
+            </button>
+          )}
+          {(step === 'results' || step === 'history') && (
+            <button
+              onClick={() => setStep('setup')}
+              className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700"
+            >
+              <RotateCcw size={16} /> New Quiz
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuizDialog;
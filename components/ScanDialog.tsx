@@ -0,0 +1,372 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { X, Camera, Loader2, ChevronLeft, ChevronRight, Trash2, ScanLine, Maximize, Images, FileText } from 'lucide-react';
+import {
+  PageCorners, Point, ScanFilter, SCAN_FILTERS, FULL_FRAME,
+  loadPhoto, detectPageCorners, renderScan, canvasToJpeg,
+} from '../services/pageScan';
+import { buildImagePdf } from '../services/imagePdf';
+import { MAX_FILE_BYTES, formatFileSize } from '../services/attachmentRules';
+
+interface ScanDialogProps {
+  slotsLeft: number; // Files the question can still take; a larger scan must go as one PDF
+  onAttach: (files: File[]) => void;
+  onClose: () => void;
+}
+
+interface ScanPage {
+  id: string;
+  photo: HTMLCanvasElement;
+  photoUrl: string; // Object URL of the upright photo, for the crop editor
+  corners: PageCorners;
+  filter: ScanFilter;
+  previewUrl: string | null; // Object URL of the processed thumbnail
+}
+
+type ScanOutput = 'images' | 'pdf';
+
+// Pages kept in one scan; each holds a full-size photo in memory
+const MAX_SCAN_PAGES = 20;
+const PREVIEW_SIDE = 480;
+
+const CORNER_LABELS = ['top-left', 'top-right', 'bottom-right', 'bottom-left'];
+
+// "Scan 2026-03-14 09.30" in local time
+const scanName = () => {
+  const now = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `Scan ${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ${pad(now.getHours())}.${pad(now.getMinutes())}`;
+};
+
+// Photograph pages, crop each to its edges, clean it up and attach the set as images or one PDF
+const ScanDialog: React.FC<ScanDialogProps> = ({ slotsLeft, onAttach, onClose }) => {
+  const [pages, setPages] = useState<ScanPage[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [output, setOutput] = useState<ScanOutput>('images');
+  const [isLoadingPhotos, setIsLoadingPhotos] = useState(false);
+  const [isAttaching, setIsAttaching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dragCorner, setDragCorner] = useState<number | null>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+  const editorRef = useRef<HTMLDivElement>(null);
+
+  // Latest pages, so object URLs can be released on close
+  const pagesRef = useRef(pages);
+  pagesRef.current = pages;
+  useEffect(() => () => {
+    pagesRef.current.forEach(page => {
+      URL.revokeObjectURL(page.photoUrl);
+      if (page.previewUrl) URL.revokeObjectURL(page.previewUrl);
+    });
+  }, []);
+
+  const selected = pages.find(page => page.id === selectedId) || null;
+  const selectedIndex = selected ? pages.indexOf(selected) : -1;
+  const canSendImages = pages.length <= slotsLeft;
+  const effectiveOutput: ScanOutput = canSendImages ? output : 'pdf';
+
+  const updatePage = (id: string, update: (page: ScanPage) => ScanPage) => {
+    setPages(prev => prev.map(page => (page.id === id ? update(page) : page)));
+  };
+
+  // Redraw a page's thumbnail after its crop or filter changed
+  const refreshPreview = async (page: ScanPage) => {
+    try {
+      const blob = await canvasToJpeg(renderScan(page.photo, page.corners, page.filter, PREVIEW_SIDE));
+      const previewUrl = URL.createObjectURL(blob);
+      updatePage(page.id, p => {
+        if (p.previewUrl) URL.revokeObjectURL(p.previewUrl);
+        return { ...p, previewUrl };
+      });
+    } catch (err) {
+      console.error("Failed to render scan preview:", err);
+    }
+  };
+
+  const changePage = (page: ScanPage, changes: Partial<Pick<ScanPage, 'corners' | 'filter'>>) => {
+    const next = { ...page, ...changes };
+    updatePage(page.id, p => ({ ...p, ...changes }));
+    refreshPreview(next);
+  };
+
+  const handleCapture = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    setError(null);
+    const room = MAX_SCAN_PAGES - pagesRef.current.length;
+    if (files.length > room) {
+      setError(`A scan can have at most ${MAX_SCAN_PAGES} pages.`);
+    }
+
+    setIsLoadingPhotos(true);
+    // New pages start with the filter of the page being edited
+    const filter = selected?.filter || 'enhanced';
+    for (const file of files.slice(0, Math.max(0, room))) {
+      try {
+        const photo = await loadPhoto(file);
+        const photoUrl = URL.createObjectURL(await canvasToJpeg(photo));
+        const page: ScanPage = { id: uuidv4(), photo, photoUrl, corners: detectPageCorners(photo), filter, previewUrl: null };
+        setPages(prev => [...prev, page]);
+        setSelectedId(page.id);
+        refreshPreview(page);
+      } catch (err) {
+        console.error(`Failed to read ${file.name}:`, err);
+        setError(`Could not read ${file.name} as a photo.`);
+      }
+    }
+    setIsLoadingPhotos(false);
+  };
+
+  const movePage = (index: number, offset: number) => {
+    setPages(prev => {
+      const next = [...prev];
+      const [page] = next.splice(index, 1);
+      next.splice(index + offset, 0, page);
+      return next;
+    });
+  };
+
+  const removePage = (page: ScanPage) => {
+    URL.revokeObjectURL(page.photoUrl);
+    if (page.previewUrl) URL.revokeObjectURL(page.previewUrl);
+    const remaining = pages.filter(p => p.id !== page.id);
+    setPages(remaining);
+    if (selectedId === page.id) setSelectedId(remaining[Math.min(selectedIndex, remaining.length - 1)]?.id || null);
+  };
+
+  // Corner handle position under the pointer, as fractions of the photo
+  const pointerPosition = (e: React.PointerEvent): Point => {
+    const rect = editorRef.current!.getBoundingClientRect();
+    return {
+      x: Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (e.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const handleCornerMove = (e: React.PointerEvent) => {
+    if (dragCorner === null || !selected) return;
+    const point = pointerPosition(e);
+    updatePage(selected.id, p => ({ ...p, corners: p.corners.map((c, i) => (i === dragCorner ? point : c)) as PageCorners }));
+  };
+
+  const handleCornerRelease = () => {
+    if (dragCorner === null || !selected) return;
+    setDragCorner(null);
+    refreshPreview(selected);
+  };
+
+  const handleAttach = async () => {
+    if (pages.length === 0) return;
+    setIsAttaching(true);
+    setError(null);
+    try {
+      const name = scanName();
+      const rendered = [];
+      for (const page of pages) {
+        const canvas = renderScan(page.photo, page.corners, page.filter);
+        rendered.push({ blob: await canvasToJpeg(canvas), width: canvas.width, height: canvas.height });
+      }
+
+      let files: File[];
+      if (effectiveOutput === 'pdf') {
+        const pdf = buildImagePdf(await Promise.all(rendered.map(async ({ blob, width, height }) => ({
+          jpeg: new Uint8Array(await blob.arrayBuffer()),
+          width,
+          height,
+        }))));
+        files = [new File([pdf], `${name}.pdf`, { type: 'application/pdf' })];
+      } else {
+        files = rendered.map(({ blob }, idx) => new File([blob], `${name} page ${idx + 1}.jpg`, { type: 'image/jpeg' }));
+      }
+
+      // Checked here so the scan is not lost to a rejection after the dialog closes
+      const oversized = files.find(file => file.size > MAX_FILE_BYTES);
+      if (oversized) {
+        setError(`${oversized.name} is ${formatFileSize(oversized.size)}; each file can be at most ${formatFileSize(MAX_FILE_BYTES)}. Remove some pages or attach them in two scans.`);
+        setIsAttaching(false);
+        return;
+      }
+      onAttach(files);
+      onClose();
+    } catch (err) {
+      console.error("Failed to process scan:", err);
+      setError(err instanceof Error ? err.message : 'Could not process the scanned pages.');
+      setIsAttaching(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-3xl max-h-[90vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-800">Scan Pages</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <input ref={cameraInputRef} type="file" accept="image/*" capture="environment" multiple className="hidden" onChange={handleCapture} />
+
+        <div className="p-4 space-y-4 overflow-y-auto">
+          {!selected ? (
+            <div className="flex flex-col items-center py-10 text-slate-400">
+              <ScanLine size={36} className="mb-2 opacity-40" />
+              <p className="text-sm mb-4">Photograph each page flat and well lit. The edges are found for you and can be adjusted.</p>
+              <button
+                onClick={() => cameraInputRef.current?.click()}
+                disabled={isLoadingPhotos}
+                className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+              >
+                {isLoadingPhotos ? <Loader2 size={16} className="animate-spin" /> : <Camera size={16} />}
+                Take photo
+              </button>
+            </div>
+          ) : (
+            <>
+              {/* Crop Editor */}
+              <div className="flex justify-center bg-slate-900 rounded-lg p-3">
+                <div
+                  ref={editorRef}
+                  className="relative inline-block touch-none select-none"
+                  onPointerMove={handleCornerMove}
+                  onPointerUp={handleCornerRelease}
+                  onPointerCancel={handleCornerRelease}
+                >
+                  <img src={selected.photoUrl} alt={`Page ${selectedIndex + 1}`} className="block max-h-[45vh] w-auto" draggable={false} />
+                  <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                    <polygon
+                      points={selected.corners.map(c => `${c.x},${c.y}`).join(' ')}
+                      className="fill-brand-400/20 stroke-brand-400"
+                      strokeWidth={2}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  </svg>
+                  {selected.corners.map((corner, idx) => (
+                    <div
+                      key={idx}
+                      onPointerDown={(e) => {
+                        e.currentTarget.setPointerCapture(e.pointerId);
+                        setDragCorner(idx);
+                      }}
+                      className="absolute w-5 h-5 -ml-2.5 -mt-2.5 rounded-full bg-white border-2 border-brand-500 shadow cursor-move"
+                      style={{ left: `${corner.x * 100}%`, top: `${corner.y * 100}%` }}
+                      title={`Drag the ${CORNER_LABELS[idx]} corner`}
+                    />
+                  ))}
+                </div>
+              </div>
+
+              {/* Page Tools */}
+              <div className="flex flex-wrap items-center gap-2">
+                <div className="flex rounded-lg border border-slate-200 overflow-hidden text-xs">
+                  {SCAN_FILTERS.map(f => (
+                    <button
+                      key={f.id}
+                      onClick={() => changePage(selected, { filter: f.id })}
+                      className={`px-3 py-1.5 ${selected.filter === f.id ? 'bg-brand-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                    >
+                      {f.label}
+                    </button>
+                  ))}
+                </div>
+                <button
+                  onClick={() => changePage(selected, { corners: detectPageCorners(selected.photo) })}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50"
+                  title="Find the page edges again"
+                >
+                  <ScanLine size={14} />
+                  Detect edges
+                </button>
+                <button
+                  onClick={() => changePage(selected, { corners: FULL_FRAME })}
+                  className="flex items-center gap-1.5 px-3 py-1.5 text-xs text-slate-600 border border-slate-200 rounded-lg hover:bg-slate-50"
+                  title="Keep the whole photo"
+                >
+                  <Maximize size={14} />
+                  Full photo
+                </button>
+              </div>
+            </>
+          )}
+
+          {/* Page Strip */}
+          {pages.length > 0 && (
+            <div className="flex gap-3 overflow-x-auto pb-1">
+              {pages.map((page, idx) => (
+                <div key={page.id} className="flex-shrink-0 flex flex-col items-center gap-1">
+                  <button
+                    onClick={() => setSelectedId(page.id)}
+                    className={`h-28 w-20 rounded-lg border-2 overflow-hidden bg-slate-50 flex items-center justify-center ${
+                      page.id === selectedId ? 'border-brand-500' : 'border-slate-200 hover:border-slate-300'
+                    }`}
+                    title={`Edit page ${idx + 1}`}
+                  >
+                    {page.previewUrl
+                      ? <img src={page.previewUrl} alt={`Page ${idx + 1}`} className="max-h-full max-w-full object-contain" />
+                      : <Loader2 size={16} className="animate-spin text-slate-400" />}
+                  </button>
+                  <div className="flex items-center text-slate-400">
+                    <button onClick={() => movePage(idx, -1)} disabled={idx === 0} className="p-0.5 hover:text-slate-600 disabled:opacity-30" title="Move earlier">
+                      <ChevronLeft size={14} />
+                    </button>
+                    <span className="text-[11px] tabular-nums w-4 text-center">{idx + 1}</span>
+                    <button onClick={() => movePage(idx, 1)} disabled={idx === pages.length - 1} className="p-0.5 hover:text-slate-600 disabled:opacity-30" title="Move later">
+                      <ChevronRight size={14} />
+                    </button>
+                    <button onClick={() => removePage(page)} className="p-0.5 hover:text-red-500" title="Remove page">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+              <button
+                onClick={() => cameraInputRef.current?.click()}
+                disabled={isLoadingPhotos || pages.length >= MAX_SCAN_PAGES}
+                className="flex-shrink-0 h-28 w-20 rounded-lg border-2 border-dashed border-slate-300 text-slate-400 hover:text-brand-600 hover:border-brand-400 flex flex-col items-center justify-center gap-1 text-xs disabled:opacity-50"
+              >
+                {isLoadingPhotos ? <Loader2 size={18} className="animate-spin" /> : <Camera size={18} />}
+                Add page
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </div>
+
+        {pages.length > 0 && (
+          <div className="p-4 border-t border-slate-100 flex flex-wrap items-center justify-between gap-3">
+            <div className="flex rounded-lg border border-slate-200 overflow-hidden text-xs">
+              <button
+                onClick={() => setOutput('images')}
+                disabled={!canSendImages}
+                className={`flex items-center gap-1.5 px-3 py-1.5 disabled:opacity-40 ${effectiveOutput === 'images' ? 'bg-brand-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+                title={canSendImages ? undefined : `A question can take ${slotsLeft} more ${slotsLeft === 1 ? 'file' : 'files'}, so these pages go as one PDF`}
+              >
+                <Images size={14} />
+                Separate images
+              </button>
+              <button
+                onClick={() => setOutput('pdf')}
+                className={`flex items-center gap-1.5 px-3 py-1.5 ${effectiveOutput === 'pdf' ? 'bg-brand-600 text-white' : 'text-slate-600 hover:bg-slate-50'}`}
+              >
+                <FileText size={14} />
+                One PDF
+              </button>
+            </div>
+            <button
+              onClick={handleAttach}
+              disabled={isAttaching || isLoadingPhotos || slotsLeft < 1}
+              title={slotsLeft < 1 ? 'This question already has the most files it can take' : undefined}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+            >
+              {isAttaching && <Loader2 size={16} className="animate-spin" />}
+              Attach {pages.length} {pages.length === 1 ? 'page' : 'pages'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ScanDialog;
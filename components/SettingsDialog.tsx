@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import {
+  LocaleSettings,
+  CurrencyCode,
+  NumberGrouping,
+  Jurisdiction,
+  CURRENCIES,
+  GROUPING_LABELS,
+  JURISDICTIONS,
+  formatMoney,
+} from '../services/localeSettings';
+import { X } from 'lucide-react';
+
+interface SettingsDialogProps {
+  settings: LocaleSettings;
+  onClose: () => void;
+  onSave: (settings: LocaleSettings) => void;
+}
+
+const SettingsDialog: React.FC<SettingsDialogProps> = ({ settings, onClose, onSave }) => {
+  const [draft, setDraft] = useState<LocaleSettings>(settings);
+
+  // Picking a country also picks its usual currency and digit grouping; both can still be changed
+  const handleJurisdictionChange = (jurisdiction: Jurisdiction) => {
+    const info = JURISDICTIONS[jurisdiction];
+    setDraft({ jurisdiction, currency: info.currency, grouping: info.grouping });
+  };
+
+  const selectClass = "w-full bg-white border border-slate-200 rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-brand-500/20 focus:border-brand-500";
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-md" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-semibold text-slate-800">Currency & Region</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <label className="block text-sm text-slate-600">
+            <span className="block mb-1 font-medium">Country / tax rules</span>
+            <select value={draft.jurisdiction} onChange={(e) => handleJurisdictionChange(e.target.value as Jurisdiction)} className={selectClass}>
+              {(Object.keys(JURISDICTIONS) as Jurisdiction[]).map(id => <option key={id} value={id}>{JURISDICTIONS[id].label}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm text-slate-600">
+            <span className="block mb-1 font-medium">Currency</span>
+            <select value={draft.currency} onChange={(e) => setDraft(prev => ({ ...prev, currency: e.target.value as CurrencyCode }))} className={selectClass}>
+              {(Object.keys(CURRENCIES) as CurrencyCode[]).map(code => <option key={code} value={code}>{CURRENCIES[code].label}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm text-slate-600">
+            <span className="block mb-1 font-medium">Number grouping</span>
+            <select value={draft.grouping} onChange={(e) => setDraft(prev => ({ ...prev, grouping: e.target.value as NumberGrouping }))} className={selectClass}>
+              {(Object.keys(GROUPING_LABELS) as NumberGrouping[]).map(id => <option key={id} value={id}>{GROUPING_LABELS[id]}</option>)}
+            </select>
+          </label>
+          <p className="text-xs text-slate-400">
+            Example: {formatMoney(1234567.5, draft)}. Applies to new answers, tables and calculator figures.
+          </p>
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-slate-600 hover:bg-slate-50 rounded-lg">
+            Cancel
+          </button>
+          <button onClick={() => onSave(draft)} className="px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700">
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SettingsDialog;
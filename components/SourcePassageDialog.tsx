@@ -0,0 +1,70 @@
+import React, { useState } from 'react';
+import { X, ExternalLink, Loader2 } from 'lucide-react';
+import { SourcePassage } from '../services/documentLibrary';
+import { getDocumentBlob } from '../services/documentStore';
+
+interface SourcePassageDialogProps {
+  source: SourcePassage;
+  onClose: () => void;
+}
+
+// A cited passage as the answer was given it, with a link to the page in the PDF
+const SourcePassageDialog: React.FC<SourcePassageDialogProps> = ({ source, onClose }) => {
+  const [isOpening, setIsOpening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const openPage = async () => {
+    setIsOpening(true);
+    setError(null);
+    try {
+      const blob = await getDocumentBlob(source.documentId);
+      if (!blob) {
+        setError('This book is no longer in your library.');
+        return;
+      }
+      const url = URL.createObjectURL(blob);
+      window.open(`${url}#page=${source.page}`, '_blank', 'noopener');
+      // The new tab keeps its own reference once it has loaded
+      setTimeout(() => URL.revokeObjectURL(url), 60000);
+    } catch (err) {
+      console.error("Failed to open the book:", err);
+      setError('Could not open the book.');
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/30 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-white rounded-2xl shadow-xl w-full max-w-lg max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-100 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <h3 className="font-semibold text-slate-800 truncate">{source.documentName}</h3>
+            <p className="text-xs text-slate-400">Page {source.page}</p>
+          </div>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X size={20} />
+          </button>
+        </div>
+
+        <blockquote className="p-4 overflow-y-auto text-sm text-slate-700 leading-relaxed whitespace-pre-wrap border-l-4 border-brand-200 m-4 bg-slate-50 rounded-r-lg">
+          {source.text}
+        </blockquote>
+
+        <div className="p-4 border-t border-slate-100 flex items-center justify-end gap-3">
+          {error && <p className="flex-1 text-xs text-red-500">{error}</p>}
+          <button
+            onClick={openPage}
+            disabled={isOpening}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-brand-600 text-white rounded-lg hover:bg-brand-700 disabled:opacity-50"
+          >
+            {isOpening ? <Loader2 size={16} className="animate-spin" /> : <ExternalLink size={16} />}
+            Open page {source.page}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SourcePassageDialog;
@@ -1,14 +1,22 @@
 import React from 'react';
 import { Subject } from '../types';
-import { SUBJECTS, INITIAL_SUGGESTIONS, CONCEPT_SUGGESTIONS } from '../constants';
+import { SUBJECTS, INITIAL_SUGGESTIONS, CONCEPT_SUGGESTIONS, getSubject } from '../constants';
+import { localizeAmounts } from '../services/localeSettings';
+import { ChatModeId } from '../services/chatModes';
 import * as Icons from 'lucide-react';
 
 interface WelcomeScreenProps {
-  onSelectSubject: (subject: string) => void;
-  onSelectSuggestion: (suggestion: string) => void;
+  selectedSubject: string | null;
+  onSelectSubject: (subject: string | null) => void;
+  onSelectSuggestion: (suggestion: string, mode?: ChatModeId) => void;
 }
 
-const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onSelectSubject, onSelectSuggestion }) => {
+const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ selectedSubject, onSelectSubject, onSelectSuggestion }) => {
+  // A picked subject brings its own starter questions and concepts
+  const subject = getSubject(selectedSubject);
+  const starters = subject ? subject.starters : INITIAL_SUGGESTIONS;
+  const concepts = subject ? subject.concepts : CONCEPT_SUGGESTIONS;
+
   return (
     <div className="flex flex-col items-center justify-center h-full max-w-4xl mx-auto p-6 overflow-y-auto">
       <div className="text-center mb-8">
@@ -25,13 +33,19 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onSelectSubject, onSelect
       <div className="grid grid-cols-2 md:grid-cols-4 gap-4 w-full mb-8">
         {SUBJECTS.map((sub) => {
           const IconComponent = (Icons as any)[sub.icon] || Icons.BookOpen;
+          const isSelected = sub.name === selectedSubject;
           return (
             <button
               key={sub.id}
-              onClick={() => onSelectSubject(sub.name)}
-              className="flex flex-col items-center p-4 bg-white border border-slate-200 rounded-xl hover:border-brand-400 hover:shadow-md transition-all text-center group"
+              onClick={() => onSelectSubject(isSelected ? null : sub.name)}
+              className={`flex flex-col items-center p-4 bg-white border rounded-xl hover:border-brand-400 hover:shadow-md transition-all text-center group ${
+                isSelected ? 'border-brand-400 ring-2 ring-brand-100' : 'border-slate-200'
+              }`}
+              title={isSelected ? 'Click again to clear the subject' : undefined}
             >
-              <div className="w-10 h-10 rounded-full bg-slate-50 text-slate-500 group-hover:bg-brand-50 group-hover:text-brand-600 flex items-center justify-center mb-3 transition-colors">
+              <div className={`w-10 h-10 rounded-full flex items-center justify-center mb-3 transition-colors ${
+                isSelected ? 'bg-brand-50 text-brand-600' : 'bg-slate-50 text-slate-500 group-hover:bg-brand-50 group-hover:text-brand-600'
+              }`}>
                 <IconComponent size={20} />
               </div>
               <span className="font-semibold text-sm text-slate-700">{sub.name}</span>
@@ -43,9 +57,11 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onSelectSubject, onSelect
 
       {/* Quick Suggestions */}
       <div className="w-full mb-6">
-        <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3 text-center">Quick Start</h3>
+        <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3 text-center">
+          {subject ? `Quick Start: ${subject.name}` : 'Quick Start'}
+        </h3>
         <div className="flex flex-wrap gap-2 justify-center">
-          {INITIAL_SUGGESTIONS.map((sug, idx) => (
+          {starters.map(sug => localizeAmounts(sug)).map((sug, idx) => (
             <button
               key={idx}
               onClick={() => onSelectSuggestion(sug)}
@@ -61,10 +77,10 @@ const WelcomeScreen: React.FC<WelcomeScreenProps> = ({ onSelectSubject, onSelect
       <div className="w-full">
         <h3 className="text-xs font-semibold text-slate-400 uppercase tracking-wider mb-3 text-center">Master Key Concepts</h3>
         <div className="flex flex-wrap gap-2 justify-center">
-          {CONCEPT_SUGGESTIONS.map((concept, idx) => (
+          {concepts.map((concept, idx) => (
             <button
               key={idx}
-              onClick={() => onSelectSuggestion(`Explain the concept of ${concept} with a practical example.`)}
+              onClick={() => onSelectSuggestion(`${concept} with a practical example.`, 'explain')}
               className="text-sm bg-indigo-50 border border-indigo-100 px-4 py-2 rounded-full text-indigo-700 hover:bg-indigo-100 hover:border-indigo-200 transition-colors flex items-center gap-2"
             >
               <Icons.Lightbulb size={14} />
@@ -2,16 +2,409 @@ import { Subject } from './types';
 import { Calculator, BookOpen, Briefcase, PieChart, TrendingUp, DollarSign, Scale, Landmark } from 'lucide-react';
 
 export const SUBJECTS: Subject[] = [
-  { id: 'financial-accounting', name: 'Financial Accounting', icon: 'BookOpen', description: 'Journal, Ledger, Final Accounts' },
-  { id: 'cost-accounting', name: 'Cost Accounting', icon: 'Calculator', description: 'Job, Process, CVP Analysis' },
-  { id: 'managerial-accounting', name: 'Managerial Accounting', icon: 'PieChart', description: 'Budgeting, Decision Making' },
-  { id: 'business-finance', name: 'Business Finance', icon: 'TrendingUp', description: 'TVM, Capital Budgeting' },
-  { id: 'taxation', name: 'Taxation', icon: 'DollarSign', description: 'Income Tax, Sales Tax' },
-  { id: 'auditing', name: 'Auditing', icon: 'Briefcase', description: 'Internal Controls, Vouching' },
-  { id: 'economics', name: 'Economics', icon: 'Scale', description: 'Micro & Macro Economics' },
-  { id: 'banking', name: 'Banking & Finance', icon: 'Landmark', description: 'Central Banks, Commercial Banking' },
+  {
+    id: 'financial-accounting',
+    name: 'Financial Accounting',
+    icon: 'BookOpen',
+    description: 'Journal, Ledger, Final Accounts',
+    instruction: [
+      '- Follow the double-entry system and state the golden rule or accounting equation effect behind each entry.',
+      '- Prepare Final Accounts in horizontal (T) form for sole traders and in vertical form (IAS 1) for companies, unless the question asks otherwise.',
+      '- Balance every ledger account and show Balance c/d and b/d.',
+    ].join('\n'),
+    templates: [
+      {
+        name: 'Journal Entry',
+        useFor: 'recording transactions',
+        format: [
+          '| Date | Particulars | L.F. | Dr. | Cr. |',
+          '|---|---|---|---:|---:|',
+          '| | Account debited Dr. | | amount | |',
+          '| | To Account credited | | | amount |',
+          '| | (Being narration) | | | |',
+        ].join('\n'),
+      },
+      {
+        name: 'Ledger Account',
+        useFor: 'posting entries to an account',
+        format: [
+          '**Dr. Name of Account Cr.**',
+          '| Date | Particulars | J.F. | Amount | Date | Particulars | J.F. | Amount |',
+          '|---|---|---|---:|---|---|---|---:|',
+          '| | To ... | | | | By ... | | |',
+          '| | | | | | By Balance c/d | | |',
+          '| | **Total** | | | | **Total** | | |',
+        ].join('\n'),
+      },
+      {
+        name: 'Bank Reconciliation Statement',
+        useFor: 'reconciling the cash book with the bank statement',
+        format: [
+          '| Particulars | Amount | Amount |',
+          '|---|---:|---:|',
+          '| Balance as per Cash Book | | |',
+          '| Add: cheques issued but not presented, credits by bank not recorded | | |',
+          '| Less: cheques deposited but not cleared, debits by bank not recorded | | |',
+          '| **Balance as per Pass Book** | | |',
+        ].join('\n'),
+      },
+    ],
+    starters: [
+      "Prepare a Journal Entry for starting business with cash $50,000.",
+      "Prepare a Trial Balance from: Capital $20,000, Cash $12,000, Purchases $25,000, Sales $30,000, Furniture $8,000, Creditors $5,000, Debtors $10,000.",
+      "Pass adjusting entries for outstanding salary $2,000 and prepaid rent $1,500.",
+      "What are the Golden Rules of Accounting?",
+    ],
+    concepts: ["Matching Principle", "Going Concern Concept", "Contra Asset Account", "Capital vs Revenue Expenditure", "Depreciation vs Amortization"],
+  },
+  {
+    id: 'cost-accounting',
+    name: 'Cost Accounting',
+    icon: 'Calculator',
+    description: 'Job, Process, CVP Analysis',
+    instruction: [
+      '- Classify each cost (direct or indirect, fixed or variable) before using it.',
+      '- Show total and per-unit columns side by side in cost statements.',
+      '- In process costing, state the method (FIFO or weighted average) and show equivalent units, normal loss and abnormal loss or gain.',
+    ].join('\n'),
+    templates: [
+      {
+        name: 'Cost Sheet',
+        useFor: 'a cost sheet or statement of cost and profit',
+        format: [
+          '| Particulars | Total | Per unit |',
+          '|---|---:|---:|',
+          '| Direct materials consumed | | |',
+          '| Direct labour | | |',
+          '| Direct expenses | | |',
+          '| **Prime cost** | | |',
+          '| Factory overheads | | |',
+          '| **Works cost** | | |',
+          '| Office and administration overheads | | |',
+          '| **Cost of production** | | |',
+          '| Add opening / less closing finished goods | | |',
+          '| **Cost of goods sold** | | |',
+          '| Selling and distribution overheads | | |',
+          '| **Cost of sales** | | |',
+          '| Profit | | |',
+          '| **Sales** | | |',
+        ].join('\n'),
+      },
+      {
+        name: 'Process Account',
+        useFor: 'process costing questions',
+        format: [
+          '**Process ___ Account**',
+          '| Particulars | Units | Amount | Particulars | Units | Amount |',
+          '|---|---:|---:|---|---:|---:|',
+          '| To Materials | | | By Normal loss | | |',
+          '| To Labour | | | By Abnormal loss | | |',
+          '| To Overheads | | | By Transfer to next process | | |',
+          '| **Total** | | | **Total** | | |',
+        ].join('\n'),
+      },
+    ],
+    starters: [
+      "Calculate the Break-Even Point if Fixed Cost is $10,000, selling price $50 and variable cost $30 per unit.",
+      "Prepare a cost sheet: materials $40,000, labour $25,000, factory overheads $15,000, office overheads $10,000; 5,000 units sold at $22 each.",
+      "Calculate EOQ for annual demand of 12,000 units, ordering cost $50 per order and carrying cost $3 per unit per year.",
+      "Prepare a Process Account: 1,000 units introduced at $20,000, normal loss 10%, output 850 units.",
+    ],
+    concepts: ["Marginal Costing", "Equivalent Units", "Abnormal Loss", "Overhead Absorption Rate", "Labour Turnover"],
+  },
+  {
+    id: 'managerial-accounting',
+    name: 'Managerial Accounting',
+    icon: 'PieChart',
+    description: 'Budgeting, Decision Making',
+    instruction: [
+      '- For decisions (make or buy, special orders, shutting down a segment) compare only relevant costs and revenues, and say which costs are sunk or committed.',
+      '- Mark every variance as Favourable (F) or Adverse (A).',
+      '- End decision questions with a clear recommendation and any non-financial factors.',
+    ].join('\n'),
+    templates: [
+      {
+        name: 'Relevant Cost Statement',
+        useFor: 'decision-making questions',
+        format: [
+          '| Item | Option A | Option B | Difference |',
+          '|---|---:|---:|---:|',
+          '| Relevant revenues | | | |',
+          '| Relevant costs | | | |',
+          '| **Net benefit** | | | |',
+          '',
+          '**Recommendation:** ...',
+        ].join('\n'),
+      },
+      {
+        name: 'Variance Analysis',
+        useFor: 'material, labour, overhead or sales variances',
+        format: [
+          '| Variance | Formula | Working | Amount | F/A |',
+          '|---|---|---|---:|---|',
+          '| Price variance | (SP − AP) × AQ | | | |',
+          '| Usage variance | (SQ − AQ) × SP | | | |',
+          '| **Total variance** | (SQ × SP) − (AQ × AP) | | | |',
+        ].join('\n'),
+      },
+      {
+        name: 'Flexible Budget',
+        useFor: 'budgets at different activity levels',
+        format: [
+          '| Particulars | 70% | 80% | 90% | 100% |',
+          '|---|---:|---:|---:|---:|',
+          '| Variable costs | | | | |',
+          '| Semi-variable costs | | | | |',
+          '| Fixed costs | | | | |',
+          '| **Total cost** | | | | |',
+        ].join('\n'),
+      },
+    ],
+    starters: [
+      "Should we make or buy a part that costs $12 to buy, when the variable cost to make it is $9 and fixed costs of $20,000 are unavoidable?",
+      "Prepare a flexible budget at 70% and 90% capacity from a 100% budget with variable costs $200,000 and fixed costs $80,000.",
+      "Calculate material price and usage variances: standard 2 kg at $5 per unit; actual 2,200 kg at $4.80 for 1,000 units.",
+      "Explain the difference between budgetary control and standard costing.",
+    ],
+    concepts: ["Relevant Costing", "Zero-Based Budgeting", "Standard Costing", "Responsibility Accounting", "Activity-Based Costing"],
+  },
+  {
+    id: 'business-finance',
+    name: 'Business Finance',
+    icon: 'TrendingUp',
+    description: 'TVM, Capital Budgeting',
+    instruction: [
+      '- State the discount rate, number of periods and cash flow timing (end of year unless told otherwise).',
+      '- End capital budgeting answers with a clear accept or reject decision.',
+      '- Comment on what each ratio means for the business, not just its value.',
+    ].join('\n'),
+    templates: [
+      {
+        name: 'Capital Budgeting Table',
+        useFor: 'NPV, discounted payback and profitability index',
+        format: [
+          '| Year | Cash flow | Discount factor | Present value |',
+          '|---|---:|---:|---:|',
+          '| 0 | (outlay) | 1.000 | |',
+          '| 1 | | | |',
+          '| **Total PV of inflows** | | | |',
+          '| **NPV** | | | |',
+          '',
+          '**Decision:** Accept / Reject because ...',
+        ].join('\n'),
+      },
+      {
+        name: 'WACC Table',
+        useFor: 'weighted average cost of capital',
+        format: [
+          '| Source | Amount | Weight | Cost (after tax) | Weighted cost |',
+          '|---|---:|---:|---:|---:|',
+          '| Equity | | | | |',
+          '| Debt | | | | |',
+          '| **WACC** | | 1.00 | | |',
+        ].join('\n'),
+      },
+      {
+        name: 'Ratio Analysis',
+        useFor: 'liquidity, profitability and solvency ratios',
+        format: [
+          '| Ratio | Formula | Working | Result | Comment |',
+          '|---|---|---|---:|---|',
+        ].join('\n'),
+      },
+    ],
+    starters: [
+      "Calculate the NPV of a project costing $100,000 with cash inflows of $30,000 a year for 5 years at 10%.",
+      "Find the future value of $5,000 invested for 3 years at 8% compounded annually.",
+      "Calculate WACC: equity $600,000 at 14%, debt $400,000 at 9%, tax rate 30%.",
+      "Compare NPV and IRR as capital budgeting methods.",
+    ],
+    concepts: ["Time Value of Money", "Cost of Capital", "Capital Structure", "Working Capital Cycle", "Risk and Return"],
+  },
+  {
+    id: 'taxation',
+    name: 'Taxation',
+    icon: 'DollarSign',
+    description: 'Income Tax, Sales Tax',
+    instruction: [
+      '- Name the law, section and tax year you are applying.',
+      '- Put income under its heads before computing taxable income, and show exempt items separately.',
+      '- Show income tax slab by slab and end with the tax payable or refundable.',
+    ].join('\n'),
+    templates: [
+      {
+        name: 'Computation of Taxable Income',
+        useFor: 'income tax computations',
+        format: [
+          '**Computation of Taxable Income and Tax Liability — Tax Year ____**',
+          '| Particulars | Amount | Amount |',
+          '|---|---:|---:|',
+          '| Income from salary | | |',
+          '| Income from business | | |',
+          '| Other income | | |',
+          '| **Total income** | | |',
+          '| Less: deductible allowances | | |',
+          '| **Taxable income** | | |',
+          '| Tax on taxable income | | |',
+          '| Less: tax withheld / advance tax paid | | |',
+          '| **Tax payable / (refundable)** | | |',
+        ].join('\n'),
+      },
+      {
+        name: 'Sales Tax / VAT Return',
+        useFor: 'output tax, input tax and net tax payable',
+        format: [
+          '| Particulars | Value | Tax |',
+          '|---|---:|---:|',
+          '| Output tax on taxable supplies | | |',
+          '| Less: input tax on purchases | | |',
+          '| **Net tax payable / (carried forward)** | | |',
+        ].join('\n'),
+      },
+    ],
+    starters: [
+      "Calculate income tax for a salaried individual earning $1,800,000 a year.",
+      "Compute output tax, input tax and net sales tax payable: sales $500,000 and purchases $300,000 at 18%.",
+      "What is the difference between tax avoidance and tax evasion?",
+      "Explain withholding tax with an example.",
+    ],
+    concepts: ["Taxable Income", "Withholding Tax", "Input and Output Tax", "Tax Residency", "Carry Forward of Losses"],
+  },
+  {
+    id: 'auditing',
+    name: 'Auditing',
+    icon: 'Briefcase',
+    description: 'Internal Controls, Vouching',
+    instruction: [
+      '- Cite the International Standards on Auditing (ISA) by number where they apply.',
+      '- Link every audit procedure to the assertion it tests: existence, completeness, accuracy, valuation, rights and obligations, or presentation.',
+      '- Write procedures as actions the auditor performs, starting with a verb (Inspect, Confirm, Recalculate, Observe).',
+    ].join('\n'),
+    templates: [
+      {
+        name: 'Audit Program',
+        useFor: 'planning the audit of an area or balance',
+        format: [
+          '**Audit Program — Area: ____**',
+          '| No. | Assertion | Audit procedure | Evidence obtained | Done by | W.P. Ref. |',
+          '|---:|---|---|---|---|---|',
+          '| 1 | Existence | Inspect / Confirm ... | | | |',
+          '| 2 | Completeness | ... | | | |',
+          '| 3 | Valuation | ... | | | |',
+        ].join('\n'),
+      },
+      {
+        name: 'Internal Control Questionnaire',
+        useFor: 'evaluating internal controls over a cycle',
+        format: [
+          '| No. | Question | Yes / No | Remarks |',
+          '|---:|---|---|---|',
+          '| 1 | Are duties of ... segregated? | | |',
+        ].join('\n'),
+      },
+      {
+        name: "Auditor's Report",
+        useFor: 'drafting or explaining audit opinions (ISA 700 / 705)',
+        format: [
+          "**Independent Auditor's Report**",
+          '**Opinion** — ...',
+          '**Basis for Opinion** — ...',
+          '**Key Audit Matters** — ...',
+          "**Responsibilities of Management** — ...",
+          "**Auditor's Responsibilities** — ...",
+        ].join('\n'),
+      },
+    ],
+    starters: [
+      "Prepare an audit program for verifying cash and bank balances.",
+      "How would you vouch credit purchases?",
+      "Draft an internal control questionnaire for the payroll cycle.",
+      "Explain the difference between a qualified and an adverse opinion.",
+    ],
+    concepts: ["Audit Assertions", "Materiality", "Audit Risk Model", "Vouching vs Verification", "Professional Skepticism"],
+  },
+  {
+    id: 'economics',
+    name: 'Economics',
+    icon: 'Scale',
+    description: 'Micro & Macro Economics',
+    instruction: [
+      '- Describe diagrams in words: the axes, the curves, any shift and the new equilibrium. Offer the chart mode for a drawn version.',
+      '- For numericals, show the formula, substitute the values and interpret the result (e.g. elastic or inelastic).',
+    ].join('\n'),
+    templates: [
+      {
+        name: 'Demand and Supply Schedule',
+        useFor: 'equilibrium and market questions',
+        format: [
+          '| Price | Quantity demanded | Quantity supplied | Surplus / (Shortage) |',
+          '|---:|---:|---:|---:|',
+        ].join('\n'),
+      },
+      {
+        name: 'Elasticity Working',
+        useFor: 'price, income and cross elasticity',
+        format: [
+          '| Step | Working |',
+          '|---|---|',
+          '| Formula | |',
+          '| % change in quantity | |',
+          '| % change in price | |',
+          '| **Elasticity** | |',
+          '| Interpretation | Elastic / Inelastic / Unitary |',
+        ].join('\n'),
+      },
+    ],
+    starters: [
+      "Find the equilibrium price and quantity when Qd = 100 − 2P and Qs = 20 + 2P.",
+      "Calculate price elasticity of demand if price rises from $10 to $12 and quantity falls from 500 to 400 units.",
+      "Explain the law of diminishing marginal utility.",
+      "What causes inflation and how does a central bank control it?",
+    ],
+    concepts: ["Price Elasticity", "Opportunity Cost", "Consumer Surplus", "GDP vs GNP", "Fiscal vs Monetary Policy"],
+  },
+  {
+    id: 'banking',
+    name: 'Banking & Finance',
+    icon: 'Landmark',
+    description: 'Central Banks, Commercial Banking',
+    instruction: [
+      "- Explain banking products and terms from both the customer's and the bank's side.",
+      '- For interest, state whether it is simple or compound, the rate basis and the compounding period.',
+      "- Mention the central bank's rules where regulation applies.",
+    ].join('\n'),
+    templates: [
+      {
+        name: 'Loan Repayment Schedule',
+        useFor: 'loan and lease amortisation',
+        format: [
+          '| Period | Opening balance | Installment | Interest | Principal | Closing balance |',
+          '|---:|---:|---:|---:|---:|---:|',
+        ].join('\n'),
+      },
+      {
+        name: 'Credit Creation Table',
+        useFor: 'deposit multiplier questions',
+        format: [
+          '| Round | Deposit | Reserve | Loan |',
+          '|---:|---:|---:|---:|',
+          '| **Total** | | | |',
+        ].join('\n'),
+      },
+    ],
+    starters: [
+      "Prepare a loan repayment schedule for $100,000 at 12% for 3 years with equal annual installments.",
+      "Calculate total credit created from a deposit of $10,000 with a 20% reserve ratio.",
+      "Explain the functions of a central bank.",
+      "What is the difference between a current account and a savings account?",
+    ],
+    concepts: ["Credit Creation", "Cash Reserve Ratio", "Open Market Operations", "Letter of Credit", "Capital Adequacy"],
+  },
 ];
 
+export const getSubject = (name: string | null | undefined) => SUBJECTS.find(sub => sub.name === name);
+
+// Shown when no subject is picked
 export const INITIAL_SUGGESTIONS = [
   "Prepare a Journal Entry for starting business with cash $50,000.",
   "Calculate the Break-Even Point if Fixed Cost is $10,000.",
@@ -46,23 +439,19 @@ Your Core Rules:
 9. If the question is unclear or data is missing, ask for correction.
 10. **File/Image Handling**: If an image or file (PDF, CSV, Text) is uploaded:
     - **Carefully analyze the content**.
-    - **Book/Document Context**: If the user uploads a book or document (e.g., PDF textbook) and asks a question, **answer specifically using the content of that document**.
+    - **Book/Document Context**: Books in the user's document library are not sent whole. Passages that match the question are quoted before it as "[Source 1] Book name, page 12: ...". **Answer specifically from these passages** and cite each one you use as [Source 1] (or [Sources 1, 3]) right after the statement it supports. If the passages do not cover the question, say so and answer from general knowledge.
     - If asked to "solve Question X from the uploaded file", locate that specific question in the document and solve it step-by-step.
     - If asked to summarize or explain a topic from the book, use the provided text as the primary source.
     - If it's a problem statement, solve it following the rules above.
     - If it's data (like a trial balance or list of transactions), use it to perform the requested task.
-11. **EXAM NOTE MODE**: If the user's prompt starts with "Exam Note:", provide a **concise, high-yield summary** suitable for last-minute revision.
-   - **Limit response to 150 words.**
-   - Use bullet points.
-   - Highlight keywords in **bold**.
-   - Focus strictly on scoring points and definitions.
-   - Skip long examples/introductions.
-12. Never skip steps in numericals.
-13. Behave like a polite, patient accounting teacher.
+11. Never skip steps in numericals.
+12. Behave like a polite, patient accounting teacher.
+13. **Calculator Tools**: For break-even/CVP, time value of money, NPV, IRR, payback period, SLM/WDV depreciation and EOQ, call the matching calculator tool instead of doing the arithmetic yourself. Use the returned figures exactly as given (do not re-round them) and still show the formula and working around them.
 
 Formatting Requirements:
 - Use Markdown tables for numerical data.
 - Bold key terms and final answers.
-- Use '$' or appropriate currency symbols consistently.
-- For Journal Entries, use columns: Date | Particulars | L.F. | Dr. ($) | Cr. ($).
+- Write formulas in LaTeX: inline between \\( and \\), and display formulas on their own line between \\[ and \\], e.g. \\[ \\text{NPV} = \\sum_{t=1}^{n} \\frac{CF_t}{(1+r)^t} - C_0 \\]. Never wrap math in single $ signs; $ is a currency symbol.
+- Use the currency symbol from the Regional Settings below consistently.
+- For Journal Entries, use the columns given in the Regional Settings.
 `;
\ No newline at end of file
@@ -0,0 +1,150 @@
+// AcctSolver API server. Holds the model API key so it never reaches the browser,
+// and exposes the chat and OCR routes used by the proxy provider.
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { existsSync } from 'fs';
+import { createProvider, extractTextWith, LlmError, LlmErrorCode, ProviderId } from '../services/providers';
+import type { ProxyEvent, ProxyErrorBody } from '../services/providers/proxyProvider';
+import { CALCULATOR_DECLARATIONS, executeCalculatorTool } from '../services/calculatorTools';
+import { HttpError, createRateLimiter, readJsonBody } from './limits';
+import { parseChatBody, parseOcrBody } from './requests';
+
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const PORT = Number(process.env.PROXY_PORT) || 8787;
+const UPSTREAM = (process.env.PROXY_UPSTREAM || 'gemini') as ProviderId;
+const RATE_LIMIT_PER_MINUTE = Number(process.env.RATE_LIMIT_PER_MINUTE) || 30;
+const MAX_REQUEST_BYTES = (Number(process.env.MAX_REQUEST_MB) || 20) * 1024 * 1024;
+// Only trust X-Forwarded-For when running behind a reverse proxy that sets it
+const TRUST_PROXY = process.env.TRUST_PROXY === 'true';
+
+if (UPSTREAM === 'proxy') {
+  throw new Error('PROXY_UPSTREAM cannot be "proxy". Use gemini, openai or mock.');
+}
+
+const upstream = createProvider(UPSTREAM);
+const limiter = createRateLimiter(RATE_LIMIT_PER_MINUTE, 60 * 1000);
+
+const STATUS_FOR_CODE: Record<LlmErrorCode, number> = {
+  'auth': 502, // Our key was rejected; not the caller's fault
+  'rate-limit': 429,
+  'network': 502,
+  'safety': 422,
+  'too-large': 413,
+  'invalid-request': 400,
+  'unsupported': 501,
+  'server': 502,
+  'unknown': 500,
+};
+
+const clientIdOf = (req: IncomingMessage): string => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (TRUST_PROXY && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: unknown) => {
+  if (error instanceof HttpError) {
+    sendJson(res, error.status, { error: { code: error.code, message: error.message } });
+    return;
+  }
+  if (error instanceof LlmError) {
+    const body: ProxyErrorBody = { error: { code: error.code, message: error.message } };
+    sendJson(res, STATUS_FOR_CODE[error.code], body);
+    return;
+  }
+  console.error('Unhandled server error:', error);
+  sendJson(res, 500, { error: { code: 'unknown', message: 'Internal server error.' } });
+};
+
+// Abort the upstream call when the browser goes away (e.g. the user pressed Stop)
+const abortOnDisconnect = (res: ServerResponse): AbortController => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller;
+};
+
+const handleChat = async (raw: unknown, res: ServerResponse) => {
+  const body = parseChatBody(raw);
+  const controller = abortOnDisconnect(res);
+  const send = (event: ProxyEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  try {
+    await upstream.streamChat(
+      {
+        messages: body.messages,
+        systemInstruction: body.systemInstruction,
+        temperature: body.temperature,
+        // Only the server's own calculators can be offered to the model
+        tools: body.wantsTools ? CALCULATOR_DECLARATIONS : undefined,
+        runTool: (name, args) => {
+          send({ type: 'tool', name, args });
+          const call = executeCalculatorTool(name, args);
+          return call.error ? { error: call.error } : { output: call.result };
+        },
+        responseSchema: body.responseSchema,
+        signal: controller.signal,
+      },
+      (text) => send({ type: 'text', text }),
+    );
+  } catch (error) {
+    // Headers are already sent, so failures travel as the last event
+    if (!controller.signal.aborted) {
+      const llmError = error instanceof LlmError ? error : new LlmError('Model request failed.', 'unknown', UPSTREAM);
+      console.error('Chat request failed:', llmError.message);
+      send({ type: 'error', code: llmError.code, message: llmError.message, status: llmError.status });
+    }
+  }
+  res.end();
+};
+
+const handleOcr = async (raw: unknown, res: ServerResponse) => {
+  const request = parseOcrBody(raw);
+  const controller = abortOnDisconnect(res);
+  const text = await extractTextWith(upstream, { ...request, signal: controller.signal });
+  sendJson(res, 200, { text });
+};
+
+const ROUTES: Record<string, (body: unknown, res: ServerResponse) => Promise<void>> = {
+  '/api/chat': handleChat,
+  '/api/ocr': handleOcr,
+};
+
+const server = createServer(async (req, res) => {
+  try {
+    const path = (req.url || '').split('?')[0];
+    const route = ROUTES[path];
+
+    if (req.method === 'GET' && path === '/api/health') {
+      sendJson(res, 200, { ok: true, upstream: UPSTREAM });
+      return;
+    }
+    if (!route) throw new HttpError(404, 'invalid-request', 'Not found.');
+    if (req.method !== 'POST') throw new HttpError(405, 'invalid-request', 'Use POST.');
+
+    const retryAfter = limiter.check(clientIdOf(req));
+    if (retryAfter > 0) {
+      res.setHeader('Retry-After', String(retryAfter));
+      throw new HttpError(429, 'rate-limit', `Too many requests. Try again in ${retryAfter} seconds.`);
+    }
+
+    await route(await readJsonBody(req, MAX_REQUEST_BYTES), res);
+  } catch (error) {
+    if (res.headersSent) {
+      res.end();
+    } else {
+      sendError(res, error);
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`AcctSolver server listening on http://localhost:${PORT} (upstream: ${UPSTREAM})`);
+});
@@ -0,0 +1,80 @@
+import type { IncomingMessage } from 'http';
+
+// Error with the HTTP status and error code to send back to the client
+export class HttpError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface RateLimiter {
+  // Returns how many seconds the client must wait, or 0 when the request may proceed
+  check(clientId: string): number;
+}
+
+// Fixed-window limiter: each client may make `max` requests per `windowMs`
+export const createRateLimiter = (max: number, windowMs: number): RateLimiter => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return {
+    check(clientId) {
+      const now = Date.now();
+
+      // Drop expired windows so the map does not grow without bound
+      if (windows.size > 10000) {
+        windows.forEach((window, id) => {
+          if (now - window.start >= windowMs) windows.delete(id);
+        });
+      }
+
+      const window = windows.get(clientId);
+      if (!window || now - window.start >= windowMs) {
+        windows.set(clientId, { start: now, count: 1 });
+        return 0;
+      }
+      if (window.count >= max) {
+        return Math.ceil((window.start + windowMs - now) / 1000);
+      }
+      window.count++;
+      return 0;
+    },
+  };
+};
+
+// Read and parse a JSON body, refusing anything larger than `maxBytes`
+export const readJsonBody = (req: IncomingMessage, maxBytes: number): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    const tooLarge = () => new HttpError(413, 'too-large', `Request is larger than ${Math.round(maxBytes / 1024 / 1024)} MB.`);
+
+    if (Number(req.headers['content-length']) > maxBytes) {
+      reject(tooLarge());
+      req.resume();
+      return;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        reject(tooLarge());
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+      } catch {
+        reject(new HttpError(400, 'invalid-request', 'Request body is not valid JSON.'));
+      }
+    });
+    req.on('error', reject);
+  });
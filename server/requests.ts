@@ -0,0 +1,67 @@
+import type { JsonSchema, LlmMessage, LlmPart, OcrRequest } from '../services/providers';
+import { HttpError } from './limits';
+
+// Request bodies arrive as untrusted JSON; these narrow them to the shapes the routes use
+
+export interface ChatBody {
+  messages: LlmMessage[];
+  systemInstruction?: string;
+  temperature?: number;
+  // The client's declarations are never forwarded; asking for tools enables the server's own
+  wantsTools: boolean;
+  responseSchema?: JsonSchema;
+}
+
+const invalid = (message: string) => new HttpError(400, 'invalid-request', message);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optional = <T>(value: unknown, check: (v: unknown) => v is T, field: string): T | undefined => {
+  if (value === undefined) return undefined;
+  if (!check(value)) throw invalid(`${field} has the wrong type.`);
+  return value;
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+// The upstream provider rejects a malformed schema, so only its outer shape is checked
+const isSchema = (value: unknown): value is JsonSchema => isRecord(value) && isString(value.type);
+
+const toPart = (value: unknown): LlmPart => {
+  if (isRecord(value) && value.type === 'text' && isString(value.text)) {
+    return { type: 'text', text: value.text };
+  }
+  if (isRecord(value) && value.type === 'file' && isString(value.mimeType) && isString(value.data)) {
+    return { type: 'file', mimeType: value.mimeType, data: value.data, name: optional(value.name, isString, 'part name') };
+  }
+  throw invalid('Each message part must be text or a file.');
+};
+
+const toMessage = (value: unknown): LlmMessage => {
+  if (!isRecord(value) || (value.role !== 'user' && value.role !== 'model') || !Array.isArray(value.parts)) {
+    throw invalid('Each message needs a role of user or model and a parts array.');
+  }
+  return { role: value.role, parts: value.parts.map(toPart) };
+};
+
+export const parseChatBody = (body: unknown): ChatBody => {
+  if (!isRecord(body) || !Array.isArray(body.messages)) {
+    throw invalid('messages must be an array.');
+  }
+  return {
+    messages: body.messages.map(toMessage),
+    systemInstruction: optional(body.systemInstruction, isString, 'systemInstruction'),
+    temperature: optional(body.temperature, isNumber, 'temperature'),
+    wantsTools: Array.isArray(body.tools) && body.tools.length > 0,
+    responseSchema: optional(body.responseSchema, isSchema, 'responseSchema'),
+  };
+};
+
+export const parseOcrBody = (body: unknown): OcrRequest => {
+  if (!isRecord(body) || !isString(body.mimeType) || !body.mimeType.startsWith('image/') || !isString(body.data)) {
+    throw invalid('An image mimeType and base64 data are required.');
+  }
+  return { mimeType: body.mimeType, data: body.data };
+};
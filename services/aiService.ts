@@ -0,0 +1,559 @@
+import { SYSTEM_INSTRUCTION, getSubject } from "../constants";
+import { buildLocaleInstruction } from "./localeSettings";
+import { getTaxPack, buildTaxPackInstruction } from "./taxEngine";
+import { ChatModeId, getChatMode, questionPrompt } from "./chatModes";
+import { ChartSpec, CHART_SPEC_SCHEMA, normalizeChartSpec, chartToMarkdownTable } from "./chartSpec";
+import { SourcePassage, formatPassagesForPrompt } from "./documentLibrary";
+import { searchLibrary } from "./documentStore";
+import { withoutFailedTurns, resentAttachmentIds, transcriptForSummary } from "./contextBudget";
+import { Message, MessageError, Attachment, StopReason, CalculatorCall, Subject } from "../types";
+import { CALCULATOR_DECLARATIONS, executeCalculatorTool } from "./calculatorTools";
+import { isTextBased, decodeBase64Text } from "./fileUtils";
+import { AccountClass, ACCOUNT_CLASSES, TrialBalanceAccount } from "./finalAccounts";
+import { QuizDifficulty, QuizQuestion, RawQuizQuestion, normalizeQuizQuestions, formatCorrectAnswer } from "./quiz";
+import { Flashcard, createFlashcard } from "./flashcards";
+import {
+  getProvider,
+  extractTextWith,
+  LlmError,
+  LlmErrorCode,
+  LlmMessage,
+  LlmPart,
+  ToolResult,
+  TRANSIENT_ERROR_CODES,
+} from "./providers";
+
+interface AiResponse {
+  text: string;
+  chart?: ChartSpec;
+  sources?: SourcePassage[];
+  stopReason?: StopReason;
+  calculations?: CalculatorCall[];
+  error?: MessageError;
+}
+
+const FALLBACK_TEXT = "I analyzed the input but couldn't generate a text response. Please try clarifying your question.";
+
+const ERROR_MESSAGES: Record<LlmErrorCode, string> = {
+  'auth': "The AI service rejected the API key. Check the key configured for the server.",
+  'rate-limit': "The AI service is receiving too many requests right now. Please wait a moment and retry.",
+  'network': "Couldn't reach the AI service. Check your internet connection and retry.",
+  'safety': "The answer was blocked by the AI service's safety filters. Try rephrasing the question.",
+  'too-large': "The request is too large. Try a smaller attachment or start a new chat.",
+  'invalid-request': "The AI service couldn't process this request.",
+  'unsupported': "This action isn't supported by the configured AI service.",
+  'server': "The AI service had a temporary problem. Please retry.",
+  'unknown': "Something went wrong while getting the answer. Please retry.",
+};
+
+// Largest request we send, counting inlined files; providers reject bigger payloads anyway
+const MAX_REQUEST_BYTES = 20 * 1024 * 1024;
+
+// Automatic retries for transient failures, with exponential backoff
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const toMessageError = (error: unknown): MessageError => {
+  const code = error instanceof LlmError ? error.code : 'unknown';
+  return { code, message: ERROR_MESSAGES[code] };
+};
+
+// Resolve after `ms`, or reject early if the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(new DOMException('Aborted', 'AbortError'));
+    }, { once: true });
+  });
+
+// Run `attempt` again after 1s, 2s, 4s (plus jitter) while it fails with a transient error.
+// `canRetry` lets streaming callers stop retrying once part of the answer has arrived.
+const withRetry = async <T,>(
+  attempt: () => Promise<T>,
+  signal?: AbortSignal,
+  canRetry: () => boolean = () => true,
+): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      const transient = error instanceof LlmError && TRANSIENT_ERROR_CODES.includes(error.code);
+      if (!transient || retry >= MAX_RETRIES || signal?.aborted || !canRetry()) throw error;
+
+      const delay = RETRY_BASE_DELAY_MS * 2 ** retry * (1 + Math.random() * 0.25);
+      console.warn(`Retrying after ${error.code} error (attempt ${retry + 2} of ${MAX_RETRIES + 1})`);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+const requestSize = (messages: LlmMessage[]) =>
+  messages.reduce((total, msg) =>
+    total + msg.parts.reduce((sum, part) => sum + (part.type === 'text' ? part.text.length : part.data.length), 0), 0);
+
+// Ask for a chart spec instead of prose; the app draws it, so the figures stay exact
+const generateChart = async (
+  messages: LlmMessage[],
+  systemInstruction: string,
+  temperature: number | undefined,
+  signal?: AbortSignal,
+): Promise<AiResponse> => {
+  const response = await withRetry(() => getProvider().streamChat(
+    { messages, systemInstruction, temperature, responseSchema: CHART_SPEC_SCHEMA, signal },
+    () => {},
+  ), signal);
+  const parsed = JSON.parse(response.text);
+  const chart = normalizeChartSpec(parsed);
+  if (!chart) {
+    throw new Error('The model returned a chart without plottable data.');
+  }
+  return { text: String(parsed.summary || ''), chart };
+};
+
+// Text files (CSV, TXT, MD) are inlined for better reasoning; PDFs and images go as files
+const attachmentParts = (attachment: Attachment): LlmPart[] => {
+  const base64Data = attachment.data.split(',')[1] || attachment.data;
+
+  if (isTextBased(attachment.mimeType)) {
+    return [{ type: 'text', text: `[Attached File: ${attachment.name}]\n${decodeBase64Text(base64Data)}\n[End of File]` }];
+  }
+  return [
+    { type: 'text', text: `[Attached File: ${attachment.name}]` },
+    { type: 'file', mimeType: attachment.mimeType, data: base64Data, name: attachment.name },
+  ];
+};
+
+// Build the provider request messages from the chat history and the current turn.
+// Files attached to older turns are named rather than sent again. PDFs added to the
+// document library are sent in full on their own turn only; later questions get their
+// matching passages instead.
+const buildMessages = (
+  prompt: string,
+  history: Message[],
+  attachments: Attachment[] = [],
+  sources: SourcePassage[] = [],
+): LlmMessage[] => {
+  const sendable = withoutFailedTurns(history);
+  const resent = resentAttachmentIds(sendable);
+  const messages: LlmMessage[] = sendable.map(msg => {
+    const parts: LlmPart[] = [];
+
+    if (msg.attachments?.length) {
+      for (const attachment of msg.attachments) {
+        if (attachment.documentId) {
+          parts.push({ type: 'text', text: `[Attached File: ${attachment.name}, in the document library]` });
+        } else {
+          parts.push(...(resent.has(msg.id)
+            ? attachmentParts(attachment)
+            : [{ type: 'text' as const, text: `[Attached File: ${attachment.name}, sent earlier]` }]));
+        }
+      }
+    }
+    // Handle legacy image structure
+    else if (msg.image) {
+      parts.push(resent.has(msg.id)
+        ? { type: 'file', mimeType: "image/jpeg", data: msg.image.split(',')[1] || msg.image }
+        : { type: 'text', text: '[Image sent earlier]' });
+    }
+
+    // Charts go back as their data so follow-up questions can refer to the figures
+    const text = msg.role === 'user' ? questionPrompt(msg) : msg.chart ? `${msg.text}\n\n${chartToMarkdownTable(msg.chart)}` : msg.text;
+    parts.push({ type: 'text', text });
+    return { role: msg.role, parts };
+  });
+
+  messages.push({
+    role: 'user',
+    parts: [
+      ...attachments.flatMap(attachmentParts),
+      ...(sources.length ? [{ type: 'text' as const, text: formatPassagesForPrompt(sources) }] : []),
+      { type: 'text', text: prompt },
+    ],
+  });
+
+  return messages;
+};
+
+// Library passages for the question; a library that cannot be read just adds none
+const findSources = async (prompt: string): Promise<SourcePassage[]> => {
+  try {
+    return await searchLibrary(prompt);
+  } catch (error) {
+    console.error("Document library search failed:", error);
+    return [];
+  }
+};
+
+export const sendMessage = async (
+  prompt: string,
+  history: Message[] = [],
+  attachments: Attachment[] = [],
+): Promise<AiResponse> => streamMessage(prompt, history, attachments, () => {});
+
+// Section appended to the system instruction in a subject's chats
+const buildSubjectInstruction = (subject: Subject): string => [
+  `Subject: ${subject.name}`,
+  subject.instruction,
+  ...(subject.templates.length
+    ? [
+      'Answer templates: when a question calls for one of these, lay the answer out in that format and fill in every row.',
+      ...subject.templates.map(t => `${t.name} (for ${t.useFor}):\n${t.format}`),
+    ]
+    : []),
+].join('\n');
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  // Name of the chat's subject; its instructions and answer templates are added
+  subject?: string | null;
+  // Answer mode of the question; sets the temperature, extra instructions and output kind
+  mode?: ChatModeId;
+  // Points Taxation chats at a tax rule pack for their computations
+  taxPackId?: string | null;
+  // Rolling summary of the turns before `history`
+  summary?: string;
+}
+
+// Streams the answer chunk by chunk. `onChunk` receives the accumulated text so far.
+// Passages from the document library that match the question are sent with it and
+// returned as `sources`, best match first, numbered as the answer cites them.
+// Calculator tool calls are run locally and their results fed back to the model.
+// Transient failures are retried until the first text arrives. If the stream is aborted
+// or fails midway, the partial text is returned with a stopReason; failures carry `error`.
+export const streamMessage = async (
+  prompt: string,
+  history: Message[] = [],
+  attachments: Attachment[],
+  onChunk: (text: string) => void,
+  { signal, subject: subjectName, mode: modeId, taxPackId, summary }: StreamOptions = {},
+): Promise<AiResponse> => {
+  const mode = getChatMode(modeId);
+  const subject = getSubject(subjectName);
+  let text = "";
+  let calculations: CalculatorCall[] = [];
+
+  const runTool = (name: string, args: Record<string, unknown>): ToolResult => {
+    const call = executeCalculatorTool(name, args);
+    calculations.push(call);
+    return call.error ? { error: call.error } : { output: call.result };
+  };
+
+  const found = await findSources(prompt);
+  const sources = found.length ? found : undefined;
+
+  try {
+    const messages = buildMessages(prompt, history, attachments, found);
+    const taxPack = getTaxPack(taxPackId);
+    const systemInstruction = [
+      SYSTEM_INSTRUCTION,
+      buildLocaleInstruction(),
+      subject ? buildSubjectInstruction(subject) : '',
+      taxPack ? buildTaxPackInstruction(taxPack) : '',
+      mode?.systemInstruction || '',
+      summary ? `Summary of the earlier part of this conversation:\n${summary}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+    if (requestSize(messages) > MAX_REQUEST_BYTES) {
+      throw new LlmError('Request exceeds the size limit.', 'too-large', getProvider().id);
+    }
+
+    if (mode?.output === 'chart') {
+      const result = await generateChart(messages, systemInstruction, mode.temperature, signal);
+      onChunk(result.text);
+      return { ...result, sources };
+    }
+
+    await withRetry(
+      () => {
+        calculations = [];
+        return getProvider().streamChat(
+          {
+            messages,
+            systemInstruction,
+            temperature: mode?.temperature ?? 0.3, // Keep it factual for accounting
+            tools: CALCULATOR_DECLARATIONS,
+            runTool,
+            signal,
+          },
+          (accumulated) => {
+            text = accumulated;
+            onChunk(text);
+          },
+        );
+      },
+      signal,
+      () => !text,
+    );
+
+    if (signal?.aborted) {
+      return { text, sources, calculations, stopReason: 'stopped' };
+    }
+
+    if (text) {
+      return { text, sources, calculations };
+    }
+
+    return { text: FALLBACK_TEXT, sources, calculations };
+  } catch (error) {
+    if (signal?.aborted) {
+      return { text, sources, calculations, stopReason: 'stopped' };
+    }
+
+    console.error("Error streaming from the model:", error);
+    // Keep whatever arrived before the failure
+    return { text, sources, calculations, stopReason: text ? 'error' : undefined, error: toMessageError(error) };
+  }
+};
+
+// Fold older turns into the running summary of a conversation.
+// Throws with a readable message on failure.
+export const summarizeHistory = async (
+  previousSummary: string | null,
+  messages: Message[],
+  signal?: AbortSignal,
+): Promise<string> => {
+  try {
+    const response = await withRetry(() => getProvider().streamChat(
+      {
+        messages: [{
+          role: 'user',
+          parts: [{
+            type: 'text',
+            text: `Update the running summary of this accounting tutoring conversation so it can stand in for the turns below. ` +
+              `Keep the subject, the given data and figures, the final answers, any formats or assumptions agreed on, ` +
+              `and what the student is still working on. Use short bullet points and stay under 250 words.\n\n` +
+              `Summary so far:\n${previousSummary || '(none)'}\n\nTurns to add:\n${transcriptForSummary(messages)}`,
+          }],
+        }],
+        temperature: 0.2,
+        signal,
+      },
+      () => {},
+    ), signal);
+    if (!response.text.trim()) {
+      throw new LlmError('The summary came back empty.', 'invalid-request', getProvider().id);
+    }
+    return response.text.trim();
+  } catch (error) {
+    console.error("History summary failed:", error);
+    throw new Error(toMessageError(error).message);
+  }
+};
+
+export const extractTextFromImage = async (base64Image: string): Promise<string> => {
+  try {
+    const base64Data = base64Image.split(',')[1] || base64Image;
+    return await withRetry(() => extractTextWith(getProvider(), { mimeType: "image/jpeg", data: base64Data }));
+  } catch (error) {
+    console.error("OCR extraction failed:", error);
+    return "";
+  }
+};
+
+// Ask the model how each trial-balance account should be classified.
+// Returns suggestions keyed by account id; accounts it could not place are omitted.
+export const suggestAccountClassifications = async (
+  accounts: TrialBalanceAccount[],
+): Promise<Record<string, AccountClass>> => {
+  try {
+    const listing = accounts
+      .map((acc, idx) => `${idx + 1}. ${acc.name} (${acc.debit ? `Dr ${acc.debit}` : `Cr ${acc.credit}`})`)
+      .join('\n');
+
+    const response = await withRetry(() => getProvider().streamChat(
+      {
+        messages: [{
+          role: 'user',
+          parts: [{ type: 'text', text: `Classify each trial balance account for preparing a Trading Account, Profit & Loss Account and Balance Sheet of a sole trader.\n\n${listing}` }],
+        }],
+        temperature: 0,
+        responseSchema: {
+          type: 'object',
+          properties: {
+            suggestions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  index: { type: 'integer', description: "The account's number in the list" },
+                  classification: { type: 'string', enum: ACCOUNT_CLASSES },
+                },
+                required: ['index', 'classification'],
+              },
+            },
+          },
+          required: ['suggestions'],
+        },
+      },
+      () => {},
+    ));
+
+    const { suggestions = [] }: { suggestions?: { index: number; classification: AccountClass }[] } = JSON.parse(response.text || '{}');
+    const result: Record<string, AccountClass> = {};
+    suggestions.forEach(({ index, classification }) => {
+      const account = accounts[index - 1];
+      if (account && ACCOUNT_CLASSES.includes(classification)) {
+        result[account.id] = classification;
+      }
+    });
+    return result;
+  } catch (error) {
+    console.error("Account classification failed:", error);
+    return {};
+  }
+};
+
+// Generate a practice quiz as structured JSON. Throws with a readable message on failure.
+export const generateQuiz = async (
+  subject: string,
+  difficulty: QuizDifficulty,
+  count: number,
+): Promise<QuizQuestion[]> => {
+  try {
+    const response = await withRetry(() => getProvider().streamChat(
+      {
+        messages: [{
+          role: 'user',
+          parts: [{
+            type: 'text',
+            text: `Create a practice quiz of ${count} ${difficulty} questions on ${subject} for Commerce and Business students. ` +
+              `Mix multiple-choice questions (4 options), true/false statements and short numerical problems with a single final figure. ` +
+              `For each question give a short explanation; for numerical problems the explanation is the worked solution.`,
+          }],
+        }],
+        temperature: 0.7, // Some variety between attempts
+        responseSchema: {
+          type: 'object',
+          properties: {
+            questions: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  type: { type: 'string', enum: ['mcq', 'true-false', 'numerical'] },
+                  prompt: { type: 'string' },
+                  explanation: { type: 'string' },
+                  options: { type: 'array', items: { type: 'string' }, description: 'MCQ only' },
+                  correctOptionIndex: { type: 'integer', description: 'MCQ only, zero-based' },
+                  trueFalseAnswer: { type: 'boolean', description: 'True/false only' },
+                  numericAnswer: { type: 'number', description: 'Numerical only, the final figure' },
+                  unit: { type: 'string', description: 'Numerical only, e.g. $, %, units, years' },
+                },
+                required: ['type', 'prompt', 'explanation'],
+              },
+            },
+          },
+          required: ['questions'],
+        },
+      },
+      () => {},
+    ));
+
+    const { questions = [] }: { questions?: RawQuizQuestion[] } = JSON.parse(response.text || '{}');
+    const normalized = normalizeQuizQuestions(questions);
+    if (normalized.length === 0) {
+      throw new LlmError('The quiz came back empty.', 'invalid-request', getProvider().id);
+    }
+    return normalized;
+  } catch (error) {
+    console.error("Quiz generation failed:", error);
+    throw new Error(toMessageError(error).message);
+  }
+};
+
+// Ask the model to mark the working for a numerical question.
+// Returns null when grading fails, so the caller can fall back to the final-figure check.
+export const gradeNumericalWorking = async (
+  question: QuizQuestion,
+  working: string,
+  finalAnswer: string,
+): Promise<{ score: number; feedback: string } | null> => {
+  try {
+    const response = await withRetry(() => getProvider().streamChat(
+      {
+        messages: [{
+          role: 'user',
+          parts: [{
+            type: 'text',
+            text: `Grade this student's working for a numerical accounting question. Award a score from 0 to 1: ` +
+              `full marks for correct method and answer, partial credit for correct method with arithmetic slips. ` +
+              `Give brief feedback addressed to the student.\n\nQuestion: ${question.prompt}\n` +
+              `Answer key: ${formatCorrectAnswer(question)}\nModel solution: ${question.explanation}\n\n` +
+              `Student's working:\n${working || '(none)'}\n\nStudent's final answer: ${finalAnswer || '(none)'}`,
+          }],
+        }],
+        temperature: 0,
+        responseSchema: {
+          type: 'object',
+          properties: {
+            score: { type: 'number', description: 'From 0 to 1' },
+            feedback: { type: 'string' },
+          },
+          required: ['score', 'feedback'],
+        },
+      },
+      () => {},
+    ));
+
+    const { score, feedback }: { score?: number; feedback?: string } = JSON.parse(response.text || '{}');
+    if (typeof score !== 'number' || !Number.isFinite(score)) return null;
+    return { score: Math.min(1, Math.max(0, score)), feedback: feedback || '' };
+  } catch (error) {
+    console.error("Grading failed:", error);
+    return null;
+  }
+};
+
+// Turn an answer or a concept into question/answer flashcards for the given deck.
+// Throws with a readable message on failure.
+export const generateFlashcards = async (material: string, subject: string | null): Promise<Flashcard[]> => {
+  try {
+    const response = await withRetry(() => getProvider().streamChat(
+      {
+        messages: [{
+          role: 'user',
+          parts: [{
+            type: 'text',
+            text: `Turn this material into flashcards for revision${subject ? ` in ${subject}` : ''}. ` +
+              `Write between 3 and 8 cards. Each front is one short question or term; each back is a concise answer ` +
+              `with the key formula or definition. Skip anything that is not worth memorising.\n\n${material}`,
+          }],
+        }],
+        temperature: 0.3,
+        responseSchema: {
+          type: 'object',
+          properties: {
+            cards: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  front: { type: 'string' },
+                  back: { type: 'string' },
+                },
+                required: ['front', 'back'],
+              },
+            },
+          },
+          required: ['cards'],
+        },
+      },
+      () => {},
+    ));
+
+    const { cards = [] }: { cards?: { front?: string; back?: string }[] } = JSON.parse(response.text || '{}');
+    const flashcards = cards
+      .filter(card => card?.front?.trim() && card?.back?.trim())
+      .map(card => createFlashcard(card.front!, card.back!, subject));
+    if (flashcards.length === 0) {
+      throw new LlmError('No flashcards could be made from this text.', 'invalid-request', getProvider().id);
+    }
+    return flashcards;
+  } catch (error) {
+    console.error("Flashcard generation failed:", error);
+    throw new Error(toMessageError(error).message);
+  }
+};
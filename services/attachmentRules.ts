@@ -0,0 +1,67 @@
+import { Attachment } from '../types';
+import { isTextBased } from './fileUtils';
+import { isSpreadsheetFile } from './spreadsheetImport';
+
+// What can go with one question. The totals keep the request under the providers'
+// size limit with room for the conversation history.
+export const MAX_ATTACHMENTS = 10;
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+export const MAX_TOTAL_BYTES = 18 * 1024 * 1024;
+
+// Image formats every provider accepts
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp', 'image/gif'];
+
+// Browsers often miss CSV or MD, or report a generic octet-stream
+const EXTENSION_TYPES: Record<string, string> = {
+  csv: 'text/csv',
+  md: 'text/markdown',
+  json: 'application/json',
+  pdf: 'application/pdf',
+  txt: 'text/plain',
+  tsv: 'text/tab-separated-values',
+  xml: 'text/xml',
+  yml: 'text/yaml',
+  yaml: 'text/yaml',
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+};
+
+export const detectMimeType = (file: File): string => {
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  // Windows reports CSV files as Excel workbooks when Excel is installed
+  if (ext === 'csv') return EXTENSION_TYPES.csv;
+  if (file.type && file.type !== 'application/octet-stream') return file.type;
+  return EXTENSION_TYPES[ext] || file.type || 'application/octet-stream';
+};
+
+export const formatFileSize = (bytes: number) =>
+  bytes >= 1024 * 1024 ? `${(bytes / (1024 * 1024)).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+// Size of a base64 data URL's contents
+const attachmentBytes = (attachment: Attachment) =>
+  Math.floor((attachment.data.split(',')[1] || attachment.data).length * 0.75);
+
+// Why `file` cannot be attached next to `current`, or null when it can
+export const rejectionReason = (file: File, mimeType: string, current: Attachment[]): string | null => {
+  const isAccepted = IMAGE_TYPES.includes(mimeType) || mimeType === 'application/pdf' || isTextBased(mimeType) || isSpreadsheetFile(file.name);
+  if (!isAccepted) {
+    return `${file.name} is not a supported file type. Attach images (PNG, JPG, WebP), PDFs, spreadsheets or text files such as CSV.`;
+  }
+  if (file.size === 0) {
+    return `${file.name} is empty.`;
+  }
+  if (file.size > MAX_FILE_BYTES) {
+    return `${file.name} is ${formatFileSize(file.size)}; each file can be at most ${formatFileSize(MAX_FILE_BYTES)}.`;
+  }
+  if (current.length >= MAX_ATTACHMENTS) {
+    return `${file.name} was not added: a question can have at most ${MAX_ATTACHMENTS} files.`;
+  }
+  const total = current.reduce((sum, attachment) => sum + attachmentBytes(attachment), 0) + file.size;
+  if (total > MAX_TOTAL_BYTES) {
+    return `${file.name} was not added: the files for one question can add up to at most ${formatFileSize(MAX_TOTAL_BYTES)}.`;
+  }
+  return null;
+};
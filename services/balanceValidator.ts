@@ -0,0 +1,260 @@
+// Deterministic post-processing of model answers: finds journal, ledger and
+// trial-balance tables in the GFM Markdown and recomputes their totals, so
+// students are warned when the model's debits and credits do not agree.
+
+import { formatNumber } from './localeSettings';
+
+export type AccountingTableKind = 'journal' | 'ledger' | 'trial-balance';
+
+export interface MarkdownTable {
+  caption: string; // Nearest non-empty line above the table (usually a heading)
+  headers: string[];
+  rows: string[][];
+}
+
+export interface TableValidation {
+  kind: AccountingTableKind;
+  caption: string;
+  balanced: boolean;
+  debitTotal: number;
+  creditTotal: number;
+  issues: string[]; // Human-readable descriptions of rows that do not reconcile
+}
+
+// Differences below half a cent are rounding noise
+const TOLERANCE = 0.005;
+
+const isTableRow = (line: string) => line.trim().startsWith('|');
+const isSeparatorRow = (line: string) => /^\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?$/.test(line.trim());
+
+const splitRow = (line: string): string[] => {
+  let trimmed = line.trim();
+  if (trimmed.startsWith('|')) trimmed = trimmed.slice(1);
+  if (trimmed.endsWith('|')) trimmed = trimmed.slice(0, -1);
+  // Respect escaped pipes inside cells
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.replace(/\\\|/g, '|').trim());
+};
+
+// Remove Markdown emphasis so "**Total**" reads as "Total"
+const plainText = (cell: string) => cell.replace(/[*_`]/g, '').trim();
+
+export const parseMarkdownTables = (markdown: string): MarkdownTable[] => {
+  const lines = markdown.split('\n');
+  const tables: MarkdownTable[] = [];
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (!isTableRow(lines[i]) || !isSeparatorRow(lines[i + 1])) continue;
+
+    let caption = '';
+    for (let j = i - 1; j >= 0; j--) {
+      if (lines[j].trim()) {
+        caption = plainText(lines[j].replace(/^#+\s*/, ''));
+        break;
+      }
+    }
+
+    const headers = splitRow(lines[i]).map(plainText);
+    const rows: string[][] = [];
+    let k = i + 2;
+    while (k < lines.length && isTableRow(lines[k])) {
+      rows.push(splitRow(lines[k]));
+      k++;
+    }
+
+    tables.push({ caption, headers, rows });
+    i = k - 1;
+  }
+
+  return tables;
+};
+
+// Parse "$ 1,20,000.50", "(500)" or "Rs. 300" into a number; null for non-numeric cells
+export const parseAmount = (cell: string | undefined): number | null => {
+  if (!cell) return null;
+  let text = plainText(cell).replace(/\s/g, '');
+  if (!text || text === '-' || text === '—') return null;
+
+  const negative = /^\(.*\)$/.test(text) || text.startsWith('-');
+  text = text.replace(/^\(|\)$/g, '').replace(/^-/, '');
+  text = text.replace(/^(rs\.?|inr|pkr|usd|tk|bdt|aed|gbp|eur|[$€£₹৳])/i, '').replace(/,/g, '');
+
+  if (!/^\d+(\.\d+)?$/.test(text)) return null;
+  const value = parseFloat(text);
+  return negative ? -value : value;
+};
+
+// Balances are often written as "5,000 Dr" or "1,200 Cr"; credit balances become negative
+const parseBalance = (cell: string | undefined): number | null => {
+  const text = plainText(cell || '');
+  const side = text.match(/\s*(dr|cr)\.?$/i)?.[1]?.toLowerCase();
+  const value = parseAmount(text.replace(/\s*(dr|cr)\.?$/i, ''));
+  if (value === null) return null;
+  return side === 'cr' ? -Math.abs(value) : value;
+};
+
+const findColumn = (headers: string[], pattern: RegExp, from = 0) =>
+  headers.findIndex((header, idx) => idx >= from && pattern.test(header));
+
+const DEBIT_HEADER = /^(dr\b|dr\.|debit)/i;
+const CREDIT_HEADER = /^(cr\b|cr\.|credit)/i;
+const AMOUNT_HEADER = /amount|\(\$\)|\(rs/i;
+const TOTAL_ROW = /\btotal\b/i;
+
+const isTotalRow = (row: string[]) => row.some(cell => TOTAL_ROW.test(plainText(cell)));
+
+const rowLabel = (row: string[], labelIdx: number) => {
+  const label = plainText(row[labelIdx] || '') || row.map(plainText).find(Boolean) || 'Unnamed row';
+  return label.length > 40 ? `${label.slice(0, 40)}…` : label;
+};
+
+const differs = (a: number, b: number) => Math.abs(a - b) > TOLERANCE;
+
+const classify = (table: MarkdownTable): AccountingTableKind | null => {
+  const { headers, caption } = table;
+  const hasDebit = findColumn(headers, DEBIT_HEADER) !== -1;
+  const hasCredit = findColumn(headers, CREDIT_HEADER) !== -1;
+  const amountColumns = headers.filter(header => AMOUNT_HEADER.test(header) && !DEBIT_HEADER.test(header) && !CREDIT_HEADER.test(header));
+
+  if (/trial\s*balance/i.test(caption) && hasDebit && hasCredit) return 'trial-balance';
+  if (/ledger|a\/c|account/i.test(caption) && (amountColumns.length === 2 || (hasDebit && hasCredit))) return 'ledger';
+  if (hasDebit && hasCredit) {
+    if (headers.some(header => /particulars|l\.?\s?f\.?|date/i.test(header))) return 'journal';
+    if (headers.some(header => /account|head/i.test(header))) return 'trial-balance';
+  }
+  // T-format ledger: "Date | Particulars | Amount | Date | Particulars | Amount"
+  if (amountColumns.length === 2 && headers.filter(header => /particulars/i.test(header)).length === 2) return 'ledger';
+  return null;
+};
+
+// Sum debit and credit columns, then compare against any "Total" row the model wrote
+const checkColumnTotals = (
+  table: MarkdownTable,
+  debitIdx: number,
+  creditIdx: number,
+  labelIdx: number,
+  issues: string[],
+) => {
+  let debitTotal = 0;
+  let creditTotal = 0;
+
+  table.rows.forEach(row => {
+    if (isTotalRow(row)) {
+      const statedDebit = parseAmount(row[debitIdx]);
+      const statedCredit = parseAmount(row[creditIdx]);
+      if (statedDebit !== null && differs(statedDebit, debitTotal)) {
+        issues.push(`"${rowLabel(row, labelIdx)}" states debits of ${formatNumber(statedDebit)} but the rows add up to ${formatNumber(debitTotal)}`);
+      }
+      if (statedCredit !== null && differs(statedCredit, creditTotal)) {
+        issues.push(`"${rowLabel(row, labelIdx)}" states credits of ${formatNumber(statedCredit)} but the rows add up to ${formatNumber(creditTotal)}`);
+      }
+      return;
+    }
+    debitTotal += parseAmount(row[debitIdx]) ?? 0;
+    creditTotal += parseAmount(row[creditIdx]) ?? 0;
+  });
+
+  if (differs(debitTotal, creditTotal)) {
+    issues.push(`Debits (${formatNumber(debitTotal)}) do not equal credits (${formatNumber(creditTotal)})`);
+  }
+
+  return { debitTotal, creditTotal };
+};
+
+const validateJournal = (table: MarkdownTable): TableValidation => {
+  const { headers } = table;
+  const debitIdx = findColumn(headers, DEBIT_HEADER);
+  const creditIdx = findColumn(headers, CREDIT_HEADER);
+  const dateIdx = findColumn(headers, /date/i);
+  const labelIdx = Math.max(findColumn(headers, /particulars/i), 0);
+  const issues: string[] = [];
+
+  // Each entry starts at a new date, or at a debit line that follows credit lines
+  const entries: string[][][] = [];
+  let current: string[][] = [];
+  let seenCredit = false;
+  table.rows.filter(row => !isTotalRow(row)).forEach(row => {
+    const startsEntry = (dateIdx !== -1 && plainText(row[dateIdx] || '') !== '')
+      || (seenCredit && parseAmount(row[debitIdx]) !== null);
+    if (startsEntry && current.length > 0) {
+      entries.push(current);
+      current = [];
+      seenCredit = false;
+    }
+    current.push(row);
+    if (parseAmount(row[creditIdx]) !== null) seenCredit = true;
+  });
+  if (current.length > 0) entries.push(current);
+
+  entries.forEach(entry => {
+    const debit = entry.reduce((sum, row) => sum + (parseAmount(row[debitIdx]) ?? 0), 0);
+    const credit = entry.reduce((sum, row) => sum + (parseAmount(row[creditIdx]) ?? 0), 0);
+    if (differs(debit, credit)) {
+      issues.push(`Entry "${rowLabel(entry[0], labelIdx)}": Dr ${formatNumber(debit)} vs Cr ${formatNumber(credit)}`);
+    }
+  });
+
+  const { debitTotal, creditTotal } = checkColumnTotals(table, debitIdx, creditIdx, labelIdx, issues);
+  return { kind: 'journal', caption: table.caption, balanced: issues.length === 0, debitTotal, creditTotal, issues };
+};
+
+const validateTrialBalance = (table: MarkdownTable): TableValidation => {
+  const { headers } = table;
+  const debitIdx = findColumn(headers, DEBIT_HEADER);
+  const creditIdx = findColumn(headers, CREDIT_HEADER);
+  const labelIdx = Math.max(findColumn(headers, /account|particulars|head/i), 0);
+  const issues: string[] = [];
+
+  const { debitTotal, creditTotal } = checkColumnTotals(table, debitIdx, creditIdx, labelIdx, issues);
+  return { kind: 'trial-balance', caption: table.caption, balanced: issues.length === 0, debitTotal, creditTotal, issues };
+};
+
+const validateLedger = (table: MarkdownTable): TableValidation => {
+  const { headers } = table;
+  const issues: string[] = [];
+  let debitIdx = findColumn(headers, DEBIT_HEADER);
+  let creditIdx = findColumn(headers, CREDIT_HEADER);
+  const balanceIdx = findColumn(headers, /^balance/i);
+  const labelIdx = Math.max(findColumn(headers, /particulars/i), 0);
+
+  // Running-balance format: check each balance against the previous one
+  if (debitIdx !== -1 && creditIdx !== -1 && balanceIdx !== -1) {
+    let balance: number | null = null;
+    table.rows.filter(row => !isTotalRow(row)).forEach(row => {
+      const stated = parseBalance(row[balanceIdx]);
+      const expected = (balance ?? 0) + (parseAmount(row[debitIdx]) ?? 0) - (parseAmount(row[creditIdx]) ?? 0);
+      if (balance !== null && stated !== null && differs(Math.abs(expected), Math.abs(stated))) {
+        issues.push(`"${rowLabel(row, labelIdx)}": expected balance ${formatNumber(Math.abs(expected))}, table shows ${formatNumber(Math.abs(stated))}`);
+      }
+      balance = stated ?? expected;
+    });
+
+    const totals = table.rows.filter(row => !isTotalRow(row)).reduce(
+      (sum, row) => ({
+        debit: sum.debit + (parseAmount(row[debitIdx]) ?? 0),
+        credit: sum.credit + (parseAmount(row[creditIdx]) ?? 0),
+      }),
+      { debit: 0, credit: 0 },
+    );
+    return { kind: 'ledger', caption: table.caption, balanced: issues.length === 0, debitTotal: totals.debit, creditTotal: totals.credit, issues };
+  }
+
+  // T-format: the left amount column is the debit side, the right one the credit side
+  if (debitIdx === -1 || creditIdx === -1) {
+    debitIdx = findColumn(headers, AMOUNT_HEADER);
+    creditIdx = findColumn(headers, AMOUNT_HEADER, debitIdx + 1);
+  }
+
+  const { debitTotal, creditTotal } = checkColumnTotals(table, debitIdx, creditIdx, labelIdx, issues);
+  return { kind: 'ledger', caption: table.caption, balanced: issues.length === 0, debitTotal, creditTotal, issues };
+};
+
+export const validateAccountingTables = (markdown: string): TableValidation[] => {
+  return parseMarkdownTables(markdown).flatMap(table => {
+    switch (classify(table)) {
+      case 'journal': return [validateJournal(table)];
+      case 'trial-balance': return [validateTrialBalance(table)];
+      case 'ledger': return [validateLedger(table)];
+      default: return [];
+    }
+  });
+};
@@ -0,0 +1,305 @@
+import { CalculatorCall } from "../types";
+import { JsonSchema, ToolDeclaration } from "./providers";
+import {
+  breakEvenAnalysis,
+  timeValueOfMoney,
+  netPresentValue,
+  internalRateOfReturn,
+  paybackPeriod,
+  depreciationSchedule,
+  economicOrderQuantity,
+} from "./financialCalculators";
+import { TAX_RULE_PACKS, computeIncomeTax, computeSalesTax } from "./taxEngine";
+
+const NUMBER: JsonSchema = { type: 'number' };
+const NUMBER_LIST: JsonSchema = { type: 'array', items: { type: 'number' } };
+const TAX_PACK_ID: JsonSchema = { type: 'string', enum: TAX_RULE_PACKS.map(pack => pack.id), description: 'Tax rule pack named in the instructions' };
+
+// Tool declarations for the local calculators
+export const CALCULATOR_DECLARATIONS: ToolDeclaration[] = [
+  {
+    name: 'break_even_analysis',
+    description: 'Cost-Volume-Profit analysis: contribution, P/V ratio, break-even point, sales for a target profit and margin of safety.',
+    parameters: {
+      type: 'object',
+      properties: {
+        fixedCost: NUMBER,
+        sellingPricePerUnit: NUMBER,
+        variableCostPerUnit: NUMBER,
+        targetProfit: { ...NUMBER, description: 'Optional desired profit' },
+        actualSalesUnits: { ...NUMBER, description: 'Optional actual or budgeted sales in units, for margin of safety' },
+      },
+      required: ['fixedCost', 'sellingPricePerUnit', 'variableCostPerUnit'],
+    },
+  },
+  {
+    name: 'time_value_of_money',
+    description: 'Future or present value of a lump sum or an annuity.',
+    parameters: {
+      type: 'object',
+      properties: {
+        calculate: { type: 'string', enum: ['futureValue', 'presentValue', 'annuityFutureValue', 'annuityPresentValue'] },
+        amount: { ...NUMBER, description: 'Lump sum, or the periodic payment for annuities' },
+        ratePercent: { ...NUMBER, description: 'Interest rate per period, in percent' },
+        periods: NUMBER,
+        annuityDue: { type: 'boolean', description: 'True when payments are made at the start of each period' },
+      },
+      required: ['calculate', 'amount', 'ratePercent', 'periods'],
+    },
+  },
+  {
+    name: 'net_present_value',
+    description: 'NPV, present value of each year\'s cash inflow and profitability index.',
+    parameters: {
+      type: 'object',
+      properties: {
+        ratePercent: { ...NUMBER, description: 'Discount rate in percent' },
+        initialInvestment: NUMBER,
+        cashFlows: { ...NUMBER_LIST, description: 'Cash inflows for year 1 to year n' },
+      },
+      required: ['ratePercent', 'initialInvestment', 'cashFlows'],
+    },
+  },
+  {
+    name: 'internal_rate_of_return',
+    description: 'Internal rate of return of a project.',
+    parameters: {
+      type: 'object',
+      properties: {
+        initialInvestment: NUMBER,
+        cashFlows: { ...NUMBER_LIST, description: 'Cash inflows for year 1 to year n' },
+      },
+      required: ['initialInvestment', 'cashFlows'],
+    },
+  },
+  {
+    name: 'payback_period',
+    description: 'Simple or discounted payback period in years.',
+    parameters: {
+      type: 'object',
+      properties: {
+        initialInvestment: NUMBER,
+        cashFlows: { ...NUMBER_LIST, description: 'Cash inflows for year 1 to year n' },
+        discountRatePercent: { ...NUMBER, description: 'Set for discounted payback' },
+      },
+      required: ['initialInvestment', 'cashFlows'],
+    },
+  },
+  {
+    name: 'depreciation_schedule',
+    description: 'Year-by-year depreciation schedule using the Straight Line (SLM) or Written Down Value (WDV) method.',
+    parameters: {
+      type: 'object',
+      properties: {
+        method: { type: 'string', enum: ['SLM', 'WDV'] },
+        cost: NUMBER,
+        years: NUMBER,
+        salvageValue: NUMBER,
+        ratePercent: { ...NUMBER, description: 'WDV rate; derived from cost, salvage and life when omitted' },
+      },
+      required: ['method', 'cost', 'years'],
+    },
+  },
+  {
+    name: 'economic_order_quantity',
+    description: 'Economic Order Quantity and the related ordering and carrying costs.',
+    parameters: {
+      type: 'object',
+      properties: {
+        annualDemand: NUMBER,
+        orderingCostPerOrder: NUMBER,
+        carryingCostPerUnit: { ...NUMBER, description: 'Annual carrying cost per unit' },
+      },
+      required: ['annualDemand', 'orderingCostPerOrder', 'carryingCostPerUnit'],
+    },
+  },
+  {
+    name: 'compute_income_tax',
+    description: 'Income tax liability from a tax rule pack: deductions, taxable income, slab-wise tax, rebate, surcharge and cess.',
+    parameters: {
+      type: 'object',
+      properties: {
+        packId: TAX_PACK_ID,
+        category: {
+          type: 'string',
+          enum: [...new Set(TAX_RULE_PACKS.flatMap(pack => Object.keys(pack.incomeTax.categories)))],
+          description: 'Taxpayer category defined by the pack',
+        },
+        grossIncome: { ...NUMBER, description: 'Total income before deductions' },
+        deductions: {
+          type: 'array',
+          description: 'Deductions claimed, by the ids listed for the pack',
+          items: {
+            type: 'object',
+            properties: { id: { type: 'string' }, amount: NUMBER },
+            required: ['id', 'amount'],
+          },
+        },
+      },
+      required: ['packId', 'category', 'grossIncome'],
+    },
+  },
+  {
+    name: 'compute_sales_tax',
+    description: 'Sales tax, GST or VAT on an amount using the rates in a tax rule pack.',
+    parameters: {
+      type: 'object',
+      properties: {
+        packId: TAX_PACK_ID,
+        amount: NUMBER,
+        ratePercent: { ...NUMBER, description: 'Optional; defaults to the standard rate' },
+        inclusive: { type: 'boolean', description: 'True when the amount already includes the tax' },
+      },
+      required: ['packId', 'amount'],
+    },
+  },
+];
+
+// Readers for the model's tool arguments; a wrong type becomes an error sent back to it
+type ToolArgs = Record<string, unknown>;
+
+const optionalNumber = (args: ToolArgs, key: string): number | undefined => {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new Error(`${key} must be a number.`);
+  return value;
+};
+
+const requiredNumber = (args: ToolArgs, key: string): number => {
+  const value = optionalNumber(args, key);
+  if (value === undefined) throw new Error(`${key} is required.`);
+  return value;
+};
+
+const numberList = (args: ToolArgs, key: string): number[] => {
+  const value = args[key];
+  if (!Array.isArray(value) || value.length === 0 || !value.every(item => typeof item === 'number' && Number.isFinite(item))) {
+    throw new Error(`${key} must be a non-empty list of numbers.`);
+  }
+  return value;
+};
+
+const optionalBoolean = (args: ToolArgs, key: string): boolean | undefined => {
+  const value = args[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'boolean') throw new Error(`${key} must be true or false.`);
+  return value;
+};
+
+const requiredString = (args: ToolArgs, key: string): string => {
+  const value = args[key];
+  if (typeof value !== 'string' || !value) throw new Error(`${key} is required.`);
+  return value;
+};
+
+const oneOf = <T extends string>(args: ToolArgs, key: string, values: readonly T[]): T => {
+  const value = args[key];
+  if (!values.includes(value as T)) throw new Error(`${key} must be one of: ${values.join(', ')}.`);
+  return value as T;
+};
+
+const deductionList = (args: ToolArgs): { id: string; amount: number }[] | undefined => {
+  const value = args.deductions;
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value)) throw new Error('deductions must be a list.');
+  return value.map(item => {
+    if (!item || typeof item !== 'object') throw new Error('Each deduction needs an id and an amount.');
+    const deduction = item as ToolArgs;
+    return { id: requiredString(deduction, 'id'), amount: requiredNumber(deduction, 'amount') };
+  });
+};
+
+const CALCULATORS: Record<string, (args: ToolArgs) => unknown> = {
+  break_even_analysis: args => breakEvenAnalysis({
+    fixedCost: requiredNumber(args, 'fixedCost'),
+    sellingPricePerUnit: requiredNumber(args, 'sellingPricePerUnit'),
+    variableCostPerUnit: requiredNumber(args, 'variableCostPerUnit'),
+    targetProfit: optionalNumber(args, 'targetProfit'),
+    actualSalesUnits: optionalNumber(args, 'actualSalesUnits'),
+  }),
+  time_value_of_money: args => timeValueOfMoney({
+    calculate: oneOf(args, 'calculate', ['futureValue', 'presentValue', 'annuityFutureValue', 'annuityPresentValue'] as const),
+    amount: requiredNumber(args, 'amount'),
+    ratePercent: requiredNumber(args, 'ratePercent'),
+    periods: requiredNumber(args, 'periods'),
+    annuityDue: optionalBoolean(args, 'annuityDue'),
+  }),
+  net_present_value: args => netPresentValue({
+    ratePercent: requiredNumber(args, 'ratePercent'),
+    initialInvestment: requiredNumber(args, 'initialInvestment'),
+    cashFlows: numberList(args, 'cashFlows'),
+  }),
+  internal_rate_of_return: args => internalRateOfReturn({
+    initialInvestment: requiredNumber(args, 'initialInvestment'),
+    cashFlows: numberList(args, 'cashFlows'),
+  }),
+  payback_period: args => paybackPeriod({
+    initialInvestment: requiredNumber(args, 'initialInvestment'),
+    cashFlows: numberList(args, 'cashFlows'),
+    discountRatePercent: optionalNumber(args, 'discountRatePercent'),
+  }),
+  depreciation_schedule: args => depreciationSchedule({
+    method: oneOf(args, 'method', ['SLM', 'WDV'] as const),
+    cost: requiredNumber(args, 'cost'),
+    years: requiredNumber(args, 'years'),
+    salvageValue: optionalNumber(args, 'salvageValue'),
+    ratePercent: optionalNumber(args, 'ratePercent'),
+  }),
+  economic_order_quantity: args => economicOrderQuantity({
+    annualDemand: requiredNumber(args, 'annualDemand'),
+    orderingCostPerOrder: requiredNumber(args, 'orderingCostPerOrder'),
+    carryingCostPerUnit: requiredNumber(args, 'carryingCostPerUnit'),
+  }),
+  compute_income_tax: args => computeIncomeTax({
+    packId: requiredString(args, 'packId'),
+    category: requiredString(args, 'category'),
+    grossIncome: requiredNumber(args, 'grossIncome'),
+    deductions: deductionList(args),
+  }),
+  compute_sales_tax: args => computeSalesTax({
+    packId: requiredString(args, 'packId'),
+    amount: requiredNumber(args, 'amount'),
+    ratePercent: optionalNumber(args, 'ratePercent'),
+    inclusive: optionalBoolean(args, 'inclusive'),
+  }),
+};
+
+export const CALCULATOR_LABELS: Record<string, string> = {
+  break_even_analysis: 'Break-even calculator',
+  time_value_of_money: 'TVM calculator',
+  net_present_value: 'NPV calculator',
+  internal_rate_of_return: 'IRR calculator',
+  payback_period: 'Payback calculator',
+  depreciation_schedule: 'Depreciation calculator',
+  economic_order_quantity: 'EOQ calculator',
+  compute_income_tax: 'Income tax engine',
+  compute_sales_tax: 'Sales tax engine',
+};
+
+// Run a tool call requested by the model. Errors are returned to the model rather than thrown.
+export const executeCalculatorTool = (name: string, args: Record<string, unknown>): CalculatorCall => {
+  const calculator = CALCULATORS[name];
+  if (!calculator) {
+    return { name, args, result: null, error: `Unknown calculator: ${name}` };
+  }
+  try {
+    return { name, args, result: calculator(args) };
+  } catch (error) {
+    return { name, args, result: null, error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Collect the figures in a calculator result so the answer can mark them.
+// Year numbers and single digits are skipped; they would match too much ordinary text.
+export const collectResultFigures = (value: unknown, figures: number[] = []): number[] => {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    if (!(Number.isInteger(value) && Math.abs(value) < 10)) figures.push(value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectResultFigures(item, figures));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value)
+      .filter(([key]) => key !== 'year')
+      .forEach(([, item]) => collectResultFigures(item, figures));
+  }
+  return figures;
+};
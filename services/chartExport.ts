@@ -0,0 +1,40 @@
+import { downloadBlob } from './fileUtils';
+
+// Downloads of a rendered chart. The SVG carries its own colours and fonts, so the
+// file looks the same outside the app.
+
+const serializeSvg = (svg: SVGSVGElement) => new XMLSerializer().serializeToString(svg);
+
+export const chartFileName = (title: string) =>
+  title.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').slice(0, 60) || 'acctsolver-chart';
+
+export const downloadChartAsSvg = (svg: SVGSVGElement, fileName: string) => {
+  downloadBlob(new Blob([serializeSvg(svg)], { type: 'image/svg+xml' }), `${fileName}.svg`);
+};
+
+// Draw the SVG onto a canvas at `scale` times its view box size
+export const downloadChartAsPng = async (svg: SVGSVGElement, fileName: string, scale = 2) => {
+  const { width, height } = svg.viewBox.baseVal;
+  const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('Could not draw the chart.'));
+      image.src = url;
+    });
+
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available in this browser.');
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('Could not create the PNG.');
+    downloadBlob(blob, `${fileName}.png`);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,169 @@
+import type { JsonSchema } from './providers/types';
+import { formatNumber } from './localeSettings';
+
+// Charts are drawn by the app from a typed spec the model returns, so every plotted
+// figure is one the model stated and can be checked against the data table.
+
+export type ChartKind = 'line' | 'bar' | 'pie';
+
+export interface ChartSeries {
+  name: string;
+  values: number[]; // One per x value (line) or category (bar, pie)
+}
+
+// A point when both x and y are set, a vertical line for x alone, a horizontal line for y alone
+export interface ChartAnnotation {
+  label: string;
+  x?: number;
+  y?: number;
+}
+
+export interface ChartSpec {
+  kind: ChartKind;
+  title: string;
+  xLabel: string;
+  yLabel: string;
+  xValues: number[]; // Line charts: numeric x axis shared by every series
+  categories: string[]; // Bar and pie charts
+  series: ChartSeries[];
+  annotations: ChartAnnotation[];
+}
+
+const CHART_KINDS: ChartKind[] = ['line', 'bar', 'pie'];
+
+export const CHART_SPEC_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    kind: { type: 'string', enum: CHART_KINDS, description: 'line for curves over a numeric x axis (break-even, supply/demand), bar for comparing categories (budget vs actual), pie for shares of a total' },
+    title: { type: 'string' },
+    xLabel: { type: 'string', description: 'x axis label with its unit, e.g. "Units sold"' },
+    yLabel: { type: 'string', description: 'y axis label with its unit, e.g. "Amount (Rs.)"' },
+    xValues: { type: 'array', items: { type: 'number' }, description: 'line charts only: the x values, ascending' },
+    categories: { type: 'array', items: { type: 'string' }, description: 'bar and pie charts only: the category names' },
+    series: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          values: { type: 'array', items: { type: 'number' }, description: 'one value per x value or category, in the same order' },
+        },
+        required: ['name', 'values'],
+      },
+    },
+    annotations: {
+      type: 'array',
+      description: 'Key points such as the break-even point or the equilibrium',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          x: { type: 'number' },
+          y: { type: 'number' },
+        },
+        required: ['label'],
+      },
+    },
+    summary: { type: 'string', description: 'Two or three sentences explaining what the chart shows, with the key figures' },
+  },
+  required: ['kind', 'title', 'series', 'summary'],
+};
+
+// The values as numbers, or an empty list if any is not a number, so positions stay aligned
+const finiteNumbers = (values: unknown): number[] =>
+  Array.isArray(values) && values.every(v => typeof v === 'number' && Number.isFinite(v)) ? values : [];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isChartKind = (value: unknown): value is ChartKind => CHART_KINDS.includes(value as ChartKind);
+
+const finiteOrUndefined = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+// Check and tidy a chart spec from the model. Returns null when nothing plottable is left.
+export const normalizeChartSpec = (raw: unknown): ChartSpec | null => {
+  if (!isRecord(raw) || !isChartKind(raw.kind)) return null;
+  const kind = raw.kind;
+
+  let xValues = kind === 'line' ? finiteNumbers(raw.xValues) : [];
+  let categories = kind === 'line' ? [] : (Array.isArray(raw.categories) ? raw.categories.map(String) : []);
+  const length = kind === 'line' ? xValues.length : categories.length;
+
+  let series: ChartSeries[] = (Array.isArray(raw.series) ? raw.series : [])
+    .filter(isRecord)
+    .map((s, idx) => ({ name: String(s.name || `Series ${idx + 1}`), values: finiteNumbers(s.values).slice(0, length) }))
+    .filter(s => s.values.length === length);
+  // A pie shows a single series of non-negative shares
+  if (kind === 'pie') series = series.slice(0, 1).filter(s => s.values.every(v => v >= 0) && s.values.some(v => v > 0));
+  if (series.length === 0 || length < (kind === 'line' ? 2 : 1)) return null;
+
+  if (kind === 'line') {
+    // Plot left to right even if the model listed x values out of order
+    const order = xValues.map((_, idx) => idx).sort((a, b) => xValues[a] - xValues[b]);
+    xValues = order.map(idx => xValues[idx]);
+    series = series.map(s => ({ ...s, values: order.map(idx => s.values[idx]) }));
+  }
+
+  const annotations: ChartAnnotation[] = (Array.isArray(raw.annotations) ? raw.annotations : [])
+    .filter(isRecord)
+    .map(a => ({
+      label: String(a.label || ''),
+      x: kind === 'line' ? finiteOrUndefined(a.x) : undefined,
+      y: kind !== 'pie' ? finiteOrUndefined(a.y) : undefined,
+    }))
+    .filter(a => a.label && (a.x !== undefined || a.y !== undefined));
+
+  return {
+    kind,
+    title: String(raw.title || 'Chart'),
+    xLabel: String(raw.xLabel || ''),
+    yLabel: String(raw.yLabel || ''),
+    xValues,
+    categories,
+    series,
+    annotations,
+  };
+};
+
+// Labels along the x axis, in plotting order
+export const chartLabels = (spec: ChartSpec): string[] =>
+  spec.kind === 'line' ? spec.xValues.map(x => formatNumber(x)) : spec.categories;
+
+// About `count` evenly spaced round numbers covering min..max, e.g. 0, 2000, 4000
+export const niceTicks = (min: number, max: number, count = 5): number[] => {
+  if (min === max) {
+    min = min > 0 ? 0 : min - 1;
+    max = max > 0 ? max : max + 1;
+  }
+  const rough = (max - min) / count;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 2.5, 5, 10].map(m => m * magnitude).find(s => s >= rough) || rough;
+  const ticks: number[] = [];
+  for (let tick = Math.floor(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(Math.round(tick / step) * step);
+  }
+  if (ticks[ticks.length - 1] < max) ticks.push(ticks[ticks.length - 1] + step);
+  return ticks;
+};
+
+// The chart's figures as a Markdown table, for exports and as context for follow-up questions
+export const chartToMarkdownTable = (spec: ChartSpec): string => {
+  const header = spec.xLabel || (spec.kind === 'line' ? 'x' : 'Category');
+  const lines = [
+    `**${spec.title}**`,
+    '',
+    `| ${header} | ${spec.series.map(s => s.name).join(' | ')} |`,
+    `|---|${spec.series.map(() => '---:').join('|')}|`,
+    ...chartLabels(spec).map((label, idx) => `| ${label} | ${spec.series.map(s => formatNumber(s.values[idx])).join(' | ')} |`),
+  ];
+  if (spec.annotations.length) {
+    lines.push('', ...spec.annotations.map(a => {
+      const position = [a.x !== undefined ? `x = ${formatNumber(a.x)}` : '', a.y !== undefined ? `y = ${formatNumber(a.y)}` : '']
+        .filter(Boolean)
+        .join(', ');
+      return `- ${a.label} (${position})`;
+    }));
+  }
+  return lines.join('\n');
+};
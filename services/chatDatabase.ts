@@ -0,0 +1,89 @@
+// Thin promise wrapper around the IndexedDB database that holds saved chats.
+// Conversations are stored without file contents; attachments and generated
+// images live in their own store as Blobs and are referenced by ID.
+// Version 2 adds the quiz attempt history, version 3 the flashcards, version 4 the
+// document library.
+
+const DB_NAME = 'acctsolver';
+const DB_VERSION = 4;
+
+export const CONVERSATIONS_STORE = 'conversations';
+export const ATTACHMENTS_STORE = 'attachments';
+export const META_STORE = 'meta';
+export const QUIZ_ATTEMPTS_STORE = 'quizAttempts';
+export const FLASHCARDS_STORE = 'flashcards';
+export const DOCUMENTS_STORE = 'documents';
+
+export interface StoredAttachment {
+  id: string;
+  blob: Blob;
+  mimeType: string;
+  name: string;
+}
+
+// Raised when the browser refuses a write because the storage quota is used up
+export class StorageFullError extends Error {
+  constructor(message = 'Browser storage is full.') {
+    super(message);
+    this.name = 'StorageFullError';
+  }
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(ATTACHMENTS_STORE)) {
+        db.createObjectStore(ATTACHMENTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE);
+      }
+      if (!db.objectStoreNames.contains(QUIZ_ATTEMPTS_STORE)) {
+        db.createObjectStore(QUIZ_ATTEMPTS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(FLASHCARDS_STORE)) {
+        db.createObjectStore(FLASHCARDS_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+        db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null; // Allow a later retry
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const isQuotaError = (error: DOMException | null) => error?.name === 'QuotaExceededError';
+
+// Resolve when a transaction commits, translating quota failures into StorageFullError
+export const completeTransaction = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    const fail = () => {
+      reject(isQuotaError(tx.error) ? new StorageFullError() : tx.error);
+    };
+    tx.onerror = fail;
+    tx.onabort = fail;
+  });
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
@@ -0,0 +1,113 @@
+// Answer modes a question can be sent in. Each mode is picked with a chip or a slash
+// command in the input box and stored on the question, so its text stays as typed.
+
+export type ChatModeId = 'explain' | 'exam' | 'chart';
+
+export interface ChatMode {
+  id: ChatModeId;
+  command: string; // Slash command that selects the mode, e.g. "/exam"
+  label: string;
+  description: string;
+  icon: string; // lucide-react icon name
+  // Tailwind classes for the toolbar button (active and idle) and the chip on sent questions
+  activeClass: string;
+  idleClass: string;
+  chipClass: string;
+  // 'chart' asks for a chart spec that the app draws, instead of a prose answer
+  output: 'text' | 'chart';
+  temperature?: number;
+  systemInstruction?: string; // Added to the system instruction for questions in this mode
+  // Wrap the typed text before it reaches the model
+  buildPrompt?: (text: string) => string;
+}
+
+export const CHAT_MODES: Record<ChatModeId, ChatMode> = {
+  explain: {
+    id: 'explain',
+    command: '/explain',
+    label: 'Explain Concept',
+    description: 'Definition, explanation, example and exam points',
+    icon: 'Lightbulb',
+    activeClass: 'bg-indigo-100 text-indigo-600',
+    idleClass: 'text-slate-400 hover:text-indigo-600 hover:bg-indigo-50',
+    chipClass: 'bg-indigo-50 text-indigo-700 border-indigo-100',
+    output: 'text',
+    buildPrompt: text => `Explain the concept of ${text}`,
+  },
+  exam: {
+    id: 'exam',
+    command: '/exam',
+    label: 'Exam Note',
+    description: 'Short, high-yield revision answer',
+    icon: 'Zap',
+    activeClass: 'bg-amber-100 text-amber-600',
+    idleClass: 'text-slate-400 hover:text-amber-500 hover:bg-amber-50',
+    chipClass: 'bg-amber-50 text-amber-700 border-amber-100',
+    output: 'text',
+    temperature: 0.2,
+    systemInstruction: [
+      'Exam Note Mode:',
+      '- This question asks for a **concise, high-yield summary** suitable for last-minute revision.',
+      '- **Limit the response to 150 words.**',
+      '- Use bullet points and highlight keywords in **bold**.',
+      '- Focus strictly on scoring points and definitions; skip long examples and introductions.',
+    ].join('\n'),
+  },
+  chart: {
+    id: 'chart',
+    command: '/chart',
+    label: 'Chart',
+    description: 'Draw a chart with its data table',
+    icon: 'PieChart',
+    activeClass: 'bg-emerald-100 text-emerald-600',
+    idleClass: 'text-slate-400 hover:text-emerald-500 hover:bg-emerald-50',
+    chipClass: 'bg-emerald-50 text-emerald-700 border-emerald-100',
+    output: 'chart',
+    temperature: 0.2,
+    systemInstruction: [
+      'Chart Mode:',
+      '- Answer with a chart spec. Work out every figure first and plot exact values, not estimates.',
+      '- For curves such as cost-volume-profit or supply and demand use a line chart with enough x values to show where lines cross, and annotate the break-even point or equilibrium with its x and y.',
+      '- Label both axes with their units.',
+    ].join('\n'),
+    buildPrompt: text => `Draw a chart for: ${text}`,
+  },
+};
+
+export const CHAT_MODE_LIST = Object.values(CHAT_MODES);
+
+export const getChatMode = (id: ChatModeId | null | undefined): ChatMode | undefined =>
+  id ? CHAT_MODES[id] : undefined;
+
+// Read a leading slash command, e.g. "/exam matching concept" gives the exam mode and
+// "matching concept". Returns null when the text does not start with a known command.
+export const parseSlashCommand = (text: string): { mode: ChatModeId; text: string } | null => {
+  const match = text.match(/^\/(\w+)(?:\s+|$)/);
+  if (!match) return null;
+  const mode = CHAT_MODE_LIST.find(m => m.command === `/${match[1].toLowerCase()}`);
+  return mode ? { mode: mode.id, text: text.slice(match[0].length) } : null;
+};
+
+// Commands that start with what has been typed so far, for the suggestion list
+export const matchSlashCommands = (text: string): ChatMode[] => {
+  if (!/^\/\w*$/.test(text)) return [];
+  return CHAT_MODE_LIST.filter(mode => mode.command.startsWith(text.toLowerCase()));
+};
+
+// Questions saved before modes existed carry them as a text prefix
+const LEGACY_PREFIXES: { prefix: string; mode: ChatModeId }[] = [
+  { prefix: 'Explain the concept of ', mode: 'explain' },
+  { prefix: 'Exam Note:', mode: 'exam' },
+  { prefix: 'Generate Image:', mode: 'chart' },
+];
+
+export const modeFromLegacyPrefix = (text: string): { mode: ChatModeId; text: string } | null => {
+  const legacy = LEGACY_PREFIXES.find(({ prefix }) => text.startsWith(prefix));
+  return legacy ? { mode: legacy.mode, text: text.slice(legacy.prefix.length).trim() } : null;
+};
+
+// The text a question is sent to the model as, with its mode's wrapping applied
+export const questionPrompt = (message: { text: string; mode?: ChatModeId }) => {
+  const mode = getChatMode(message.mode);
+  return mode?.buildPrompt ? mode.buildPrompt(message.text) : message.text;
+};
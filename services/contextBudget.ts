@@ -0,0 +1,122 @@
+import { Attachment, Message } from '../types';
+import { isTextBased } from './fileUtils';
+import { chartToMarkdownTable } from './chartSpec';
+
+// Keeps the history sent with a question within a token budget. Attachments of older
+// turns are replaced by a note, and once the history outgrows the budget the oldest
+// turns are folded into a rolling summary written by the model.
+
+export interface ContextSummary {
+  text: string;
+  throughMessageId: string; // Last message folded in; the summary applies to branches through it
+  messageCount: number; // Messages it stands in for
+}
+
+export interface ContextPlan {
+  summary: ContextSummary | null; // Summary that applies to this branch, if any
+  history: Message[]; // Messages after the summary, sent as they are
+  toSummarize: Message[]; // Older messages to fold into the summary before sending
+  estimatedTokens: number; // Summary plus history, once the fold is done
+}
+
+// Tokens of history sent with a question, on top of the instructions and the question itself
+export const CONTEXT_TOKEN_BUDGET = 24000;
+
+// After a fold the history is brought down to this share of the budget, so the next
+// few turns fit without another summary
+const FOLD_TARGET = 0.5;
+
+// The latest messages always go verbatim
+const RECENT_MESSAGES_KEPT = 6;
+
+// Only the latest attached files are resent; older ones are named in a note
+const ATTACHMENTS_RESENT = 2;
+
+// Allowance for a summary that has not been written yet
+const SUMMARY_TOKENS_ESTIMATE = 600;
+
+// Rough token counts: about four characters per token for English text, a flat
+// cost for an image and per page (taken as ~50 KB) for a PDF
+const IMAGE_TOKENS = 258;
+const PDF_PAGE_TOKENS = 258;
+const PDF_BYTES_PER_PAGE = 50 * 1024;
+
+export const estimateTextTokens = (text: string) => Math.ceil(text.length / 4);
+
+export const estimateAttachmentTokens = (attachment: Attachment): number => {
+  if (attachment.documentId) return 20; // Only its name is sent; passages are counted with the question
+  const bytes = Math.floor((attachment.data.split(',')[1] || attachment.data).length * 0.75);
+  if (attachment.mimeType.startsWith('image/')) return IMAGE_TOKENS;
+  if (isTextBased(attachment.mimeType)) return Math.ceil(bytes / 4);
+  return PDF_PAGE_TOKENS * Math.max(1, Math.ceil(bytes / PDF_BYTES_PER_PAGE));
+};
+
+// Drop failed answers, and the questions they answered, so errors never become context
+export const withoutFailedTurns = (history: Message[]): Message[] =>
+  history.filter((msg, idx) => !msg.error && !(msg.role === 'user' && history[idx + 1]?.error));
+
+// Messages whose attachments are still sent in full
+export const resentAttachmentIds = (history: Message[]): Set<string> =>
+  new Set(history.filter(msg => msg.attachments?.length || msg.image).slice(-ATTACHMENTS_RESENT).map(msg => msg.id));
+
+const messageTokens = (msg: Message, resent: Set<string>): number => {
+  let tokens = estimateTextTokens(msg.text) + (msg.chart ? estimateTextTokens(chartToMarkdownTable(msg.chart)) : 0);
+  if (msg.attachments?.length) {
+    tokens += msg.attachments.reduce((sum, attachment) => sum + (resent.has(msg.id) ? estimateAttachmentTokens(attachment) : 20), 0);
+  } else if (msg.image) tokens += resent.has(msg.id) ? IMAGE_TOKENS : 20;
+  return tokens;
+};
+
+const historyTokens = (history: Message[]): number => {
+  const resent = resentAttachmentIds(history);
+  return history.reduce((sum, msg) => sum + messageTokens(msg, resent), 0);
+};
+
+// Work out what to send for the branch `history` (oldest first), given the conversation's
+// summaries. Summaries made on other branches do not describe this one and are skipped.
+export const planContext = (history: Message[], summaries: Record<string, ContextSummary> = {}): ContextPlan => {
+  const sendable = withoutFailedTurns(history);
+  let cut = sendable.length - 1;
+  while (cut >= 0 && !summaries[sendable[cut].id]) cut--;
+  const summary = cut >= 0 ? summaries[sendable[cut].id] : null;
+  const after = sendable.slice(cut + 1);
+
+  const summaryTokens = summary ? estimateTextTokens(summary.text) : 0;
+  const total = summaryTokens + historyTokens(after);
+  if (total <= CONTEXT_TOKEN_BUDGET) {
+    return { summary, history: after, toSummarize: [], estimatedTokens: total };
+  }
+
+  // Fold whole turns, oldest first, so the history kept starts with a question
+  const target = CONTEXT_TOKEN_BUDGET * FOLD_TARGET - (summary ? summaryTokens : SUMMARY_TOKENS_ESTIMATE);
+  let split = 0;
+  for (let idx = 0; idx < after.length - RECENT_MESSAGES_KEPT; idx++) {
+    if (after[idx].role === 'model' && after[idx + 1]?.role === 'user') {
+      split = idx + 1;
+      if (historyTokens(after.slice(split)) <= target) break;
+    }
+  }
+  if (split === 0) {
+    // Nothing old enough to fold; the recent turns are sent as they are
+    return { summary, history: after, toSummarize: [], estimatedTokens: total };
+  }
+
+  const kept = after.slice(split);
+  return {
+    summary,
+    history: kept,
+    toSummarize: after.slice(0, split),
+    estimatedTokens: Math.max(summaryTokens, SUMMARY_TOKENS_ESTIMATE) + historyTokens(kept),
+  };
+};
+
+// Plain transcript of turns for the summarizer; files are named, not included
+export const transcriptForSummary = (messages: Message[]): string =>
+  messages
+    .map(msg => {
+      const speaker = msg.role === 'user' ? 'Student' : 'Tutor';
+      const file = msg.attachments?.length ? ` [attached ${msg.attachments.map(att => att.name).join(', ')}]` : '';
+      const chart = msg.chart ? `\n${chartToMarkdownTable(msg.chart)}` : '';
+      return `${speaker}${file}: ${msg.text}${chart}`;
+    })
+    .join('\n\n');
@@ -0,0 +1,328 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Attachment, Conversation, Message } from '../types';
+import {
+  openDatabase,
+  completeTransaction,
+  requestToPromise,
+  StoredAttachment,
+  CONVERSATIONS_STORE,
+  ATTACHMENTS_STORE,
+  META_STORE,
+} from './chatDatabase';
+import { dataUrlToBlob, blobToDataUrl } from './fileUtils';
+import { withTreeLinks } from './conversationTree';
+import { modeFromLegacyPrefix } from './chatModes';
+import { ContextSummary } from './contextBudget';
+
+// localStorage keys from before the IndexedDB store; read once for migration
+const LOCAL_STORAGE_KEY = 'acctsolver_conversations';
+// Single-session blob written by the first versions of the app
+const LEGACY_STORAGE_KEY = 'acctsolver_chat_state';
+
+const ACTIVE_CONVERSATION_KEY = 'activeConversationId';
+
+export const DEFAULT_TITLE = 'New Chat';
+const MAX_TITLE_LENGTH = 48;
+
+export interface ConversationLibrary {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+}
+
+export const createConversation = (selectedSubject: string | null = null): Conversation => {
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    title: DEFAULT_TITLE,
+    messages: [],
+    activeLeafId: null,
+    selectedSubject,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Build a short sidebar title from the first question of a conversation
+export const generateTitle = (text: string): string => {
+  const firstLine = text.trim().split('\n')[0].replace(/\s+/g, ' ');
+  if (!firstLine) return DEFAULT_TITLE;
+  if (firstLine.length <= MAX_TITLE_LENGTH) return firstLine;
+
+  // Cut at the last word boundary that fits
+  const cut = firstLine.slice(0, MAX_TITLE_LENGTH);
+  const lastSpace = cut.lastIndexOf(' ');
+  return `${(lastSpace > 20 ? cut.slice(0, lastSpace) : cut).trim()}…`;
+};
+
+export const duplicateConversation = (source: Conversation): Conversation => {
+  const now = new Date();
+  // Fresh ids so the copy can diverge from the original; branch links follow the new ids
+  const newIds = new Map(source.messages.map(msg => [msg.id, uuidv4()]));
+  const remap = (id: string | null) => (id ? newIds.get(id) ?? null : null);
+  return {
+    ...source,
+    id: uuidv4(),
+    title: `${source.title} (copy)`,
+    messages: source.messages.map(msg => ({ ...msg, id: newIds.get(msg.id)!, parentId: remap(msg.parentId) })),
+    activeLeafId: remap(source.activeLeafId),
+    contextSummaries: source.contextSummaries && Object.fromEntries(Object.values(source.contextSummaries)
+      .filter(summary => newIds.has(summary.throughMessageId))
+      .map(summary => [newIds.get(summary.throughMessageId)!, { ...summary, throughMessageId: newIds.get(summary.throughMessageId)! }])),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Older versions saved failures as this model text
+const LEGACY_ERROR_TEXT = "I encountered an error while processing your request. Please try again.";
+
+// A message as it was saved: timestamps are strings in localStorage and Dates in IndexedDB
+interface SavedMessage extends Omit<Message, 'timestamp'> {
+  timestamp: string | Date;
+  attachment?: Attachment; // Messages used to carry a single file
+}
+
+interface SavedConversation extends Omit<Conversation, 'messages' | 'createdAt' | 'updatedAt'> {
+  messages?: SavedMessage[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Restore Date objects from string timestamps. `legacyPrefixes` is set for data saved
+// before answer modes were stored, whose questions carried the mode as a text prefix.
+const reviveMessage = ({ attachment, ...msg }: SavedMessage, legacyPrefixes: boolean): Message => {
+  const message: Message = {
+    ...msg,
+    attachments: msg.attachments ?? (attachment ? [attachment] : undefined),
+    timestamp: new Date(msg.timestamp),
+    isStreaming: false, // A stream cannot survive a reload
+  };
+  if (message.role === 'model' && message.text === LEGACY_ERROR_TEXT) {
+    return { ...message, text: '', error: { code: 'unknown', message: LEGACY_ERROR_TEXT } };
+  }
+  const legacyMode = legacyPrefixes && message.role === 'user' && !message.mode ? modeFromLegacyPrefix(message.text) : null;
+  if (legacyMode) {
+    return { ...message, text: legacyMode.text, mode: legacyMode.mode };
+  }
+  return message;
+};
+
+const reviveConversation = (conv: SavedConversation): Conversation => withTreeLinks({
+  ...conv,
+  messages: (conv.messages || []).map(msg => reviveMessage(msg, true)),
+  createdAt: new Date(conv.createdAt),
+  updatedAt: new Date(conv.updatedAt),
+});
+
+// Convert the legacy single-session state into a one-conversation library
+const migrateLegacyState = (raw: string): ConversationLibrary => {
+  const parsed: { messages?: SavedMessage[]; selectedSubject?: string | null } = JSON.parse(raw);
+  const messages = (parsed.messages || []).map(msg => reviveMessage(msg, true));
+  if (messages.length === 0) {
+    return { conversations: [], activeConversationId: null };
+  }
+
+  const firstQuestion = messages.find(msg => msg.role === 'user');
+  const conversation: Conversation = withTreeLinks({
+    ...createConversation(parsed.selectedSubject ?? null),
+    title: generateTitle(firstQuestion?.text || ''),
+    messages,
+    activeLeafId: messages[messages.length - 1].id,
+    createdAt: messages[0].timestamp,
+    updatedAt: messages[messages.length - 1].timestamp,
+  });
+  return { conversations: [conversation], activeConversationId: conversation.id };
+};
+
+// Read whatever earlier versions left in localStorage, or null if there is nothing
+const readLocalStorageLibrary = (): ConversationLibrary | null => {
+  try {
+    const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+    if (saved) {
+      const parsed: { conversations?: SavedConversation[]; activeConversationId?: string | null } = JSON.parse(saved);
+      return {
+        conversations: (parsed.conversations || []).map(reviveConversation),
+        activeConversationId: parsed.activeConversationId ?? null,
+      };
+    }
+
+    const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+    if (legacy) {
+      return migrateLegacyState(legacy);
+    }
+  } catch (error) {
+    console.error("Failed to read conversations from localStorage:", error);
+  }
+  return null;
+};
+
+interface AttachmentRef {
+  id: string;
+  mimeType: string;
+  name: string;
+  documentId?: string;
+}
+
+// Stored form of a message: file contents are replaced by attachment-store IDs
+interface StoredMessage extends Omit<Message, 'attachments' | 'image'> {
+  attachmentRefs?: AttachmentRef[];
+  attachmentRef?: AttachmentRef; // Written before messages could carry several files
+  imageRef?: string;
+}
+
+interface StoredConversation extends Omit<Conversation, 'messages'> {
+  messages: StoredMessage[];
+  schemaVersion?: number; // Missing on conversations saved before answer modes were stored
+  contextSummary?: ContextSummary; // Written before each branch kept its own summary
+}
+
+const STORED_SCHEMA_VERSION = 2;
+
+// Attachment IDs are derived from the owning message so re-saving is idempotent.
+// The first file keeps the ID it had when a message held only one.
+const attachmentIdFor = (messageId: string, index: number) =>
+  index === 0 ? `${messageId}:attachment` : `${messageId}:attachment:${index}`;
+const imageIdFor = (messageId: string) => `${messageId}:image`;
+
+// IDs already written to the attachment store, so unchanged files are not rewritten
+const savedAttachmentIds = new Set<string>();
+
+const toStoredConversation = (conv: Conversation, pending: StoredAttachment[]): StoredConversation => ({
+  ...conv,
+  schemaVersion: STORED_SCHEMA_VERSION,
+  messages: conv.messages.map(({ attachments, image, ...msg }) => {
+    const stored: StoredMessage = { ...msg, isStreaming: false };
+
+    if (attachments?.length) {
+      stored.attachmentRefs = attachments.map((attachment, index) => {
+        const id = attachmentIdFor(msg.id, index);
+        if (!savedAttachmentIds.has(id)) {
+          pending.push({ id, blob: dataUrlToBlob(attachment.data, attachment.mimeType), mimeType: attachment.mimeType, name: attachment.name });
+        }
+        return { id, mimeType: attachment.mimeType, name: attachment.name, documentId: attachment.documentId };
+      });
+    }
+
+    if (image) {
+      const id = imageIdFor(msg.id);
+      stored.imageRef = id;
+      if (!savedAttachmentIds.has(id)) {
+        pending.push({ id, blob: dataUrlToBlob(image, 'image/png'), mimeType: 'image/png', name: 'Generated image' });
+      }
+    }
+
+    return stored;
+  }),
+});
+
+const fromStoredConversation = async (
+  stored: StoredConversation,
+  attachments: Map<string, StoredAttachment>,
+): Promise<Conversation> => {
+  const messages = await Promise.all(stored.messages.map(async ({ attachmentRefs, attachmentRef, imageRef, ...msg }) => {
+    const restored: Message = reviveMessage(msg, !stored.schemaVersion);
+
+    const refs = attachmentRefs ?? (attachmentRef ? [attachmentRef] : []);
+    const restoredAttachments = await Promise.all(refs
+      .filter(ref => attachments.has(ref.id))
+      .map(async ref => ({
+        data: await blobToDataUrl(attachments.get(ref.id)!.blob),
+        mimeType: ref.mimeType,
+        name: ref.name,
+        documentId: ref.documentId,
+      })));
+    if (restoredAttachments.length) {
+      restored.attachments = restoredAttachments;
+    }
+
+    const imageBlob = imageRef && attachments.get(imageRef);
+    if (imageBlob) {
+      restored.image = await blobToDataUrl(imageBlob.blob);
+    }
+
+    return restored;
+  }));
+
+  const { schemaVersion, contextSummary, ...conv } = stored;
+  return withTreeLinks({
+    ...conv,
+    contextSummaries: conv.contextSummaries ?? (contextSummary ? { [contextSummary.throughMessageId]: contextSummary } : undefined),
+    messages,
+    createdAt: new Date(stored.createdAt),
+    updatedAt: new Date(stored.updatedAt),
+  });
+};
+
+export const loadLibrary = async (): Promise<ConversationLibrary> => {
+  try {
+    const db = await openDatabase();
+    const tx = db.transaction([CONVERSATIONS_STORE, ATTACHMENTS_STORE, META_STORE], 'readonly');
+    const [storedConversations, storedAttachments, activeConversationId] = await Promise.all([
+      requestToPromise(tx.objectStore(CONVERSATIONS_STORE).getAll() as IDBRequest<StoredConversation[]>),
+      requestToPromise(tx.objectStore(ATTACHMENTS_STORE).getAll() as IDBRequest<StoredAttachment[]>),
+      requestToPromise(tx.objectStore(META_STORE).get(ACTIVE_CONVERSATION_KEY) as IDBRequest<string | undefined>),
+    ]);
+
+    if (storedConversations.length === 0) {
+      // First run on IndexedDB: move any localStorage data across
+      const migrated = readLocalStorageLibrary();
+      if (migrated) {
+        await saveLibrary(migrated);
+        localStorage.removeItem(LOCAL_STORAGE_KEY);
+        localStorage.removeItem(LEGACY_STORAGE_KEY);
+        return migrated;
+      }
+    }
+
+    const attachments = new Map(storedAttachments.map(att => [att.id, att]));
+    attachments.forEach((_, id) => savedAttachmentIds.add(id));
+
+    return {
+      conversations: await Promise.all(storedConversations.map(conv => fromStoredConversation(conv, attachments))),
+      activeConversationId: activeConversationId ?? null,
+    };
+  } catch (error) {
+    console.error("Failed to load conversations from IndexedDB:", error);
+    // Fall back to anything still in localStorage so nothing appears lost
+    return readLocalStorageLibrary() || { conversations: [], activeConversationId: null };
+  }
+};
+
+// Write the library to IndexedDB. Throws StorageFullError when the quota is exhausted.
+export const saveLibrary = async (library: ConversationLibrary): Promise<void> => {
+  // Empty drafts are not worth keeping across reloads
+  const conversations = library.conversations.filter(conv => conv.messages.length > 0);
+
+  const pendingAttachments: StoredAttachment[] = [];
+  const storedConversations = conversations.map(conv => toStoredConversation(conv, pendingAttachments));
+  const referencedIds = new Set<string>();
+  storedConversations.forEach(conv => conv.messages.forEach(msg => {
+    msg.attachmentRefs?.forEach(ref => referencedIds.add(ref.id));
+    if (msg.imageRef) referencedIds.add(msg.imageRef);
+  }));
+
+  const db = await openDatabase();
+  const tx = db.transaction([CONVERSATIONS_STORE, ATTACHMENTS_STORE, META_STORE], 'readwrite');
+  const conversationStore = tx.objectStore(CONVERSATIONS_STORE);
+  const attachmentStore = tx.objectStore(ATTACHMENTS_STORE);
+
+  // Remove deleted conversations and files no message points to any more
+  const keptConversationIds = new Set(storedConversations.map(conv => conv.id));
+  const existingConversationIds = await requestToPromise(conversationStore.getAllKeys());
+  existingConversationIds
+    .filter(id => !keptConversationIds.has(id as string))
+    .forEach(id => conversationStore.delete(id));
+
+  const existingAttachmentIds = await requestToPromise(attachmentStore.getAllKeys());
+  const orphanedIds = existingAttachmentIds.filter(id => !referencedIds.has(id as string));
+  orphanedIds.forEach(id => attachmentStore.delete(id));
+
+  storedConversations.forEach(conv => conversationStore.put(conv));
+  pendingAttachments.forEach(att => attachmentStore.put(att));
+  tx.objectStore(META_STORE).put(library.activeConversationId, ACTIVE_CONVERSATION_KEY);
+
+  await completeTransaction(tx);
+
+  orphanedIds.forEach(id => savedAttachmentIds.delete(id as string));
+  pendingAttachments.forEach(att => savedAttachmentIds.add(att.id));
+};
@@ -0,0 +1,44 @@
+import { Conversation, Message } from '../types';
+
+// A conversation is a tree of messages linked by parentId. Editing a question or
+// regenerating an answer adds a sibling instead of replacing later turns; the
+// branch on screen runs from the root to `activeLeafId`.
+
+// Messages from the root to the active leaf, in order
+export const getActivePath = (conversation: Conversation): Message[] => {
+  const byId = new Map(conversation.messages.map(msg => [msg.id, msg]));
+  const path: Message[] = [];
+
+  let current = conversation.activeLeafId ? byId.get(conversation.activeLeafId) : undefined;
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return path;
+};
+
+// Alternative versions of a message (including itself), oldest first
+export const getSiblings = (conversation: Conversation, message: Message): Message[] =>
+  conversation.messages.filter(msg => msg.parentId === message.parentId && msg.role === message.role);
+
+// Follow the newest child at each step to find where a branch currently ends
+export const findLatestLeaf = (conversation: Conversation, messageId: string): string => {
+  let leafId = messageId;
+  while (true) {
+    const children = conversation.messages.filter(msg => msg.parentId === leafId);
+    if (children.length === 0) return leafId;
+    leafId = children[children.length - 1].id;
+  }
+};
+
+// Chats saved before branching were flat lists: link each message to the one before it.
+// Stored data may lack the fields entirely, hence the undefined checks.
+export const withTreeLinks = (conversation: Conversation): Conversation => {
+  const messages = conversation.messages.map((msg, idx) => (
+    msg.parentId === undefined ? { ...msg, parentId: conversation.messages[idx - 1]?.id ?? null } : msg
+  ));
+  const activeLeafId = conversation.activeLeafId === undefined
+    ? messages[messages.length - 1]?.id ?? null
+    : conversation.activeLeafId;
+  return { ...conversation, messages, activeLeafId };
+};
@@ -0,0 +1,160 @@
+// Textbooks in the document library are split into page-sized passages and searched
+// with BM25 in the browser, so each question carries only the passages it needs.
+
+export interface LibraryDocument {
+  id: string;
+  name: string;
+  size: number; // Bytes of the original PDF
+  pageCount: number;
+  addedAt: Date;
+}
+
+// A passage quoted to the model for one answer; the answer cites it as [Source n]
+export interface SourcePassage {
+  documentId: string;
+  documentName: string;
+  page: number; // 1-based
+  text: string;
+}
+
+export interface SearchIndex {
+  passages: SourcePassage[];
+  termCounts: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+// Passage length aimed for; passages never cross a page so the citation stays exact
+const MAX_PASSAGE_CHARS = 1200;
+
+// BM25 parameters, the usual defaults
+const K1 = 1.2;
+const B = 0.75;
+
+// Passages scoring below this share of the best match are left out as noise
+const MIN_RELATIVE_SCORE = 0.25;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'not', 'of', 'on', 'or', 'so', 'that', 'the',
+  'their', 'then', 'there', 'these', 'this', 'to', 'was', 'we', 'what', 'when', 'which', 'who', 'why', 'will',
+  'with', 'you', 'your', 'explain', 'question', 'solve', 'please', 'give', 'example',
+]);
+
+// Lower-case words and figures, with stop words dropped and a plain plural folded
+export const tokenize = (text: string): string[] =>
+  (text.toLowerCase().match(/[a-z]+|\d+(?:[.,]\d+)*/g) || [])
+    .filter(token => !STOP_WORDS.has(token) && (token.length > 1 || /\d/.test(token)))
+    .map(token => (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+
+// Split one page into passages at paragraph and sentence breaks
+export const splitPage = (pageText: string): string[] => {
+  const sentences = pageText
+    .split(/\n{2,}|(?<=[.!?:])\s+(?=[A-Z0-9(])/)
+    .map(part => part.replace(/\s+/g, ' ').trim())
+    .filter(Boolean);
+
+  const passages: string[] = [];
+  let current = '';
+  sentences.forEach(sentence => {
+    if (current && current.length + sentence.length + 1 > MAX_PASSAGE_CHARS) {
+      passages.push(current);
+      current = '';
+    }
+    // A single overlong sentence (e.g. a flattened table) is cut at the limit
+    for (let start = 0; start < sentence.length; start += MAX_PASSAGE_CHARS) {
+      const piece = sentence.slice(start, start + MAX_PASSAGE_CHARS);
+      current = current ? `${current} ${piece}` : piece;
+      if (current.length >= MAX_PASSAGE_CHARS) {
+        passages.push(current);
+        current = '';
+      }
+    }
+  });
+  if (current) passages.push(current);
+  return passages;
+};
+
+export const buildSearchIndex = (passages: SourcePassage[]): SearchIndex => {
+  const documentFrequency = new Map<string, number>();
+  const termCounts = passages.map(passage => {
+    const counts = new Map<string, number>();
+    tokenize(passage.text).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+    counts.forEach((_, token) => documentFrequency.set(token, (documentFrequency.get(token) || 0) + 1));
+    return counts;
+  });
+  const lengths = termCounts.map(counts => [...counts.values()].reduce((sum, n) => sum + n, 0));
+  const averageLength = lengths.reduce((sum, n) => sum + n, 0) / (lengths.length || 1);
+  return { passages, termCounts, lengths, documentFrequency, averageLength };
+};
+
+// The best matching passages for a question, best first
+export const searchPassages = (index: SearchIndex, query: string, limit = 5): SourcePassage[] => {
+  const terms = [...new Set(tokenize(query))];
+  const total = index.passages.length;
+  if (terms.length === 0 || total === 0) return [];
+
+  const scored = index.termCounts
+    .map((counts, idx) => {
+      const lengthNorm = 1 - B + B * (index.lengths[idx] / (index.averageLength || 1));
+      const score = terms.reduce((sum, term) => {
+        const frequency = counts.get(term);
+        if (!frequency) return sum;
+        const df = index.documentFrequency.get(term) || 0;
+        const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+        return sum + idf * (frequency * (K1 + 1)) / (frequency + K1 * lengthNorm);
+      }, 0);
+      return { idx, score };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+
+  const best = scored[0]?.score || 0;
+  return scored
+    .filter(result => result.score >= best * MIN_RELATIVE_SCORE)
+    .slice(0, limit)
+    .map(result => index.passages[result.idx]);
+};
+
+// The passages as quoted in the question, numbered for citation
+export const formatPassagesForPrompt = (sources: SourcePassage[]): string => [
+  '[Library passages]',
+  ...sources.map((source, idx) => `[Source ${idx + 1}] ${source.documentName}, page ${source.page}:\n${source.text}`),
+  '[End of passages]',
+].join('\n\n');
+
+export const citationLabel = (source: SourcePassage) => `${source.documentName}, p. ${source.page}`;
+
+// [Source 2] or [Sources 1, 3] as written by the model
+const CITATION_PATTERN = /\[Sources? (\d+(?:\s*(?:,|and)\s*\d+)*)\]/g;
+
+const replaceCitations = (
+  text: string,
+  sources: SourcePassage[],
+  format: (source: SourcePassage, number: number) => string,
+): string => {
+  if (sources.length === 0) return text;
+  return text.replace(CITATION_PATTERN, (match, list: string) => {
+    const numbers = list.split(/\s*(?:,|and)\s*/).map(Number);
+    if (numbers.some(n => !sources[n - 1])) return match; // Leave numbers the answer was not given alone
+    return numbers.map(n => format(sources[n - 1], n)).join(' ');
+  });
+};
+
+// Markdown links the chat view turns into buttons that open the passage
+export const linkCitations = (text: string, sources: SourcePassage[]): string =>
+  replaceCitations(text, sources, (source, n) => `[${citationLabel(source).replace(/[[\]]/g, '')}](#source-${n})`);
+
+// Plain "(Book, p. 12)" references, for exports
+export const citationsToText = (text: string, sources: SourcePassage[]): string =>
+  replaceCitations(text, sources, source => `(${citationLabel(source)})`);
+
+// Reference list under an exported answer
+export const sourcesToMarkdown = (sources: SourcePassage[]): string =>
+  `**Sources:** ${sources.map(citationLabel).join('; ')}`;
+
+export const sourceNumberFromHref = (href?: string): number | null => {
+  const match = href?.match(/^#source-(\d+)$/);
+  return match ? Number(match[1]) : null;
+};
@@ -0,0 +1,94 @@
+import { v4 as uuidv4 } from 'uuid';
+import { openDatabase, completeTransaction, requestToPromise, DOCUMENTS_STORE } from './chatDatabase';
+import { LibraryDocument, SourcePassage, SearchIndex, buildSearchIndex, searchPassages, splitPage } from './documentLibrary';
+import { readPdfPages } from './pdfText';
+
+// Stored with the page texts the passages are cut from and the PDF itself for viewing
+interface StoredDocument extends LibraryDocument {
+  pages: string[];
+  blob: Blob;
+}
+
+// Built from every stored book on first search; rebuilt after the library changes
+let indexPromise: Promise<SearchIndex> | null = null;
+
+const loadStoredDocuments = async (): Promise<StoredDocument[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DOCUMENTS_STORE, 'readonly');
+  return requestToPromise(tx.objectStore(DOCUMENTS_STORE).getAll() as IDBRequest<StoredDocument[]>);
+};
+
+const toLibraryDocument = ({ pages, blob, ...doc }: StoredDocument): LibraryDocument => ({ ...doc, addedAt: new Date(doc.addedAt) });
+
+export const listDocuments = async (): Promise<LibraryDocument[]> => {
+  const docs = await loadStoredDocuments();
+  return docs.map(toLibraryDocument).sort((a, b) => b.addedAt.getTime() - a.addedAt.getTime());
+};
+
+// Read a PDF's text and add it to the library. A book already there (same name and
+// size) is not indexed twice. Throws when the PDF has no text layer to search, or
+// when `signal` aborts before the book is saved.
+export const addDocument = async (
+  blob: Blob,
+  name: string,
+  onProgress?: (page: number, pageCount: number) => void,
+  signal?: AbortSignal,
+): Promise<LibraryDocument> => {
+  const existing = (await loadStoredDocuments()).find(doc => doc.name === name && doc.size === blob.size);
+  if (existing) return toLibraryDocument(existing);
+
+  const pages = await readPdfPages(await blob.arrayBuffer(), onProgress, signal);
+  if (!pages.some(text => text.length > 0)) {
+    throw new Error(`${name} has no selectable text (it may be a scan), so it cannot be searched.`);
+  }
+
+  const doc: StoredDocument = {
+    id: uuidv4(),
+    name,
+    size: blob.size,
+    pageCount: pages.length,
+    addedAt: new Date(),
+    pages,
+    blob,
+  };
+  const db = await openDatabase();
+  signal?.throwIfAborted();
+  const tx = db.transaction(DOCUMENTS_STORE, 'readwrite');
+  tx.objectStore(DOCUMENTS_STORE).put(doc);
+  await completeTransaction(tx);
+  indexPromise = null;
+  return toLibraryDocument(doc);
+};
+
+export const deleteDocument = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DOCUMENTS_STORE, 'readwrite');
+  tx.objectStore(DOCUMENTS_STORE).delete(id);
+  await completeTransaction(tx);
+  indexPromise = null;
+};
+
+// The original PDF, or null if the book has since been removed
+export const getDocumentBlob = async (id: string): Promise<Blob | null> => {
+  const db = await openDatabase();
+  const tx = db.transaction(DOCUMENTS_STORE, 'readonly');
+  const doc = await requestToPromise(tx.objectStore(DOCUMENTS_STORE).get(id) as IDBRequest<StoredDocument | undefined>);
+  return doc?.blob ?? null;
+};
+
+const loadIndex = (): Promise<SearchIndex> => {
+  if (!indexPromise) {
+    indexPromise = loadStoredDocuments()
+      .then(docs => buildSearchIndex(docs.flatMap(doc => doc.pages.flatMap((pageText, idx) =>
+        splitPage(pageText).map((text): SourcePassage => ({ documentId: doc.id, documentName: doc.name, page: idx + 1, text }))))))
+      .catch(error => {
+        indexPromise = null; // Allow a later retry
+        throw error;
+      });
+  }
+  return indexPromise;
+};
+
+// Passages from the library that best match the question; empty when the library is empty or nothing matches
+export const searchLibrary = async (query: string, limit?: number): Promise<SourcePassage[]> =>
+  searchPassages(await loadIndex(), query, limit);
@@ -0,0 +1,332 @@
+import React from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { unified } from 'unified';
+import remarkParse from 'remark-parse';
+import remarkGfm from 'remark-gfm';
+import remarkMath from 'remark-math';
+import type { Root, RootContent, PhrasingContent, Table as MdTable, List } from 'mdast';
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  HeadingLevel,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+  ImageRun,
+  ShadingType,
+  BorderStyle,
+  ParagraphChild,
+  AlignmentType,
+} from 'docx';
+import { Attachment, Conversation, Message } from '../types';
+import { isTextBased, stripDataUrlPrefix, decodeBase64Text, dataUrlToBlob, downloadBlob } from './fileUtils';
+import PrintableConversation from '../components/PrintableConversation';
+import { getActivePath } from './conversationTree';
+import { chartToMarkdownTable } from './chartSpec';
+import { citationsToText, sourcesToMarkdown } from './documentLibrary';
+import { prepareMath, latexToText, KATEX_CSS_URL, REMARK_MATH_OPTIONS } from './mathText';
+
+export type ExportFormat = 'markdown' | 'pdf' | 'docx';
+
+const roleLabel = (msg: Message) => (msg.role === 'user' ? 'Question' : 'AcctSolver');
+
+// File-system safe name derived from the conversation title
+const exportFileName = (conversation: Conversation, extension: string) => {
+  const base = conversation.title.replace(/[^\w\s-]/g, '').trim().replace(/\s+/g, '-').slice(0, 60) || 'acctsolver-chat';
+  return `${base}.${extension}`;
+};
+
+const attachmentText = (attachment: Attachment): string | null =>
+  isTextBased(attachment.mimeType) ? decodeBase64Text(stripDataUrlPrefix(attachment.data)) : null;
+
+// Answer text with library citations written out as "(Book, p. 12)"
+const exportText = (msg: Message): string => citationsToText(msg.text, msg.sources || []);
+
+// --- Markdown ---
+
+export const buildMarkdown = (conversation: Conversation, messages: Message[]): string => {
+  const lines: string[] = [`# ${conversation.title}`, ''];
+  if (conversation.selectedSubject) lines.push(`**Subject:** ${conversation.selectedSubject}  `);
+  lines.push(`**Exported:** ${new Date().toLocaleString()}`, '');
+
+  messages.forEach(msg => {
+    lines.push('---', '', `## ${roleLabel(msg)} — ${msg.timestamp.toLocaleString()}`, '');
+
+    msg.attachments?.forEach(attachment => {
+      if (attachment.mimeType.startsWith('image/')) {
+        lines.push(`![${attachment.name}](${attachment.data})`, '');
+      } else {
+        lines.push(`*Attached file: ${attachment.name} (${attachment.mimeType})*`, '');
+        const text = attachmentText(attachment);
+        if (text) lines.push('```', text, '```', '');
+      }
+    });
+
+    lines.push(exportText(msg), '');
+    if (msg.chart) lines.push(chartToMarkdownTable(msg.chart), '');
+    if (msg.sources?.length) lines.push(sourcesToMarkdown(msg.sources), '');
+    if (msg.image) lines.push(`![Generated visual](${msg.image})`, '');
+  });
+
+  return lines.join('\n');
+};
+
+// --- PDF (through the browser's print dialog) ---
+
+const PRINT_STYLES = `
+  body { font-family: 'Inter', Arial, sans-serif; color: #1e293b; max-width: 800px; margin: 0 auto; padding: 24px; line-height: 1.5; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  .meta { color: #64748b; font-size: 12px; margin-top: 0; }
+  .message { border-top: 1px solid #e2e8f0; padding-top: 12px; margin-top: 16px; page-break-inside: auto; }
+  .message h2 { font-size: 14px; color: #0369a1; display: flex; justify-content: space-between; }
+  .message.user h2 { color: #4f46e5; }
+  .time { color: #94a3b8; font-weight: normal; font-size: 11px; }
+  table { width: 100%; border-collapse: collapse; margin: 12px 0; font-size: 12px; page-break-inside: avoid; }
+  th, td { border: 1px solid #cbd5e1; padding: 6px 8px; text-align: left; }
+  th { background: #f1f5f9; }
+  img { max-width: 100%; max-height: 400px; margin: 8px 0; }
+  pre { background: #f8fafc; border: 1px solid #e2e8f0; padding: 8px; font-size: 11px; white-space: pre-wrap; }
+  .attachment p { font-size: 12px; color: #475569; }
+  @page { margin: 16mm; }
+`;
+
+const printAsPdf = (conversation: Conversation, messages: Message[]) => {
+  const attachmentTexts: Record<string, string> = {};
+  messages.forEach(msg => {
+    msg.attachments?.forEach((attachment, idx) => {
+      const text = attachmentText(attachment);
+      if (text) attachmentTexts[`${msg.id}:${idx}`] = text;
+    });
+  });
+
+  const body = renderToStaticMarkup(
+    React.createElement(PrintableConversation, { conversation, messages, attachmentTexts })
+  );
+
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error('The print window was blocked. Please allow pop-ups for this site to export as PDF.');
+  }
+  printWindow.document.write(
+    `<!DOCTYPE html><html><head><meta charset="UTF-8"><title></title><link rel="stylesheet" href="${KATEX_CSS_URL}"><style>${PRINT_STYLES}</style></head><body>${body}</body></html>`
+  );
+  printWindow.document.close();
+  // Set as text so a title taken from a question can never become markup
+  printWindow.document.title = conversation.title;
+  // Wait for images to load before opening the print dialog
+  printWindow.onload = () => {
+    printWindow.focus();
+    printWindow.print();
+  };
+};
+
+// --- DOCX ---
+
+const markdownProcessor = unified().use(remarkParse).use(remarkGfm).use(remarkMath, REMARK_MATH_OPTIONS);
+
+interface RunStyle {
+  bold?: boolean;
+  italics?: boolean;
+  font?: string;
+}
+
+const phrasingToRuns = (nodes: PhrasingContent[], style: RunStyle = {}): ParagraphChild[] =>
+  nodes.flatMap((node): ParagraphChild[] => {
+    switch (node.type) {
+      case 'text':
+        return [new TextRun({ text: node.value, ...style })];
+      case 'strong':
+        return phrasingToRuns(node.children, { ...style, bold: true });
+      case 'emphasis':
+        return phrasingToRuns(node.children, { ...style, italics: true });
+      case 'delete':
+        return phrasingToRuns(node.children, style);
+      case 'inlineMath':
+        return [new TextRun({ text: latexToText(node.value), ...style, font: 'Cambria Math' })];
+      case 'inlineCode':
+        return [new TextRun({ text: node.value, ...style, font: 'Consolas' })];
+      case 'break':
+        return [new TextRun({ break: 1 })];
+      case 'link':
+        return phrasingToRuns(node.children, style);
+      default:
+        return 'value' in node ? [new TextRun({ text: String(node.value), ...style })] : [];
+    }
+  });
+
+const CELL_BORDER = { style: BorderStyle.SINGLE, size: 4, color: 'CBD5E1' };
+
+const tableToDocx = (table: MdTable): Table =>
+  new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    rows: table.children.map((row, rowIdx) => new TableRow({
+      tableHeader: rowIdx === 0,
+      children: row.children.map(cell => new TableCell({
+        borders: { top: CELL_BORDER, bottom: CELL_BORDER, left: CELL_BORDER, right: CELL_BORDER },
+        shading: rowIdx === 0 ? { type: ShadingType.CLEAR, color: 'auto', fill: 'F1F5F9' } : undefined,
+        children: [new Paragraph({ children: phrasingToRuns(cell.children, rowIdx === 0 ? { bold: true } : {}) })],
+      })),
+    })),
+  });
+
+const listToDocx = (list: List, level = 0): Paragraph[] =>
+  list.children.flatMap((item, idx) =>
+    item.children.flatMap(child => {
+      if (child.type === 'list') return listToDocx(child, level + 1);
+      if (child.type !== 'paragraph') return [];
+      const runs = phrasingToRuns(child.children);
+      return list.ordered
+        ? [new Paragraph({ indent: { left: 360 * (level + 1) }, children: [new TextRun(`${(list.start ?? 1) + idx}. `), ...runs] })]
+        : [new Paragraph({ bullet: { level }, children: runs })];
+    })
+  );
+
+const HEADING_LEVELS = [HeadingLevel.HEADING_1, HeadingLevel.HEADING_2, HeadingLevel.HEADING_3, HeadingLevel.HEADING_4];
+
+const blockToDocx = (node: RootContent): (Paragraph | Table)[] => {
+  switch (node.type) {
+    case 'heading':
+      return [new Paragraph({ heading: HEADING_LEVELS[Math.min(node.depth, 4) - 1], children: phrasingToRuns(node.children) })];
+    case 'paragraph':
+      return [new Paragraph({ children: phrasingToRuns(node.children), spacing: { after: 120 } })];
+    case 'list':
+      return listToDocx(node);
+    case 'table':
+      return [tableToDocx(node), new Paragraph({})];
+    case 'code':
+      return node.value.split('\n').map(line => new Paragraph({ children: [new TextRun({ text: line, font: 'Consolas', size: 18 })] }));
+    case 'math':
+      return [new Paragraph({ alignment: AlignmentType.CENTER, children: [new TextRun({ text: latexToText(node.value), font: 'Cambria Math' })], spacing: { after: 120 } })];
+    case 'blockquote':
+      return node.children.flatMap(blockToDocx);
+    case 'thematicBreak':
+      return [new Paragraph({ border: { bottom: CELL_BORDER }, children: [] })];
+    default:
+      return [];
+  }
+};
+
+const markdownToDocx = (markdown: string): (Paragraph | Table)[] => {
+  const tree = markdownProcessor.runSync(markdownProcessor.parse(prepareMath(markdown))) as Root;
+  return tree.children.flatMap(blockToDocx);
+};
+
+const DOCX_IMAGE_TYPES: Record<string, 'png' | 'jpg' | 'gif' | 'bmp'> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+};
+
+const MAX_IMAGE_WIDTH = 500;
+
+const loadImageSize = (src: string): Promise<{ width: number; height: number }> =>
+  new Promise((resolve) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => resolve({ width: MAX_IMAGE_WIDTH, height: MAX_IMAGE_WIDTH * 0.75 });
+    img.src = src;
+  });
+
+const imageToDocx = async (dataUrl: string, fallbackMimeType: string): Promise<Paragraph | null> => {
+  const blob = dataUrlToBlob(dataUrl, fallbackMimeType);
+  const type = DOCX_IMAGE_TYPES[blob.type];
+  if (!type) return null; // Formats Word cannot embed (e.g. WebP) are skipped
+
+  const { width, height } = await loadImageSize(dataUrl);
+  const scale = Math.min(1, MAX_IMAGE_WIDTH / width);
+  return new Paragraph({
+    children: [new ImageRun({
+      type,
+      data: await blob.arrayBuffer(),
+      transformation: { width: Math.round(width * scale), height: Math.round(height * scale) },
+    })],
+  });
+};
+
+const buildDocx = async (conversation: Conversation, messages: Message[]): Promise<Blob> => {
+  const children: (Paragraph | Table)[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, children: [new TextRun(conversation.title)] }),
+    new Paragraph({
+      children: [
+        ...(conversation.selectedSubject ? [new TextRun({ text: 'Subject: ', bold: true }), new TextRun(`${conversation.selectedSubject}   `)] : []),
+        new TextRun({ text: 'Exported: ', bold: true }),
+        new TextRun(new Date().toLocaleString()),
+      ],
+    }),
+  ];
+
+  for (const msg of messages) {
+    children.push(new Paragraph({
+      heading: HeadingLevel.HEADING_2,
+      children: [
+        new TextRun(roleLabel(msg)),
+        new TextRun({ text: `  ${msg.timestamp.toLocaleString()}`, size: 18, color: '94A3B8' }),
+      ],
+    }));
+
+    for (const attachment of msg.attachments || []) {
+      const image = attachment.mimeType.startsWith('image/')
+        ? await imageToDocx(attachment.data, attachment.mimeType)
+        : null;
+      if (image) {
+        children.push(image);
+      } else {
+        children.push(new Paragraph({
+          children: [new TextRun({ text: `Attached file: ${attachment.name} (${attachment.mimeType})`, italics: true })],
+        }));
+        const text = attachmentText(attachment);
+        if (text) {
+          text.split('\n').forEach(line => children.push(new Paragraph({ children: [new TextRun({ text: line, font: 'Consolas', size: 18 })] })));
+        }
+      }
+    }
+
+    children.push(...(msg.role === 'user'
+      ? msg.text.split('\n').map(line => new Paragraph({ children: [new TextRun(line)] }))
+      : markdownToDocx(exportText(msg))));
+    if (msg.chart) children.push(...markdownToDocx(chartToMarkdownTable(msg.chart)));
+    if (msg.sources?.length) children.push(...markdownToDocx(sourcesToMarkdown(msg.sources)));
+
+    if (msg.image) {
+      const image = await imageToDocx(msg.image, 'image/png');
+      if (image) children.push(image);
+    }
+  }
+
+  const doc = new Document({
+    creator: 'AcctSolver AI',
+    title: conversation.title,
+    sections: [{ children }],
+  });
+  return Packer.toBlob(doc);
+};
+
+// Export the given messages (the branch on screen when none are selected)
+export const exportConversation = async (
+  conversation: Conversation,
+  format: ExportFormat,
+  messageIds?: string[],
+): Promise<void> => {
+  const branch = getActivePath(conversation);
+  const messages = (messageIds && messageIds.length > 0
+    ? branch.filter(msg => messageIds.includes(msg.id))
+    : branch
+  ).filter(msg => !(msg.error && !msg.text)); // Failed answers have nothing to export
+
+  switch (format) {
+    case 'markdown':
+      downloadBlob(new Blob([buildMarkdown(conversation, messages)], { type: 'text/markdown' }), exportFileName(conversation, 'md'));
+      break;
+    case 'pdf':
+      printAsPdf(conversation, messages);
+      break;
+    case 'docx':
+      downloadBlob(await buildDocx(conversation, messages), exportFileName(conversation, 'docx'));
+      break;
+  }
+};
@@ -0,0 +1,71 @@
+// Shared helpers for working with attachments held as base64 data URLs
+
+// Helper to determine if a mime type is text-based and should be decoded
+export const isTextBased = (mimeType: string) => {
+  return mimeType.startsWith('text/') || 
+         mimeType === 'application/json' ||
+         mimeType === 'application/xml' || 
+         mimeType === 'application/x-yaml' ||
+         mimeType.includes('csv') || 
+         mimeType.includes('script');
+};
+
+// Strip the "data:<mime>;base64," prefix if present
+export const stripDataUrlPrefix = (data: string) => data.split(',')[1] || data;
+
+// Helper to safely decode base64 text content (handling UTF-8)
+export const decodeBase64Text = (base64: string): string => {
+  try {
+    const binaryString = atob(base64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+      bytes[i] = binaryString.charCodeAt(i);
+    }
+    return new TextDecoder().decode(bytes);
+  } catch (e) {
+    console.error("Failed to decode base64 text:", e);
+    return "";
+  }
+};
+
+// Encode UTF-8 text as a base64 data URL, the form attachments are stored in
+export const encodeTextAsDataUrl = (text: string, mimeType: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return `data:${mimeType};base64,${btoa(binary)}`;
+};
+
+export const dataUrlToBlob = (dataUrl: string, fallbackMimeType: string): Blob => {
+  const [header, base64 = ''] = dataUrl.includes(',') ? dataUrl.split(',') : ['', dataUrl];
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || fallbackMimeType;
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Trigger a browser download for generated content
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
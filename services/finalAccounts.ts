@@ -0,0 +1,359 @@
+// Deterministic Trial Balance -> Trading A/c, Profit & Loss A/c and Balance Sheet.
+// The model only suggests how accounts are classified; every figure is computed here.
+
+import { v4 as uuidv4 } from 'uuid';
+import { parseAmount } from './balanceValidator';
+import { formatNumber, formatMoney, currencySymbol } from './localeSettings';
+
+export type AccountClass =
+  | 'opening-stock'
+  | 'purchases'
+  | 'returns-outward'
+  | 'sales'
+  | 'returns-inward'
+  | 'direct-expense'
+  | 'direct-income'
+  | 'indirect-expense'
+  | 'indirect-income'
+  | 'fixed-asset'
+  | 'current-asset'
+  | 'capital'
+  | 'drawings'
+  | 'long-term-liability'
+  | 'current-liability';
+
+export const ACCOUNT_CLASS_LABELS: Record<AccountClass, string> = {
+  'opening-stock': 'Opening Stock',
+  'purchases': 'Purchases',
+  'returns-outward': 'Purchase Returns',
+  'sales': 'Sales',
+  'returns-inward': 'Sales Returns',
+  'direct-expense': 'Direct Expense (Trading)',
+  'direct-income': 'Direct Income (Trading)',
+  'indirect-expense': 'Indirect Expense (P&L)',
+  'indirect-income': 'Indirect Income (P&L)',
+  'fixed-asset': 'Fixed Asset',
+  'current-asset': 'Current Asset',
+  'capital': 'Capital',
+  'drawings': 'Drawings',
+  'long-term-liability': 'Long-term Liability',
+  'current-liability': 'Current Liability',
+};
+
+export const ACCOUNT_CLASSES = Object.keys(ACCOUNT_CLASS_LABELS) as AccountClass[];
+
+export interface TrialBalanceAccount {
+  id: string;
+  name: string;
+  debit: number;
+  credit: number;
+  classification: AccountClass | null;
+}
+
+export interface TrialBalanceCheck {
+  debitTotal: number;
+  creditTotal: number;
+  balanced: boolean;
+}
+
+export type AccrualType = 'outstanding-expense' | 'prepaid-expense' | 'accrued-income' | 'income-received-in-advance';
+
+export interface AccrualAdjustment {
+  id: string;
+  accountId: string;
+  type: AccrualType;
+  amount: number;
+}
+
+export interface DepreciationAdjustment {
+  id: string;
+  accountId: string;
+  ratePercent: number;
+}
+
+export interface FinalAccountsAdjustments {
+  closingStock: number;
+  accruals: AccrualAdjustment[];
+  depreciation: DepreciationAdjustment[];
+}
+
+interface StatementLine {
+  label: string;
+  amount: number;
+}
+
+export interface FinalAccounts {
+  trading: { debit: StatementLine[]; credit: StatementLine[]; grossProfit: number; total: number };
+  profitAndLoss: { debit: StatementLine[]; credit: StatementLine[]; netProfit: number; total: number };
+  balanceSheet: { liabilities: StatementLine[]; assets: StatementLine[]; liabilitiesTotal: number; assetsTotal: number };
+}
+
+const round = (value: number) => Math.round((value + Number.EPSILON) * 100) / 100;
+const sum = (lines: StatementLine[]) => round(lines.reduce((total, line) => total + line.amount, 0));
+
+// --- Parsing ---
+
+const NAME_HEADER = /account|particulars|head|name|ledger/i;
+const DEBIT_HEADER = /^(dr|debit)/i;
+const CREDIT_HEADER = /^(cr|credit)/i;
+const AMOUNT_HEADER = /amount|balance/i;
+const SIDE_HEADER = /^(side|type|dr\s*\/\s*cr|nature)$/i;
+
+const splitCsvLine = (line: string): string[] => {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+  return cells;
+};
+
+// Parse a trial balance from CSV text. Supports separate Debit/Credit columns,
+// or a single Amount column with a Dr/Cr side column.
+export const parseTrialBalanceCsv = (csv: string): TrialBalanceAccount[] => {
+  const rows = csv.split(/\r?\n/).filter(line => line.trim()).map(splitCsvLine);
+  const headerIdx = rows.findIndex(row => row.some(cell => NAME_HEADER.test(cell)) && row.some(cell => DEBIT_HEADER.test(cell) || AMOUNT_HEADER.test(cell)));
+  if (headerIdx === -1) {
+    throw new Error('Could not find a header row with account names and Debit/Credit columns.');
+  }
+
+  const headers = rows[headerIdx];
+  const nameCol = headers.findIndex(cell => NAME_HEADER.test(cell));
+  const debitCol = headers.findIndex(cell => DEBIT_HEADER.test(cell));
+  const creditCol = headers.findIndex(cell => CREDIT_HEADER.test(cell));
+  const amountCol = headers.findIndex(cell => AMOUNT_HEADER.test(cell));
+  const sideCol = headers.findIndex(cell => SIDE_HEADER.test(cell));
+
+  const accounts: TrialBalanceAccount[] = [];
+  rows.slice(headerIdx + 1).forEach(row => {
+    const name = row[nameCol]?.trim();
+    if (!name || /^total/i.test(name)) return;
+
+    let debit = 0;
+    let credit = 0;
+    if (debitCol !== -1 && creditCol !== -1) {
+      debit = parseAmount(row[debitCol]) ?? 0;
+      credit = parseAmount(row[creditCol]) ?? 0;
+    } else if (amountCol !== -1) {
+      const amount = parseAmount(row[amountCol]) ?? 0;
+      const side = (sideCol !== -1 ? row[sideCol] : '').trim().toLowerCase();
+      if (side.startsWith('cr')) credit = amount;
+      else debit = amount;
+    }
+    if (debit === 0 && credit === 0) return;
+
+    accounts.push({ id: uuidv4(), name, debit, credit, classification: null });
+  });
+
+  if (accounts.length === 0) {
+    throw new Error('No account balances were found in the file.');
+  }
+  return accounts;
+};
+
+export const checkTrialBalance = (accounts: TrialBalanceAccount[]): TrialBalanceCheck => {
+  const debitTotal = round(accounts.reduce((total, acc) => total + acc.debit, 0));
+  const creditTotal = round(accounts.reduce((total, acc) => total + acc.credit, 0));
+  return { debitTotal, creditTotal, balanced: Math.abs(debitTotal - creditTotal) < 0.005 };
+};
+
+// Keyword rules used until (or instead of) the model's suggestions
+const CLASSIFICATION_RULES: [RegExp, AccountClass][] = [
+  [/opening\s*stock|stock.*(1st|opening|beginning)|inventory.*opening/i, 'opening-stock'],
+  [/(purchase|return).*(return|outward)|returns?\s*outward/i, 'returns-outward'],
+  [/(sales?|return).*(return|inward)|returns?\s*inward/i, 'returns-inward'],
+  [/purchase/i, 'purchases'],
+  [/^sales?\b|revenue|turnover/i, 'sales'],
+  [/wages|carriage\s*in|freight\s*in|import\s*duty|factory|manufactur|fuel|power|dock|octroi|royalt/i, 'direct-expense'],
+  [/drawing/i, 'drawings'],
+  [/capital/i, 'capital'],
+  [/loan|debenture|mortgage/i, 'long-term-liability'],
+  [/creditor|payable|overdraft|outstanding/i, 'current-liability'],
+  [/land|building|machinery|plant|furniture|fixture|vehicle|equipment|computer|goodwill|patent|premises/i, 'fixed-asset'],
+  [/cash|bank|debtor|receivable|bills?\s*receivable|prepaid|investment|stock/i, 'current-asset'],
+  [/commission\s*rec|discount\s*rec|interest\s*rec|rent\s*rec|dividend|income|received/i, 'indirect-income'],
+  [/salar|rent|rates|insurance|advertis|carriage\s*out|discount|bad\s*debt|repair|interest|commission|printing|stationery|postage|telephone|electric|general|office|expense/i, 'indirect-expense'],
+];
+
+export const suggestClassification = (account: TrialBalanceAccount): AccountClass | null => {
+  const match = CLASSIFICATION_RULES.find(([pattern]) => pattern.test(account.name));
+  if (!match) return null;
+  // Income-looking names with a debit balance are usually expenses, and vice versa
+  if (match[1] === 'indirect-income' && account.debit > account.credit) return 'indirect-expense';
+  if (match[1] === 'indirect-expense' && account.credit > account.debit) return 'indirect-income';
+  return match[1];
+};
+
+// --- Final accounts ---
+
+export const buildFinalAccounts = (
+  accounts: TrialBalanceAccount[],
+  adjustments: FinalAccountsAdjustments,
+): FinalAccounts => {
+  const unclassified = accounts.filter(acc => !acc.classification);
+  if (unclassified.length > 0) {
+    throw new Error(`Classify every account first: ${unclassified.map(acc => acc.name).join(', ')}`);
+  }
+
+  const byClass = (cls: AccountClass) => accounts.filter(acc => acc.classification === cls);
+  // Debit-natured accounts are positive when the debit side is larger, credit-natured the other way round
+  const debitBalance = (acc: TrialBalanceAccount) => round(acc.debit - acc.credit);
+  const creditBalance = (acc: TrialBalanceAccount) => round(acc.credit - acc.debit);
+
+  // Accrual and depreciation effects, keyed by account
+  const accrualsFor = (accountId: string) => adjustments.accruals.filter(adj => adj.accountId === accountId);
+  const adjustedExpense = (acc: TrialBalanceAccount) => round(accrualsFor(acc.id).reduce((amount, adj) => {
+    if (adj.type === 'outstanding-expense') return amount + adj.amount;
+    if (adj.type === 'prepaid-expense') return amount - adj.amount;
+    return amount;
+  }, debitBalance(acc)));
+  const adjustedIncome = (acc: TrialBalanceAccount) => round(accrualsFor(acc.id).reduce((amount, adj) => {
+    if (adj.type === 'accrued-income') return amount + adj.amount;
+    if (adj.type === 'income-received-in-advance') return amount - adj.amount;
+    return amount;
+  }, creditBalance(acc)));
+
+  const accountName = (id: string) => accounts.find(acc => acc.id === id)?.name || 'Account';
+
+  // Trading Account
+  const tradingDebit: StatementLine[] = [
+    ...byClass('opening-stock').map(acc => ({ label: acc.name, amount: debitBalance(acc) })),
+    ...byClass('purchases').map(acc => ({ label: acc.name, amount: debitBalance(acc) })),
+    ...byClass('returns-outward').map(acc => ({ label: `Less: ${acc.name}`, amount: -creditBalance(acc) })),
+    ...byClass('direct-expense').map(acc => ({ label: acc.name, amount: adjustedExpense(acc) })),
+  ];
+  const tradingCredit: StatementLine[] = [
+    ...byClass('sales').map(acc => ({ label: acc.name, amount: creditBalance(acc) })),
+    ...byClass('returns-inward').map(acc => ({ label: `Less: ${acc.name}`, amount: -debitBalance(acc) })),
+    ...byClass('direct-income').map(acc => ({ label: acc.name, amount: adjustedIncome(acc) })),
+    ...(adjustments.closingStock ? [{ label: 'Closing Stock', amount: adjustments.closingStock }] : []),
+  ];
+  const grossProfit = round(sum(tradingCredit) - sum(tradingDebit));
+  if (grossProfit >= 0) tradingDebit.push({ label: 'Gross Profit c/d', amount: grossProfit });
+  else tradingCredit.push({ label: 'Gross Loss c/d', amount: -grossProfit });
+
+  // Profit & Loss Account
+  const depreciationLines = adjustments.depreciation.map(dep => {
+    const asset = accounts.find(acc => acc.id === dep.accountId);
+    return { accountId: dep.accountId, label: `Depreciation on ${accountName(dep.accountId)}`, amount: round((asset ? debitBalance(asset) : 0) * dep.ratePercent / 100) };
+  });
+  const plDebit: StatementLine[] = [
+    ...(grossProfit < 0 ? [{ label: 'Gross Loss b/d', amount: -grossProfit }] : []),
+    ...byClass('indirect-expense').map(acc => ({ label: acc.name, amount: adjustedExpense(acc) })),
+    ...depreciationLines.map(({ label, amount }) => ({ label, amount })),
+  ];
+  const plCredit: StatementLine[] = [
+    ...(grossProfit >= 0 ? [{ label: 'Gross Profit b/d', amount: grossProfit }] : []),
+    ...byClass('indirect-income').map(acc => ({ label: acc.name, amount: adjustedIncome(acc) })),
+  ];
+  const netProfit = round(sum(plCredit) - sum(plDebit));
+  if (netProfit >= 0) plDebit.push({ label: 'Net Profit (transferred to Capital)', amount: netProfit });
+  else plCredit.push({ label: 'Net Loss (transferred to Capital)', amount: -netProfit });
+
+  // Balance Sheet
+  const capital = round(byClass('capital').reduce((total, acc) => total + creditBalance(acc), 0));
+  const drawings = round(byClass('drawings').reduce((total, acc) => total + debitBalance(acc), 0));
+  const liabilities: StatementLine[] = [
+    { label: 'Capital', amount: capital },
+    { label: netProfit >= 0 ? 'Add: Net Profit' : 'Less: Net Loss', amount: netProfit },
+    ...(drawings ? [{ label: 'Less: Drawings', amount: -drawings }] : []),
+    ...byClass('long-term-liability').map(acc => ({ label: acc.name, amount: creditBalance(acc) })),
+    ...byClass('current-liability').map(acc => ({ label: acc.name, amount: creditBalance(acc) })),
+    ...adjustments.accruals
+      .filter(adj => adj.type === 'outstanding-expense')
+      .map(adj => ({ label: `Outstanding ${accountName(adj.accountId)}`, amount: adj.amount })),
+    ...adjustments.accruals
+      .filter(adj => adj.type === 'income-received-in-advance')
+      .map(adj => ({ label: `${accountName(adj.accountId)} Received in Advance`, amount: adj.amount })),
+  ];
+  const assets: StatementLine[] = [
+    ...byClass('fixed-asset').flatMap(acc => {
+      const depreciation = depreciationLines.filter(dep => dep.accountId === acc.id).reduce((total, dep) => total + dep.amount, 0);
+      return depreciation
+        ? [{ label: `${acc.name} (less depreciation ${formatNumber(depreciation)})`, amount: round(debitBalance(acc) - depreciation) }]
+        : [{ label: acc.name, amount: debitBalance(acc) }];
+    }),
+    ...byClass('current-asset').map(acc => ({ label: acc.name, amount: debitBalance(acc) })),
+    ...(adjustments.closingStock ? [{ label: 'Closing Stock', amount: adjustments.closingStock }] : []),
+    ...adjustments.accruals
+      .filter(adj => adj.type === 'prepaid-expense')
+      .map(adj => ({ label: `Prepaid ${accountName(adj.accountId)}`, amount: adj.amount })),
+    ...adjustments.accruals
+      .filter(adj => adj.type === 'accrued-income')
+      .map(adj => ({ label: `Accrued ${accountName(adj.accountId)}`, amount: adj.amount })),
+  ];
+
+  return {
+    trading: { debit: tradingDebit, credit: tradingCredit, grossProfit, total: Math.max(sum(tradingDebit), sum(tradingCredit)) },
+    profitAndLoss: { debit: plDebit, credit: plCredit, netProfit, total: Math.max(sum(plDebit), sum(plCredit)) },
+    balanceSheet: { liabilities, assets, liabilitiesTotal: sum(liabilities), assetsTotal: sum(assets) },
+  };
+};
+
+// --- Markdown rendering ---
+
+const formatAmount = (amount: number) => {
+  const text = formatNumber(Math.abs(amount));
+  return amount < 0 ? `(${text})` : text;
+};
+
+// Two-sided (T-format) table, padded so both sides line up
+const tFormatTable = (
+  leftTitle: string,
+  left: StatementLine[],
+  rightTitle: string,
+  right: StatementLine[],
+  leftTotal: number,
+  rightTotal: number,
+): string => {
+  const rowCount = Math.max(left.length, right.length);
+  const symbol = currencySymbol();
+  const lines = [
+    `| ${leftTitle} | Amount (${symbol}) | ${rightTitle} | Amount (${symbol}) |`,
+    '|---|---:|---|---:|',
+  ];
+  for (let i = 0; i < rowCount; i++) {
+    const l = left[i];
+    const r = right[i];
+    lines.push(`| ${l?.label ?? ''} | ${l ? formatAmount(l.amount) : ''} | ${r?.label ?? ''} | ${r ? formatAmount(r.amount) : ''} |`);
+  }
+  lines.push(`| **Total** | **${formatAmount(leftTotal)}** | **Total** | **${formatAmount(rightTotal)}** |`);
+  return lines.join('\n');
+};
+
+export const finalAccountsToMarkdown = (result: FinalAccounts, periodLabel: string): string => {
+  const { trading, profitAndLoss, balanceSheet } = result;
+  const sections = [
+    `### Trading Account for ${periodLabel}`,
+    tFormatTable('Particulars', trading.debit, 'Particulars', trading.credit, trading.total, trading.total),
+    `### Profit & Loss Account for ${periodLabel}`,
+    tFormatTable('Particulars', profitAndLoss.debit, 'Particulars', profitAndLoss.credit, profitAndLoss.total, profitAndLoss.total),
+    `### Balance Sheet as at the end of ${periodLabel}`,
+    tFormatTable('Liabilities', balanceSheet.liabilities, 'Assets', balanceSheet.assets, balanceSheet.liabilitiesTotal, balanceSheet.assetsTotal),
+  ];
+
+  const summary = [
+    `**${trading.grossProfit >= 0 ? 'Gross Profit' : 'Gross Loss'}:** ${formatMoney(Math.abs(trading.grossProfit))}`,
+    `**${profitAndLoss.netProfit >= 0 ? 'Net Profit' : 'Net Loss'}:** ${formatMoney(Math.abs(profitAndLoss.netProfit))}`,
+  ];
+  if (Math.abs(balanceSheet.liabilitiesTotal - balanceSheet.assetsTotal) >= 0.005) {
+    summary.push(`**Note:** The Balance Sheet does not tally (difference ${formatMoney(Math.abs(balanceSheet.liabilitiesTotal - balanceSheet.assetsTotal))}). Check the trial balance and account classifications.`);
+  }
+
+  return [...sections, summary.join('  \n')].join('\n\n');
+};
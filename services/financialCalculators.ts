@@ -0,0 +1,242 @@
+// Exact financial calculators for the numericals students ask about most.
+// All functions are pure; monetary results are rounded to 2 decimals at the end,
+// never in intermediate steps, so they match textbook answers.
+
+const round = (value: number, decimals = 2) => {
+  const factor = 10 ** decimals;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+};
+
+const assertPositive = (value: number, name: string) => {
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new Error(`${name} must be a positive number.`);
+  }
+};
+
+// --- Cost-Volume-Profit ---
+
+export interface BreakEvenInput {
+  fixedCost: number;
+  sellingPricePerUnit: number;
+  variableCostPerUnit: number;
+  targetProfit?: number;
+  actualSalesUnits?: number;
+}
+
+export const breakEvenAnalysis = (input: BreakEvenInput) => {
+  const { fixedCost, sellingPricePerUnit, variableCostPerUnit, targetProfit = 0, actualSalesUnits } = input;
+  assertPositive(sellingPricePerUnit, 'Selling price per unit');
+
+  const contributionPerUnit = sellingPricePerUnit - variableCostPerUnit;
+  if (contributionPerUnit <= 0) {
+    throw new Error('Selling price must exceed variable cost per unit to break even.');
+  }
+
+  const pvRatio = contributionPerUnit / sellingPricePerUnit;
+  const breakEvenUnits = fixedCost / contributionPerUnit;
+  const result: Record<string, number> = {
+    contributionPerUnit: round(contributionPerUnit),
+    pvRatioPercent: round(pvRatio * 100),
+    breakEvenUnits: round(breakEvenUnits),
+    breakEvenSales: round(breakEvenUnits * sellingPricePerUnit),
+  };
+
+  if (targetProfit) {
+    const requiredUnits = (fixedCost + targetProfit) / contributionPerUnit;
+    result.unitsForTargetProfit = round(requiredUnits);
+    result.salesForTargetProfit = round(requiredUnits * sellingPricePerUnit);
+  }
+
+  if (actualSalesUnits !== undefined) {
+    const marginOfSafetyUnits = actualSalesUnits - breakEvenUnits;
+    result.marginOfSafetyUnits = round(marginOfSafetyUnits);
+    result.marginOfSafetySales = round(marginOfSafetyUnits * sellingPricePerUnit);
+    result.marginOfSafetyPercent = round((marginOfSafetyUnits / actualSalesUnits) * 100);
+    result.profitAtActualSales = round(actualSalesUnits * contributionPerUnit - fixedCost);
+  }
+
+  return result;
+};
+
+// --- Time Value of Money ---
+
+export interface TimeValueInput {
+  calculate: 'futureValue' | 'presentValue' | 'annuityFutureValue' | 'annuityPresentValue';
+  amount: number; // Lump sum, or periodic payment for annuities
+  ratePercent: number; // Rate per compounding period
+  periods: number;
+  annuityDue?: boolean; // Payments at the start of each period
+}
+
+export const timeValueOfMoney = (input: TimeValueInput) => {
+  const { calculate, amount, ratePercent, periods, annuityDue = false } = input;
+  if (!Number.isFinite(amount) || amount === 0) {
+    throw new Error('Amount must be a non-zero number.');
+  }
+  if (!Number.isFinite(ratePercent) || ratePercent <= -100) {
+    throw new Error('Rate must be greater than -100%.');
+  }
+  if (!Number.isFinite(periods) || periods < 0) {
+    throw new Error('Periods must be zero or a positive number.');
+  }
+  const r = ratePercent / 100;
+  const growth = (1 + r) ** periods;
+  const dueFactor = annuityDue ? 1 + r : 1;
+
+  let value: number;
+  switch (calculate) {
+    case 'futureValue':
+      value = amount * growth;
+      break;
+    case 'presentValue':
+      value = amount / growth;
+      break;
+    case 'annuityFutureValue':
+      value = r === 0 ? amount * periods : amount * ((growth - 1) / r) * dueFactor;
+      break;
+    case 'annuityPresentValue':
+      value = r === 0 ? amount * periods : amount * ((1 - 1 / growth) / r) * dueFactor;
+      break;
+    default:
+      throw new Error(`Unknown time value calculation: ${calculate}`);
+  }
+
+  return { [calculate]: round(value), factor: round(value / amount, 4) };
+};
+
+// --- Capital Budgeting ---
+
+export interface NpvInput {
+  ratePercent: number;
+  initialInvestment: number;
+  cashFlows: number[]; // Inflows for years 1..n
+}
+
+export const netPresentValue = ({ ratePercent, initialInvestment, cashFlows }: NpvInput) => {
+  assertPositive(initialInvestment, 'Initial investment');
+  const r = ratePercent / 100;
+  const presentValues = cashFlows.map((flow, idx) => flow / (1 + r) ** (idx + 1));
+  const totalPresentValue = presentValues.reduce((sum, pv) => sum + pv, 0);
+
+  return {
+    presentValues: presentValues.map(pv => round(pv)),
+    totalPresentValue: round(totalPresentValue),
+    npv: round(totalPresentValue - initialInvestment),
+    profitabilityIndex: round(totalPresentValue / initialInvestment, 4),
+  };
+};
+
+export interface IrrInput {
+  initialInvestment: number;
+  cashFlows: number[];
+}
+
+// Bisection is slower than Newton's method but cannot diverge
+export const internalRateOfReturn = ({ initialInvestment, cashFlows }: IrrInput) => {
+  assertPositive(initialInvestment, 'Initial investment');
+  const npvAt = (rate: number) =>
+    cashFlows.reduce((sum, flow, idx) => sum + flow / (1 + rate) ** (idx + 1), -initialInvestment);
+
+  let low = -0.99;
+  let high = 10;
+  if (npvAt(low) * npvAt(high) > 0) {
+    throw new Error('IRR could not be found: cash flows do not change sign.');
+  }
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const value = npvAt(mid);
+    if (Math.abs(value) < 1e-9) {
+      low = high = mid;
+      break;
+    }
+    if (npvAt(low) * value < 0) high = mid;
+    else low = mid;
+  }
+
+  return { irrPercent: round(((low + high) / 2) * 100) };
+};
+
+export interface PaybackInput {
+  initialInvestment: number;
+  cashFlows: number[];
+  discountRatePercent?: number; // When set, computes the discounted payback period
+}
+
+export const paybackPeriod = ({ initialInvestment, cashFlows, discountRatePercent }: PaybackInput) => {
+  assertPositive(initialInvestment, 'Initial investment');
+  const r = (discountRatePercent ?? 0) / 100;
+  let cumulative = 0;
+
+  for (let idx = 0; idx < cashFlows.length; idx++) {
+    const flow = cashFlows[idx] / (1 + r) ** (idx + 1);
+    if (cumulative + flow >= initialInvestment) {
+      const fraction = (initialInvestment - cumulative) / flow;
+      return { paybackYears: round(idx + fraction), recovered: true };
+    }
+    cumulative += flow;
+  }
+
+  return { paybackYears: null, recovered: false, unrecoveredAmount: round(initialInvestment - cumulative) };
+};
+
+// --- Depreciation ---
+
+export interface DepreciationInput {
+  method: 'SLM' | 'WDV';
+  cost: number;
+  years: number;
+  salvageValue?: number; // SLM
+  ratePercent?: number; // WDV; derived from cost, salvage and life when omitted
+}
+
+export const depreciationSchedule = ({ method, cost, years, salvageValue = 0, ratePercent }: DepreciationInput) => {
+  assertPositive(cost, 'Cost');
+  assertPositive(years, 'Useful life');
+
+  const schedule: { year: number; opening: number; depreciation: number; closing: number }[] = [];
+  let bookValue = cost;
+
+  if (method === 'SLM') {
+    const annual = (cost - salvageValue) / years;
+    for (let year = 1; year <= years; year++) {
+      schedule.push({ year, opening: round(bookValue), depreciation: round(annual), closing: round(bookValue - annual) });
+      bookValue -= annual;
+    }
+    return { method, annualDepreciation: round(annual), ratePercent: round((annual / cost) * 100), schedule };
+  }
+
+  const rate = ratePercent !== undefined
+    ? ratePercent / 100
+    : 1 - (Math.max(salvageValue, 1) / cost) ** (1 / years);
+  for (let year = 1; year <= years; year++) {
+    const depreciation = bookValue * rate;
+    schedule.push({ year, opening: round(bookValue), depreciation: round(depreciation), closing: round(bookValue - depreciation) });
+    bookValue -= depreciation;
+  }
+  return { method, ratePercent: round(rate * 100), schedule };
+};
+
+// --- Inventory ---
+
+export interface EoqInput {
+  annualDemand: number;
+  orderingCostPerOrder: number;
+  carryingCostPerUnit: number;
+}
+
+export const economicOrderQuantity = ({ annualDemand, orderingCostPerOrder, carryingCostPerUnit }: EoqInput) => {
+  assertPositive(annualDemand, 'Annual demand');
+  assertPositive(orderingCostPerOrder, 'Ordering cost');
+  assertPositive(carryingCostPerUnit, 'Carrying cost');
+
+  const eoq = Math.sqrt((2 * annualDemand * orderingCostPerOrder) / carryingCostPerUnit);
+  const ordersPerYear = annualDemand / eoq;
+  return {
+    eoq: round(eoq),
+    ordersPerYear: round(ordersPerYear),
+    annualOrderingCost: round(ordersPerYear * orderingCostPerOrder),
+    annualCarryingCost: round((eoq / 2) * carryingCostPerUnit),
+    totalInventoryCost: round(ordersPerYear * orderingCostPerOrder + (eoq / 2) * carryingCostPerUnit),
+  };
+};
@@ -0,0 +1,26 @@
+import { openDatabase, completeTransaction, requestToPromise, FLASHCARDS_STORE } from './chatDatabase';
+import { Flashcard } from './flashcards';
+
+export const loadFlashcards = async (): Promise<Flashcard[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(FLASHCARDS_STORE, 'readonly');
+  const cards = await requestToPromise(tx.objectStore(FLASHCARDS_STORE).getAll() as IDBRequest<Flashcard[]>);
+  return cards.map(card => ({ ...card, createdAt: new Date(card.createdAt), due: new Date(card.due) }));
+};
+
+// Add new cards or store updated review state
+export const saveFlashcards = async (cards: Flashcard[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(FLASHCARDS_STORE, 'readwrite');
+  const store = tx.objectStore(FLASHCARDS_STORE);
+  cards.forEach(card => store.put(card));
+  await completeTransaction(tx);
+};
+
+export const deleteFlashcards = async (ids: string[]): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(FLASHCARDS_STORE, 'readwrite');
+  const store = tx.objectStore(FLASHCARDS_STORE);
+  ids.forEach(id => store.delete(id));
+  await completeTransaction(tx);
+};
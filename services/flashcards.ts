@@ -0,0 +1,199 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Cards without a subject are kept in this deck
+export const GENERAL_DECK = 'General';
+
+export interface Flashcard {
+  id: string;
+  subject: string; // Deck name
+  front: string;
+  back: string;
+  createdAt: Date;
+  // SM-2 scheduling state
+  due: Date;
+  intervalDays: number;
+  repetitions: number; // Successful reviews in a row
+  easeFactor: number;
+}
+
+// SM-2 answer quality, 0 (blackout) to 5 (perfect recall). The review screen offers four of them.
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+export const REVIEW_BUTTONS: { label: string; quality: ReviewQuality }[] = [
+  { label: 'Again', quality: 1 },
+  { label: 'Hard', quality: 3 },
+  { label: 'Good', quality: 4 },
+  { label: 'Easy', quality: 5 },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+export const createFlashcard = (front: string, back: string, subject: string | null): Flashcard => {
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    subject: subject || GENERAL_DECK,
+    front: front.trim(),
+    back: back.trim(),
+    createdAt: now,
+    due: now, // New cards are due straight away
+    intervalDays: 0,
+    repetitions: 0,
+    easeFactor: INITIAL_EASE,
+  };
+};
+
+// Schedule the next review with the SM-2 algorithm
+export const reviewFlashcard = (card: Flashcard, quality: ReviewQuality, now = new Date()): Flashcard => {
+  const easeFactor = Math.max(MIN_EASE, card.easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  if (quality < 3) {
+    // Lapse: start the card over, but keep the adjusted ease
+    return { ...card, easeFactor, repetitions: 0, intervalDays: 1, due: new Date(now.getTime() + DAY_MS) };
+  }
+
+  const repetitions = card.repetitions + 1;
+  const intervalDays = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(card.intervalDays * easeFactor);
+  return { ...card, easeFactor, repetitions, intervalDays, due: new Date(now.getTime() + intervalDays * DAY_MS) };
+};
+
+export const isDue = (card: Flashcard, now = new Date()) => card.due.getTime() <= now.getTime();
+
+export interface FlashcardDeck {
+  subject: string;
+  cards: Flashcard[];
+  dueCount: number;
+}
+
+// Group cards into per-subject decks, alphabetically with General last
+export const groupIntoDecks = (cards: Flashcard[], now = new Date()): FlashcardDeck[] => {
+  const bySubject = new Map<string, Flashcard[]>();
+  cards.forEach(card => bySubject.set(card.subject, [...(bySubject.get(card.subject) || []), card]));
+
+  return [...bySubject.entries()]
+    .map(([subject, deckCards]) => ({
+      subject,
+      cards: deckCards,
+      dueCount: deckCards.filter(card => isDue(card, now)).length,
+    }))
+    .sort((a, b) => {
+      if (a.subject === GENERAL_DECK) return 1;
+      if (b.subject === GENERAL_DECK) return -1;
+      return a.subject.localeCompare(b.subject);
+    });
+};
+
+// --- Anki CSV ---
+// Anki's text import reads these header lines to pick the separator and the tags column.
+// Subjects travel as tags, with spaces replaced since Anki tags cannot contain them.
+
+const escapeCsvCell = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+const subjectToTag = (subject: string) => subject.trim().replace(/\s+/g, '_');
+const tagToSubject = (tag: string) => tag.replace(/_/g, ' ');
+
+export const flashcardsToAnkiCsv = (cards: Flashcard[]): string => [
+  '#separator:Comma',
+  '#html:false',
+  '#columns:Front,Back,Tags',
+  '#tags column:3',
+  ...cards.map(card => [card.front, card.back, subjectToTag(card.subject)].map(escapeCsvCell).join(',')),
+].join('\n');
+
+const SEPARATORS: Record<string, string> = { comma: ',', semicolon: ';', tab: '\t', pipe: '|', space: ' ', colon: ':' };
+
+// Split delimited text into rows; quoted cells may contain separators, quotes and line breaks
+const parseDelimited = (text: string, separator: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+// Anki exports HTML fields by default; keep line breaks and drop the markup
+const htmlToText = (html: string) =>
+  html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, '&')
+    .trim();
+
+// Read cards from an Anki text export or any two-column front/back CSV.
+// Throws if no cards can be found.
+export const parseAnkiCsv = (text: string, defaultSubject: string | null): Flashcard[] => {
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  const headers: Record<string, string> = {};
+  while (lines.length && lines[0].startsWith('#')) {
+    const [key, ...value] = lines.shift()!.slice(1).split(':');
+    headers[key.trim().toLowerCase()] = value.join(':').trim();
+  }
+
+  const body = lines.join('\n');
+  const separator = SEPARATORS[headers.separator?.toLowerCase()]
+    || headers.separator
+    || (body.split('\n')[0].includes('\t') ? '\t' : ',');
+  const isHtml = headers.html?.toLowerCase() === 'true';
+  // Header columns are 1-based; -1 when the export has no such column
+  const column = (name: string) => (headers[`${name} column`] ? Number(headers[`${name} column`]) - 1 : -1);
+  const tagsColumn = column('tags');
+  // The note's fields are the columns left after the guid, notetype, deck and tags columns
+  const metaColumns = ['guid', 'notetype', 'deck', 'tags'].map(column).filter(idx => idx >= 0);
+  const isField = (_: string, idx: number) => !metaColumns.includes(idx);
+
+  const rows = parseDelimited(body, separator);
+  // Plain spreadsheets often start with a Front/Back header row
+  if (rows.length && /^front$/i.test(rows[0][0]?.trim()) && /^back$/i.test(rows[0][1]?.trim() || '')) rows.shift();
+
+  const cards = rows
+    .map(row => ({ row, fields: row.filter(isField) }))
+    .filter(({ fields }) => fields.length >= 2 && fields[0].trim() && fields[1].trim())
+    .map(({ row, fields }) => {
+      const clean = (value: string) => (isHtml ? htmlToText(value) : value.trim());
+      const tags = tagsColumn >= 0 ? (row[tagsColumn] || '').trim().split(/\s+/).filter(Boolean) : [];
+      return createFlashcard(clean(fields[0]), clean(fields[1]), tags.length ? tagToSubject(tags[0]) : defaultSubject);
+    });
+
+  if (cards.length === 0) {
+    throw new Error('No cards found. Each row needs a front and a back, separated by a comma or tab.');
+  }
+  return cards;
+};
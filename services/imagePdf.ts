@@ -0,0 +1,64 @@
+// Minimal PDF writer for scanned pages: one JPEG per page, embedded as is (DCTDecode),
+// so no PDF library is needed to combine a scan into a single file.
+
+export interface PdfImagePage {
+  jpeg: Uint8Array;
+  width: number; // Pixels
+  height: number;
+}
+
+// Pages are laid out at A4 width, with the height following the image
+const PAGE_WIDTH_PT = 595.28;
+
+export const buildImagePdf = (pages: PdfImagePage[]): Blob => {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const writeObject = (id: number, body: string) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n${body}\nendobj\n`);
+  };
+  const writeStream = (id: number, dict: string, bytes: Uint8Array) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n<< ${dict ? `${dict} ` : ''}/Length ${bytes.length} >>\nstream\n`);
+    write(bytes);
+    write('\nendstream\nendobj\n');
+  };
+
+  // The binary comment marks the file as binary for transfer tools
+  write('%PDF-1.4\n');
+  write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a]));
+
+  // Objects: 1 catalog, 2 page tree, then page, image and content stream for each page
+  const pageId = (index: number) => 3 + index * 3;
+  writeObject(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  writeObject(2, `<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>`);
+
+  pages.forEach((page, index) => {
+    const id = pageId(index);
+    const width = PAGE_WIDTH_PT.toFixed(2);
+    const height = (PAGE_WIDTH_PT * (page.height / page.width)).toFixed(2);
+    writeObject(id, `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+      `/Resources << /XObject << /Im0 ${id + 1} 0 R >> >> /Contents ${id + 2} 0 R >>`);
+    writeStream(id + 1, `/Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+      '/ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode', page.jpeg);
+    writeStream(id + 2, '', encoder.encode(`q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`));
+  });
+
+  const objectCount = 2 + pages.length * 3;
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks as BlobPart[], { type: 'application/pdf' });
+};
@@ -0,0 +1,156 @@
+// Regional settings: which currency answers use, how digits are grouped and whose
+// tax rules apply. They are added to the system instruction and used by every
+// client-side number formatter, and saved in this browser.
+
+export type CurrencyCode = 'USD' | 'PKR' | 'INR' | 'BDT' | 'GBP' | 'EUR' | 'AED';
+
+// 'international' groups in thousands (1,234,567); 'indian' uses lakh/crore grouping (12,34,567)
+export type NumberGrouping = 'international' | 'indian';
+
+export type Jurisdiction = 'general' | 'pakistan' | 'india' | 'bangladesh' | 'uk' | 'us';
+
+export interface LocaleSettings {
+  currency: CurrencyCode;
+  grouping: NumberGrouping;
+  jurisdiction: Jurisdiction;
+}
+
+export const CURRENCIES: Record<CurrencyCode, { symbol: string; label: string }> = {
+  USD: { symbol: '$', label: 'US Dollar ($)' },
+  PKR: { symbol: 'Rs.', label: 'Pakistani Rupee (Rs.)' },
+  INR: { symbol: '₹', label: 'Indian Rupee (₹)' },
+  BDT: { symbol: 'Tk', label: 'Bangladeshi Taka (Tk)' },
+  GBP: { symbol: '£', label: 'Pound Sterling (£)' },
+  EUR: { symbol: '€', label: 'Euro (€)' },
+  AED: { symbol: 'AED', label: 'UAE Dirham (AED)' },
+};
+
+export const GROUPING_LABELS: Record<NumberGrouping, string> = {
+  international: 'Thousands (1,234,567)',
+  indian: 'Lakh / crore (12,34,567)',
+};
+
+interface JurisdictionInfo {
+  label: string;
+  // Suggested currency and grouping when the jurisdiction is picked
+  currency: CurrencyCode;
+  grouping: NumberGrouping;
+  // Tax vocabulary for the system instruction; empty for no particular country
+  taxTerms: string;
+}
+
+export const JURISDICTIONS: Record<Jurisdiction, JurisdictionInfo> = {
+  general: {
+    label: 'General (IFRS, no particular country)',
+    currency: 'USD',
+    grouping: 'international',
+    taxTerms: '',
+  },
+  pakistan: {
+    label: 'Pakistan',
+    currency: 'PKR',
+    grouping: 'international',
+    taxTerms: 'Income Tax Ordinance 2001, Sales Tax Act 1990, FBR, NTN, withholding tax, advance tax, tax year (July–June)',
+  },
+  india: {
+    label: 'India',
+    currency: 'INR',
+    grouping: 'indian',
+    taxTerms: 'Income Tax Act 1961, GST (CGST, SGST, IGST), TDS, TCS, PAN, CBDT, assessment year and previous year',
+  },
+  bangladesh: {
+    label: 'Bangladesh',
+    currency: 'BDT',
+    grouping: 'indian',
+    taxTerms: 'Income Tax Act 2023, VAT and Supplementary Duty Act 2012, NBR, TIN, tax deducted at source, income year (July–June)',
+  },
+  uk: {
+    label: 'United Kingdom',
+    currency: 'GBP',
+    grouping: 'international',
+    taxTerms: 'HMRC, VAT, Corporation Tax, PAYE, National Insurance, capital allowances, tax year (6 April–5 April)',
+  },
+  us: {
+    label: 'United States',
+    currency: 'USD',
+    grouping: 'international',
+    taxTerms: 'IRS, federal and state income tax, sales tax, MACRS depreciation, Form 1040 and Form 1120, US GAAP',
+  },
+};
+
+export const DEFAULT_LOCALE_SETTINGS: LocaleSettings = {
+  currency: 'USD',
+  grouping: 'international',
+  jurisdiction: 'general',
+};
+
+const STORAGE_KEY = 'acctsolver_locale_settings';
+
+const readStoredSettings = (): LocaleSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved) {
+      const parsed = JSON.parse(saved);
+      // Ignore values this version does not know about
+      return {
+        currency: parsed.currency in CURRENCIES ? parsed.currency : DEFAULT_LOCALE_SETTINGS.currency,
+        grouping: parsed.grouping in GROUPING_LABELS ? parsed.grouping : DEFAULT_LOCALE_SETTINGS.grouping,
+        jurisdiction: parsed.jurisdiction in JURISDICTIONS ? parsed.jurisdiction : DEFAULT_LOCALE_SETTINGS.jurisdiction,
+      };
+    }
+  } catch (error) {
+    console.error("Failed to read regional settings:", error);
+  }
+  return DEFAULT_LOCALE_SETTINGS;
+};
+
+let currentSettings: LocaleSettings | null = null;
+
+// Settings in effect; read from storage on first use
+export const getLocaleSettings = (): LocaleSettings => {
+  if (!currentSettings) currentSettings = readStoredSettings();
+  return currentSettings;
+};
+
+export const saveLocaleSettings = (settings: LocaleSettings) => {
+  currentSettings = settings;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Failed to save regional settings:", error);
+  }
+};
+
+export const currencySymbol = (settings = getLocaleSettings()) => CURRENCIES[settings.currency].symbol;
+
+// Group digits the way the settings ask, e.g. 1,234,567.5 or 12,34,567.5
+export const formatNumber = (value: number, settings = getLocaleSettings(), maximumFractionDigits = 2) =>
+  value.toLocaleString(settings.grouping === 'indian' ? 'en-IN' : 'en-US', { maximumFractionDigits });
+
+export const formatMoney = (value: number, settings = getLocaleSettings()) => {
+  const symbol = currencySymbol(settings);
+  // Word-like symbols read better with a space: "Rs. 5,000" but "$5,000"
+  return `${symbol}${/[a-z.]$/i.test(symbol) ? ' ' : ''}${formatNumber(value, settings)}`;
+};
+
+// Rewrite dollar amounts in built-in example text, e.g. "$50,000" becomes "Rs. 50,000"
+export const localizeAmounts = (text: string, settings = getLocaleSettings()) =>
+  text.replace(/\$(\d[\d,]*(?:\.\d+)?)/g, (_, amount: string) => formatMoney(parseFloat(amount.replace(/,/g, '')), settings));
+
+// Section appended to the system instruction
+export const buildLocaleInstruction = (settings = getLocaleSettings()): string => {
+  const symbol = currencySymbol(settings);
+  const jurisdiction = JURISDICTIONS[settings.jurisdiction];
+  const lines = [
+    'Regional Settings:',
+    `- Currency: ${settings.currency}. Write amounts with '${symbol}' and use it in amount column headers, e.g. Amount (${symbol}).`,
+    `- Journal Entry columns: Date | Particulars | L.F. | Dr. (${symbol}) | Cr. (${symbol}).`,
+    settings.grouping === 'indian'
+      ? '- Group digits in the Indian style with lakhs and crores, e.g. 12,34,567. Use lakh and crore, not million, when naming large amounts.'
+      : '- Group digits in thousands, e.g. 1,234,567.',
+  ];
+  if (jurisdiction.taxTerms) {
+    lines.push(`- Jurisdiction: ${jurisdiction.label}. For tax questions, apply its law and use its terms (${jurisdiction.taxTerms}). Mention when a rate or threshold may have changed since your training data.`);
+  }
+  return lines.join('\n');
+};
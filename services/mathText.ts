@@ -0,0 +1,52 @@
+import type { Options as RemarkMathOptions } from 'remark-math';
+
+// Formulas in answers are LaTeX between \( \) (inline) or \[ \] (display). A single $ is
+// left alone because it is far more often a currency sign in accounting answers.
+
+export const REMARK_MATH_OPTIONS: RemarkMathOptions = { singleDollarTextMath: false };
+
+// Stylesheet for rendered formulas; the print window loads it too
+export const KATEX_CSS_URL = 'https://cdn.jsdelivr.net/npm/katex@0.16.47/dist/katex.min.css';
+
+// Rewrite \( \) and \[ \] delimiters as the $$ forms remark-math reads, outside code
+export const prepareMath = (markdown: string): string =>
+  markdown
+    .split(/(```[\s\S]*?```|`[^`\n]*`)/)
+    .map((part, idx) => idx % 2 === 1
+      ? part
+      : part
+        .replace(/\\\[([\s\S]+?)\\\]/g, (_, tex: string) => `\n$$\n${tex.trim()}\n$$\n`)
+        .replace(/\\\(([\s\S]+?)\\\)/g, (_, tex: string) => `$$${tex.trim()}$$`))
+    .join('');
+
+const SYMBOLS: Record<string, string> = {
+  times: '×', div: '÷', cdot: '·', pm: '±', le: '≤', leq: '≤', ge: '≥', geq: '≥', neq: '≠', ne: '≠',
+  approx: '≈', infty: '∞', sum: 'Σ', prod: 'Π', Delta: 'Δ', delta: 'δ', sigma: 'σ', mu: 'μ', beta: 'β',
+  alpha: 'α', rho: 'ρ', pi: 'π', percent: '%', rightarrow: '→', to: '→', ldots: '…', dots: '…',
+  left: '', right: '', quad: ' ', qquad: ' ',
+};
+
+// Bracket a fraction part unless it is a single term
+const group = (part: string) => (/^[\w.]+$/.test(part.trim()) ? part.trim() : `(${part.trim()})`);
+
+// Readable plain text for a LaTeX formula, for formats that cannot render it (DOCX).
+// Covers what accounting formulas use: fractions, roots, powers, subscripts and symbols.
+export const latexToText = (latex: string): string => {
+  let text = latex;
+  // Innermost groups first, so nested fractions come out right
+  for (let pass = 0; pass < 5; pass++) {
+    text = text
+      .replace(/\\[dt]?frac\s*\{([^{}]*)\}\s*\{([^{}]*)\}/g, (_, num: string, den: string) => `${group(num)} / ${group(den)}`)
+      .replace(/\\sqrt\s*\{([^{}]*)\}/g, '√($1)')
+      .replace(/\\(?:text|mathrm|textbf|mathbf|operatorname)\s*\{([^{}]*)\}/g, '$1');
+  }
+  return text
+    .replace(/\\([a-zA-Z]+)/g, (match, name: string) => SYMBOLS[name] ?? match.slice(1))
+    .replace(/\\[,;:! ]/g, ' ')
+    .replace(/\\%/g, '%')
+    .replace(/\^\{([^{}]*)\}/g, '^$1')
+    .replace(/_\{([^{}]*)\}/g, '_$1')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
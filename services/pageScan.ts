@@ -0,0 +1,245 @@
+// Camera scans of book and exam pages: finding the page in a photo, flattening it with a
+// perspective transform and cleaning it up for reading. Everything runs on a canvas.
+
+export interface Point {
+  x: number; // Fractions of the photo's width and height
+  y: number;
+}
+
+// Top-left, top-right, bottom-right, bottom-left
+export type PageCorners = [Point, Point, Point, Point];
+
+export type ScanFilter = 'original' | 'grayscale' | 'enhanced';
+
+export const SCAN_FILTERS: { id: ScanFilter; label: string }[] = [
+  { id: 'enhanced', label: 'Enhanced' },
+  { id: 'grayscale', label: 'Grayscale' },
+  { id: 'original', label: 'Original' },
+];
+
+export const FULL_FRAME: PageCorners = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 1, y: 1 }, { x: 0, y: 1 }];
+
+// Photos are scaled down on load; 2400px keeps small print legible
+const MAX_SOURCE_SIDE = 2400;
+export const MAX_OUTPUT_SIDE = 2000;
+// Edge detection works on a small copy, which also smooths out paper texture
+const DETECT_SIDE = 256;
+const JPEG_QUALITY = 0.85;
+
+const newCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const context2d = (canvas: HTMLCanvasElement) => {
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error('This browser cannot process images.');
+  return ctx;
+};
+
+const luminance = (r: number, g: number, b: number) => (r * 299 + g * 587 + b * 114) / 1000;
+
+// Photo drawn upright onto a canvas, scaled to at most MAX_SOURCE_SIDE
+export const loadPhoto = async (file: Blob): Promise<HTMLCanvasElement> => {
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const scale = Math.min(1, MAX_SOURCE_SIDE / Math.max(bitmap.width, bitmap.height));
+  const canvas = newCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  context2d(canvas).drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+  return canvas;
+};
+
+// Threshold that best splits a brightness histogram into two classes (Otsu's method)
+const otsuThreshold = (histogram: number[], total: number): number => {
+  const sum = histogram.reduce((acc, count, level) => acc + level * count, 0);
+  let sumBelow = 0;
+  let countBelow = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let level = 0; level < 256; level++) {
+    countBelow += histogram[level];
+    if (!countBelow) continue;
+    const countAbove = total - countBelow;
+    if (!countAbove) break;
+    sumBelow += level * histogram[level];
+    const meanBelow = sumBelow / countBelow;
+    const meanAbove = (sum - sumBelow) / countAbove;
+    const between = countBelow * countAbove * (meanBelow - meanAbove) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = level;
+    }
+  }
+  return threshold;
+};
+
+const quadArea = (corners: PageCorners) =>
+  Math.abs(corners.reduce((acc, p, i) => {
+    const next = corners[(i + 1) % 4];
+    return acc + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+// Corners of the page, taken as the brightest large region of the photo. Falls back to
+// the full frame when no page stands out from the background.
+export const detectPageCorners = (photo: HTMLCanvasElement): PageCorners => {
+  const scale = Math.min(1, DETECT_SIDE / Math.max(photo.width, photo.height));
+  const width = Math.max(1, Math.round(photo.width * scale));
+  const height = Math.max(1, Math.round(photo.height * scale));
+  const small = newCanvas(width, height);
+  const ctx = context2d(small);
+  ctx.drawImage(photo, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  const gray = new Uint8Array(width * height);
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(luminance(data[i * 4], data[i * 4 + 1], data[i * 4 + 2]));
+    histogram[gray[i]]++;
+  }
+  const threshold = otsuThreshold(histogram, gray.length);
+
+  // Extreme page pixels along the diagonals are its corners
+  let count = 0;
+  let topLeft = { x: 0, y: 0, score: Infinity };
+  let bottomRight = { x: 0, y: 0, score: -Infinity };
+  let topRight = { x: 0, y: 0, score: -Infinity };
+  let bottomLeft = { x: 0, y: 0, score: Infinity };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (gray[y * width + x] <= threshold) continue;
+      count++;
+      if (x + y < topLeft.score) topLeft = { x, y, score: x + y };
+      if (x + y > bottomRight.score) bottomRight = { x, y, score: x + y };
+      if (x - y > topRight.score) topRight = { x, y, score: x - y };
+      if (x - y < bottomLeft.score) bottomLeft = { x, y, score: x - y };
+    }
+  }
+  const share = count / gray.length;
+  if (share < 0.2 || share > 0.97) return FULL_FRAME;
+
+  const toPoint = ({ x, y }: { x: number; y: number }): Point => ({
+    x: width > 1 ? x / (width - 1) : 0,
+    y: height > 1 ? y / (height - 1) : 0,
+  });
+  const corners: PageCorners = [toPoint(topLeft), toPoint(topRight), toPoint(bottomRight), toPoint(bottomLeft)];
+  return quadArea(corners) < 0.2 ? FULL_FRAME : corners;
+};
+
+// Projective map from the unit square onto the quadrilateral `q` (Heckbert's square-to-quad)
+const squareToQuad = (q: { x: number; y: number }[]) => {
+  const [p0, p1, p2, p3] = q;
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = det ? (dx3 * dy2 - dx2 * dy3) / det : 0;
+  const h = det ? (dx1 * dy3 - dx3 * dy1) / det : 0;
+  const a = p1.x - p0.x + g * p1.x, b = p3.x - p0.x + h * p3.x, c = p0.x;
+  const d = p1.y - p0.y + g * p1.y, e = p3.y - p0.y + h * p3.y, f = p0.y;
+  return (u: number, v: number) => {
+    const w = g * u + h * v + 1;
+    return { x: (a * u + b * v + c) / w, y: (d * u + e * v + f) / w };
+  };
+};
+
+// The page inside `corners`, flattened to a rectangle no longer than `maxSide`
+const warpPage = (photo: HTMLCanvasElement, corners: PageCorners, maxSide: number): HTMLCanvasElement => {
+  const src = context2d(photo).getImageData(0, 0, photo.width, photo.height);
+  const points = corners.map(p => ({ x: p.x * (photo.width - 1), y: p.y * (photo.height - 1) }));
+  const dist = (a: { x: number; y: number }, b: { x: number; y: number }) => Math.hypot(a.x - b.x, a.y - b.y);
+  const pageWidth = Math.max(dist(points[0], points[1]), dist(points[3], points[2]));
+  const pageHeight = Math.max(dist(points[0], points[3]), dist(points[1], points[2]));
+  const scale = Math.min(1, maxSide / Math.max(pageWidth, pageHeight, 1));
+  const width = Math.max(1, Math.round(pageWidth * scale));
+  const height = Math.max(1, Math.round(pageHeight * scale));
+
+  const canvas = newCanvas(width, height);
+  const ctx = context2d(canvas);
+  const out = ctx.createImageData(width, height);
+  const map = squareToQuad(points);
+  const maxX = photo.width - 1;
+  const maxY = photo.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    const v = height > 1 ? y / (height - 1) : 0;
+    for (let x = 0; x < width; x++) {
+      const u = width > 1 ? x / (width - 1) : 0;
+      const s = map(u, v);
+      const sx = Math.min(maxX, Math.max(0, s.x));
+      const sy = Math.min(maxY, Math.max(0, s.y));
+      // Bilinear sample between the four nearest source pixels
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1), y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0, fy = sy - y0;
+      const i00 = (y0 * photo.width + x0) * 4, i10 = (y0 * photo.width + x1) * 4;
+      const i01 = (y1 * photo.width + x0) * 4, i11 = (y1 * photo.width + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const top = src.data[i00 + ch] * (1 - fx) + src.data[i10 + ch] * fx;
+        const bottom = src.data[i01 + ch] * (1 - fx) + src.data[i11 + ch] * fx;
+        out.data[o + ch] = top * (1 - fy) + bottom * fy;
+      }
+      out.data[o + 3] = 255;
+    }
+  }
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+};
+
+// Grayscale, and for 'enhanced' a levels stretch that turns dim paper white and print black
+const applyFilter = (image: ImageData, filter: ScanFilter) => {
+  if (filter === 'original') return;
+  const { data } = image;
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < data.length; i += 4) {
+    const gray = Math.round(luminance(data[i], data[i + 1], data[i + 2]));
+    data[i] = data[i + 1] = data[i + 2] = gray;
+    histogram[gray]++;
+  }
+  if (filter !== 'enhanced') return;
+
+  // Darkest 2% of pixels become black; the brightest 10%, mostly paper, white
+  const total = data.length / 4;
+  const percentile = (share: number) => {
+    let seen = 0;
+    for (let level = 0; level < 256; level++) {
+      seen += histogram[level];
+      if (seen >= total * share) return level;
+    }
+    return 255;
+  };
+  const black = percentile(0.02);
+  const white = Math.max(black + 32, percentile(0.9));
+  const levels = new Uint8ClampedArray(256);
+  for (let level = 0; level < 256; level++) {
+    levels[level] = ((level - black) / (white - black)) * 255;
+  }
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i + 1] = data[i + 2] = levels[data[i]];
+  }
+};
+
+// Cropped, flattened and filtered page
+export const renderScan = (
+  photo: HTMLCanvasElement,
+  corners: PageCorners,
+  filter: ScanFilter,
+  maxSide = MAX_OUTPUT_SIDE,
+): HTMLCanvasElement => {
+  const canvas = warpPage(photo, corners, maxSide);
+  const ctx = context2d(canvas);
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  applyFilter(image, filter);
+  ctx.putImageData(image, 0, 0);
+  return canvas;
+};
+
+export const canvasToJpeg = (canvas: HTMLCanvasElement): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(
+      blob => (blob ? resolve(blob) : reject(new Error('Could not encode the scanned page.'))),
+      'image/jpeg',
+      JPEG_QUALITY,
+    );
+  });
@@ -0,0 +1,38 @@
+// Text layer of a PDF, page by page. pdf.js is loaded on first use since it is large
+// and only needed when a book is added to the library.
+
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+  }
+  return pdfjs;
+};
+
+// Returns one string per page; scanned pages without a text layer come back empty
+export const readPdfPages = async (
+  data: ArrayBuffer,
+  onProgress?: (page: number, pageCount: number) => void,
+  signal?: AbortSignal,
+): Promise<string[]> => {
+  const pdfjs = await loadPdfJs();
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(data) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      signal?.throwIfAborted();
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/[ \t]+/g, ' ')
+        .trim());
+      page.cleanup();
+      onProgress?.(pageNumber, pdf.numPages);
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
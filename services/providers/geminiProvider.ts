@@ -0,0 +1,125 @@
+import { GoogleGenAI, ApiError, Content, Part, FunctionCall, FinishReason, GenerateContentResponse } from "@google/genai";
+import {
+  LlmProvider,
+  LlmMessage,
+  LlmError,
+  ChatRequest,
+  MAX_TOOL_ROUNDS,
+  errorCodeForStatus,
+} from "./types";
+
+export interface GeminiConfig {
+  apiKey: string;
+  model: string;
+}
+
+const toContents = (messages: LlmMessage[]): Content[] =>
+  messages.map(msg => ({
+    role: msg.role,
+    parts: msg.parts.map((part): Part =>
+      part.type === 'text'
+        ? { text: part.text }
+        : { inlineData: { mimeType: part.mimeType, data: part.data } }
+    ),
+  }));
+
+// Finish reasons that mean the answer was withheld by a content filter
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII,
+];
+
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  if (response.promptFeedback?.blockReason || BLOCKED_FINISH_REASONS.includes(response.candidates?.[0]?.finishReason)) {
+    throw new LlmError('The response was blocked by the safety filters.', 'safety', 'gemini');
+  }
+};
+
+const toLlmError = (error: unknown): LlmError => {
+  if (error instanceof LlmError) return error;
+  if (error instanceof ApiError) {
+    // An invalid key comes back as a plain 400
+    const code = /API_KEY_INVALID|API key not valid/i.test(error.message) ? 'auth' : errorCodeForStatus(error.status);
+    return new LlmError(error.message, code, 'gemini', error.status);
+  }
+  if (error instanceof TypeError) {
+    // fetch rejects with a TypeError when the network is unreachable
+    return new LlmError(error.message, 'network', 'gemini');
+  }
+  return new LlmError(error instanceof Error ? error.message : String(error), 'unknown', 'gemini');
+};
+
+export const createGeminiProvider = (config: GeminiConfig): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey: config.apiKey });
+
+  return {
+    id: 'gemini',
+
+    async streamChat(request, onText) {
+      const { signal } = request;
+      const contents = toContents(request.messages);
+      let text = "";
+
+      try {
+        // Tool-call loop: stream a round, run any tools the model asked for,
+        // send their results back, and continue until the model answers in text
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+          const stream = await ai.models.generateContentStream({
+            model: config.model,
+            contents,
+            config: {
+              systemInstruction: request.systemInstruction,
+              temperature: request.temperature,
+              tools: request.tools?.length
+                ? [{ functionDeclarations: request.tools.map(tool => ({ name: tool.name, description: tool.description, parametersJsonSchema: tool.parameters })) }]
+                : undefined,
+              responseMimeType: request.responseSchema ? "application/json" : undefined,
+              responseJsonSchema: request.responseSchema,
+              abortSignal: signal,
+            },
+          });
+
+          const modelParts: Part[] = [];
+          const functionCalls: FunctionCall[] = [];
+
+          for await (const chunk of stream) {
+            if (signal?.aborted) break;
+            throwIfBlocked(chunk);
+            // Keep the raw parts so function calls go back with their thought signatures
+            const parts = chunk.candidates?.[0]?.content?.parts || [];
+            modelParts.push(...parts);
+            functionCalls.push(...(chunk.functionCalls || []));
+
+            const chunkText = parts.filter(part => part.text && !part.thought).map(part => part.text).join('');
+            if (chunkText) {
+              text += chunkText;
+              onText(text);
+            }
+          }
+
+          if (signal?.aborted || functionCalls.length === 0 || !request.runTool) break;
+
+          const responses: Part[] = functionCalls.map(call => {
+            const result = request.runTool!(call.name || '', call.args || {});
+            return {
+              functionResponse: {
+                id: call.id,
+                name: call.name,
+                response: result.error ? { error: result.error } : { output: result.output },
+              },
+            };
+          });
+
+          contents.push({ role: 'model', parts: modelParts });
+          contents.push({ role: 'user', parts: responses });
+        }
+      } catch (error) {
+        throw toLlmError(error);
+      }
+
+      return { text };
+    },
+  };
+};
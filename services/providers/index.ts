@@ -0,0 +1,61 @@
+import { LlmProvider, ProviderId, OcrRequest } from "./types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createProxyProvider } from "./proxyProvider";
+
+export * from "./types";
+
+// Provider settings come from the environment: inlined by vite.config.ts in the
+// browser, read from process.env by the proxy server
+export const createProvider = (id: ProviderId): LlmProvider => {
+  switch (id) {
+    case 'proxy':
+      return createProxyProvider({ baseUrl: process.env.PROXY_URL || '/api' });
+    case 'openai':
+      return createOpenAiProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || 'llama3.1',
+      });
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+      return createGeminiProvider({
+        apiKey: process.env.API_KEY || process.env.GEMINI_API_KEY || '',
+        model: process.env.GEMINI_MODEL || 'gemini-2.5-flash',
+      });
+    default:
+      throw new Error(`Unknown LLM provider "${id}". Use proxy, gemini, openai or mock.`);
+  }
+};
+
+let provider: LlmProvider | null = null;
+
+// The app's provider is created on first use so a missing key does not break module loading
+export const getProvider = (): LlmProvider => {
+  if (!provider) provider = createProvider((process.env.LLM_PROVIDER || 'proxy') as ProviderId);
+  return provider;
+};
+
+const OCR_PROMPT = "Perform OCR: Transcribe all text from this image exactly as it appears. Return ONLY the extracted text, no introductory or concluding remarks. If there is no legible text, say so.";
+
+// Use the provider's OCR route when it has one, otherwise prompt the chat model
+export const extractTextWith = async (target: LlmProvider, request: OcrRequest): Promise<string> => {
+  if (target.extractText) return target.extractText(request);
+
+  const response = await target.streamChat(
+    {
+      messages: [{
+        role: 'user',
+        parts: [
+          { type: 'file', mimeType: request.mimeType, data: request.data },
+          { type: 'text', text: OCR_PROMPT },
+        ],
+      }],
+      signal: request.signal,
+    },
+    () => {},
+  );
+  return response.text;
+};
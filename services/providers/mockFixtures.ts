@@ -0,0 +1,175 @@
+import { LlmErrorCode } from "./types";
+
+// Canned replies for the offline mock provider. The first fixture whose pattern
+// matches the latest user text is replayed; the last one is the catch-all.
+export interface MockFixture {
+  match: RegExp;
+  text: string;
+  // Tool the mock "calls" before answering, to exercise the tool round-trip
+  toolCall?: { name: string; args: Record<string, unknown> };
+  // JSON returned instead of `text` when the request asks for structured output
+  json?: unknown;
+  // Fail with this error instead of answering
+  error?: LlmErrorCode;
+}
+
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    match: /simulate (an )?error/i,
+    text: '',
+    error: 'server',
+  },
+  {
+    match: /simulate (a )?safety block/i,
+    text: '',
+    error: 'safety',
+  },
+  {
+    match: /calculate (the )?income tax/i,
+    toolCall: {
+      name: 'compute_income_tax',
+      args: { packId: 'pk-2025', category: 'salaried', grossIncome: 1800000 },
+    },
+    text: [
+      '**Given:** Annual salary Rs. 1,800,000 (salaried individual, Tax Year 2025).',
+      '',
+      '| Slab | Rate | Taxable amount | Tax |',
+      '|---|---:|---:|---:|',
+      '| 0 – 600,000 | 0% | 600,000 | 0 |',
+      '| 600,000 – 1,200,000 | 5% | 600,000 | 30,000 |',
+      '| 1,200,000 – 2,200,000 | 15% | 600,000 | 90,000 |',
+      '',
+      '**Total tax payable: Rs. 120,000**',
+      '',
+      '_Source: rule pack pk-2025 v1, Tax Year 2025 (Income Tax Ordinance 2001, First Schedule Part I)._',
+    ].join('\n'),
+  },
+  {
+    match: /draw a chart for/i,
+    text: '',
+    json: {
+      kind: 'line',
+      title: 'Break-even chart',
+      xLabel: 'Units sold',
+      yLabel: 'Amount ($)',
+      xValues: [0, 1000, 2000, 3000, 4000],
+      series: [
+        { name: 'Sales revenue', values: [0, 20000, 40000, 60000, 80000] },
+        { name: 'Total cost', values: [30000, 42000, 54000, 66000, 78000] },
+        { name: 'Fixed cost', values: [30000, 30000, 30000, 30000, 30000] },
+      ],
+      annotations: [{ label: 'Break-even point', x: 3750, y: 75000 }],
+      summary: 'With fixed costs of $30,000, a selling price of $20 and variable cost of $12 per unit, the business breaks even at 3,750 units ($75,000 of sales). Above that, the gap between the revenue and total cost lines is profit.',
+    },
+  },
+  {
+    match: /turn this material into flashcards/i,
+    text: '',
+    json: {
+      cards: [
+        { front: 'What is the Matching Principle?', back: 'Expenses are recorded in the same period as the revenue they help to earn.' },
+        { front: 'Break-even point (units) formula', back: 'Fixed costs ÷ Contribution per unit' },
+        { front: 'Golden rule for a Personal Account', back: 'Debit the receiver, credit the giver.' },
+      ],
+    },
+  },
+  {
+    match: /create a practice quiz/i,
+    text: '',
+    json: {
+      questions: [
+        {
+          type: 'mcq',
+          prompt: 'Which account is credited when goods are sold on credit to Ali?',
+          options: ['Ali A/c', 'Sales A/c', 'Cash A/c', 'Purchases A/c'],
+          correctOptionIndex: 1,
+          explanation: 'Debit the debtor (Ali) and credit Sales A/c.',
+        },
+        {
+          type: 'true-false',
+          prompt: 'Prepaid rent is shown on the assets side of the Balance Sheet.',
+          trueFalseAnswer: true,
+          explanation: 'Prepaid expenses are current assets.',
+        },
+        {
+          type: 'numerical',
+          prompt: 'Fixed cost is $60,000, selling price $50 and variable cost $30 per unit. Find the break-even point in units.',
+          numericAnswer: 3000,
+          unit: 'units',
+          explanation: 'Contribution per unit = 50 - 30 = 20. BEP = 60,000 / 20 = 3,000 units.',
+        },
+      ],
+    },
+  },
+  {
+    match: /grade this student's working/i,
+    text: '',
+    json: { score: 0.5, feedback: 'Mock grading: the method is partly shown. Write the formula before substituting figures.' },
+  },
+  {
+    match: /classify each trial balance account/i,
+    text: '',
+    json: { suggestions: [] },
+  },
+  {
+    match: /update the running summary/i,
+    text: [
+      '- The student is revising cost-volume-profit analysis and journal entries.',
+      '- Break-even worked out at 3,000 units from fixed cost 60,000 and contribution 20 per unit.',
+      '- Still to do: margin of safety for budgeted sales of 4,000 units.',
+    ].join('\n'),
+  },
+  {
+    match: /break[- ]?even/i,
+    toolCall: {
+      name: 'break_even_analysis',
+      args: { fixedCost: 60000, sellingPricePerUnit: 50, variableCostPerUnit: 30 },
+    },
+    text: [
+      '### Break-even Analysis',
+      '',
+      '| Particulars | Amount ($) |',
+      '|---|---|',
+      '| Contribution per unit (50 - 30) | 20 |',
+      '| P/V ratio | 40% |',
+      '| Break-even point (units) | 3,000 |',
+      '| Break-even sales | 150,000 |',
+      '',
+      '**Break-even point = Fixed cost / Contribution per unit = 60,000 / 20 = 3,000 units.**',
+    ].join('\n'),
+  },
+  {
+    match: /journal/i,
+    text: [
+      '### Journal Entries',
+      '',
+      '| Date | Particulars | L.F. | Debit ($) | Credit ($) |',
+      '|---|---|---|---|---|',
+      '| Jan 1 | Cash A/c Dr. | | 50,000 | |',
+      '| | To Capital A/c | | | 50,000 |',
+      '| | (Being business started with cash) | | | |',
+      '| Jan 5 | Purchases A/c Dr. | | 12,000 | |',
+      '| | To Cash A/c | | | 12,000 |',
+      '| | (Being goods purchased for cash) | | | |',
+      '| | **Total** | | **62,000** | **62,000** |',
+    ].join('\n'),
+  },
+  {
+    match: /\[Library passages\]/,
+    text: [
+      'Your textbook covers this directly [Source 1].',
+      '',
+      '**Key point:** the answer follows the passage quoted from your library; open the citation to read it in context [Sources 1, 2].',
+    ].join('\n'),
+  },
+  {
+    match: /[\s\S]*/,
+    text: [
+      'This is an offline answer from the mock provider.',
+      '',
+      '**Key point:** every debit has an equal and corresponding credit, so the trial balance totals must agree.',
+      '',
+      'Choose a real provider in `.env.local` (see the README) for real answers.',
+    ].join('\n'),
+  },
+];
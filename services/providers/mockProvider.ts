@@ -0,0 +1,47 @@
+import { LlmProvider, LlmError, ChatRequest } from "./types";
+import { MOCK_FIXTURES, MockFixture } from "./mockFixtures";
+
+// Characters emitted per simulated stream chunk, and the pause between chunks
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 20;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const findFixture = (request: ChatRequest): MockFixture => {
+  const lastUser = [...request.messages].reverse().find(msg => msg.role === 'user');
+  const prompt = lastUser?.parts.map(part => part.type === 'text' ? part.text : '').join('\n') || '';
+  return MOCK_FIXTURES.find(fixture => fixture.match.test(prompt)) || MOCK_FIXTURES[MOCK_FIXTURES.length - 1];
+};
+
+// Deterministic provider that replays fixtures, for offline development and demos
+export const createMockProvider = (): LlmProvider => ({
+  id: 'mock',
+
+  async streamChat(request: ChatRequest, onText) {
+    const fixture = findFixture(request);
+
+    if (fixture.error) {
+      throw new LlmError(`Mock provider simulated a ${fixture.error} error.`, fixture.error, 'mock');
+    }
+
+    if (request.responseSchema) {
+      const json = JSON.stringify(fixture.json ?? {});
+      onText(json);
+      return { text: json };
+    }
+
+    if (fixture.toolCall && request.runTool) {
+      request.runTool(fixture.toolCall.name, fixture.toolCall.args);
+    }
+
+    let text = "";
+    for (let i = 0; i < fixture.text.length; i += CHUNK_SIZE) {
+      if (request.signal?.aborted) break;
+      await wait(CHUNK_DELAY_MS);
+      text += fixture.text.slice(i, i + CHUNK_SIZE);
+      onText(text);
+    }
+
+    return { text };
+  },
+});
@@ -0,0 +1,199 @@
+import {
+  LlmProvider,
+  LlmMessage,
+  LlmError,
+  ChatRequest,
+  MAX_TOOL_ROUNDS,
+  errorCodeForStatus,
+} from "./types";
+
+// Works with the OpenAI API and servers that mimic it (Ollama, LM Studio, vLLM, llama.cpp)
+export interface OpenAiConfig {
+  baseUrl: string;
+  apiKey?: string;
+  model: string;
+}
+
+interface ToolCall {
+  id: string;
+  type: 'function';
+  function: { name: string; arguments: string };
+}
+
+// One streamed chunk of a chat completion, as far as this provider reads it
+interface ChatChunk {
+  choices?: {
+    delta?: {
+      content?: string | null;
+      tool_calls?: { index: number; id?: string; function?: { name?: string; arguments?: string } }[];
+    };
+    finish_reason?: string | null;
+  }[];
+}
+
+type ChatMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | Record<string, unknown>[] }
+  | { role: 'assistant'; content: string | null; tool_calls?: ToolCall[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+const toChatMessages = (messages: LlmMessage[], systemInstruction?: string): ChatMessage[] => {
+  const result: ChatMessage[] = systemInstruction ? [{ role: 'system', content: systemInstruction }] : [];
+
+  messages.forEach(msg => {
+    if (msg.role === 'model') {
+      // Assistant turns are text only in this API
+      const text = msg.parts.map(part => part.type === 'text' ? part.text : '').join('');
+      result.push({ role: 'assistant', content: text });
+      return;
+    }
+
+    const content = msg.parts.map(part => {
+      if (part.type === 'text') return { type: 'text', text: part.text };
+      const dataUrl = `data:${part.mimeType};base64,${part.data}`;
+      if (part.mimeType.startsWith('image/')) return { type: 'image_url', image_url: { url: dataUrl } };
+      return { type: 'file', file: { filename: part.name || 'attachment', file_data: dataUrl } };
+    });
+    result.push({ role: 'user', content });
+  });
+
+  return result;
+};
+
+const toLlmError = (error: unknown): LlmError => {
+  if (error instanceof LlmError) return error;
+  if (error instanceof TypeError) {
+    // fetch rejects with a TypeError when the server is unreachable
+    return new LlmError(`Could not reach the model server: ${error.message}`, 'network', 'openai');
+  }
+  return new LlmError(error instanceof Error ? error.message : String(error), 'unknown', 'openai');
+};
+
+const readErrorResponse = async (response: Response): Promise<LlmError> => {
+  let message = `${response.status} ${response.statusText}`;
+  try {
+    const body = await response.json();
+    message = body?.error?.message || message;
+  } catch {
+    // Not JSON; keep the status line
+  }
+  return new LlmError(message, errorCodeForStatus(response.status), 'openai', response.status);
+};
+
+// Events without a choices list (keep-alives, usage reports) carry nothing to read
+const toChatChunk = (payload: string): ChatChunk => {
+  const value: unknown = JSON.parse(payload);
+  return typeof value === 'object' && value !== null && Array.isArray((value as ChatChunk).choices)
+    ? value as ChatChunk
+    : {};
+};
+
+// Yield the chunk in each server-sent event until the [DONE] marker
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatChunk> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      const data = line.trim();
+      if (!data.startsWith('data:')) continue;
+      const payload = data.slice(5).trim();
+      if (payload === '[DONE]') return;
+      yield toChatChunk(payload);
+    }
+  }
+}
+
+export const createOpenAiProvider = (config: OpenAiConfig): LlmProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`;
+
+  return {
+    id: 'openai',
+
+    async streamChat(request: ChatRequest, onText) {
+      const { signal } = request;
+      const messages = toChatMessages(request.messages, request.systemInstruction);
+      let text = "";
+
+      try {
+        for (let round = 0; round < MAX_TOOL_ROUNDS; round++) {
+          const response = await fetch(`${baseUrl}/chat/completions`, {
+            method: 'POST',
+            headers,
+            signal,
+            body: JSON.stringify({
+              model: config.model,
+              messages,
+              temperature: request.temperature,
+              stream: true,
+              tools: request.tools?.length
+                ? request.tools.map(tool => ({ type: 'function', function: tool }))
+                : undefined,
+              response_format: request.responseSchema
+                ? { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } }
+                : undefined,
+            }),
+          });
+
+          if (!response.ok || !response.body) throw await readErrorResponse(response);
+
+          // Tool calls arrive in fragments keyed by index; arguments are streamed as partial JSON
+          const toolCalls: ToolCall[] = [];
+          let roundText = "";
+
+          for await (const event of readEvents(response.body)) {
+            if (event.choices?.[0]?.finish_reason === 'content_filter') {
+              throw new LlmError('The response was blocked by the content filter.', 'safety', 'openai');
+            }
+            const delta = event.choices?.[0]?.delta;
+            if (!delta) continue;
+
+            if (delta.content) {
+              roundText += delta.content;
+              text += delta.content;
+              onText(text);
+            }
+
+            for (const fragment of delta.tool_calls || []) {
+              const call = toolCalls[fragment.index] ||= { id: '', type: 'function', function: { name: '', arguments: '' } };
+              if (fragment.id) call.id = fragment.id;
+              if (fragment.function?.name) call.function.name += fragment.function.name;
+              if (fragment.function?.arguments) call.function.arguments += fragment.function.arguments;
+            }
+          }
+
+          if (signal?.aborted || toolCalls.length === 0 || !request.runTool) break;
+
+          messages.push({ role: 'assistant', content: roundText || null, tool_calls: toolCalls });
+          toolCalls.forEach(call => {
+            let args: Record<string, unknown> = {};
+            try {
+              args = JSON.parse(call.function.arguments || '{}');
+            } catch {
+              // Leave args empty; the tool reports the missing inputs
+            }
+            const result = request.runTool!(call.function.name, args);
+            messages.push({
+              role: 'tool',
+              tool_call_id: call.id,
+              content: JSON.stringify(result.error ? { error: result.error } : { output: result.output }),
+            });
+          });
+        }
+      } catch (error) {
+        throw toLlmError(error);
+      }
+
+      return { text };
+    },
+  };
+};
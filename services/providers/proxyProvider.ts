@@ -0,0 +1,123 @@
+import {
+  LlmProvider,
+  LlmError,
+  LlmErrorCode,
+  ChatRequest,
+  OcrRequest,
+  errorCodeForStatus,
+} from "./types";
+
+// Talks to the AcctSolver server (server/index.ts), which holds the API key
+
+export interface ProxyConfig {
+  baseUrl: string;
+}
+
+// Body of POST /chat. Tools are run by the server; it reports each call as an event.
+export type ProxyChatBody = Omit<ChatRequest, 'runTool' | 'signal'>;
+
+// One JSON object per line in the /chat response
+export type ProxyEvent =
+  | { type: 'text'; text: string }
+  | { type: 'tool'; name: string; args: Record<string, unknown> }
+  | { type: 'error'; code: LlmErrorCode; message: string; status?: number };
+
+export interface ProxyErrorBody {
+  error: { code: LlmErrorCode; message: string };
+}
+
+const toLlmError = (error: unknown): LlmError => {
+  if (error instanceof LlmError) return error;
+  if (error instanceof TypeError) {
+    return new LlmError(`Could not reach the AcctSolver server: ${error.message}`, 'network', 'proxy');
+  }
+  return new LlmError(error instanceof Error ? error.message : String(error), 'unknown', 'proxy');
+};
+
+const readErrorResponse = async (response: Response): Promise<LlmError> => {
+  try {
+    const body: ProxyErrorBody = await response.json();
+    return new LlmError(body.error.message, body.error.code, 'proxy', response.status);
+  } catch {
+    return new LlmError(`${response.status} ${response.statusText}`, errorCodeForStatus(response.status), 'proxy', response.status);
+  }
+};
+
+// Yield each newline-delimited JSON event from the response body
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ProxyEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) yield JSON.parse(line);
+    }
+  }
+  if (buffer.trim()) yield JSON.parse(buffer);
+}
+
+export const createProxyProvider = (config: ProxyConfig): LlmProvider => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const postJson = async <T,>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    try {
+      const response = await fetch(`${baseUrl}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (!response.ok) throw await readErrorResponse(response);
+      return await response.json();
+    } catch (error) {
+      throw toLlmError(error);
+    }
+  };
+
+  return {
+    id: 'proxy',
+
+    async streamChat(request, onText) {
+      const { runTool, signal, ...body } = request;
+      let text = "";
+
+      try {
+        const response = await fetch(`${baseUrl}/chat`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body satisfies ProxyChatBody),
+          signal,
+        });
+        if (!response.ok || !response.body) throw await readErrorResponse(response);
+
+        for await (const event of readEvents(response.body)) {
+          if (event.type === 'text') {
+            text = event.text;
+            onText(text);
+          } else if (event.type === 'tool') {
+            // Calculators are deterministic, so re-running locally yields the server's result
+            runTool?.(event.name, event.args);
+          } else {
+            throw new LlmError(event.message, event.code, 'proxy', event.status);
+          }
+        }
+      } catch (error) {
+        throw toLlmError(error);
+      }
+
+      return { text };
+    },
+
+    async extractText({ signal, ...request }: OcrRequest) {
+      const { text } = await postJson<{ text: string }>('/ocr', request, signal);
+      return text;
+    },
+  };
+};
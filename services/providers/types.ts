@@ -0,0 +1,108 @@
+// Provider-neutral contract between the app and an LLM backend.
+// Each provider translates these shapes to and from its own wire format.
+
+export type ProviderId = 'gemini' | 'openai' | 'mock' | 'proxy';
+
+// Plain JSON Schema subset, shared by tool parameters and structured output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  enum?: string[];
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+}
+
+export type LlmPart =
+  | { type: 'text'; text: string }
+  // Base64 file content without the data URL prefix
+  | { type: 'file'; mimeType: string; data: string; name?: string };
+
+export interface LlmMessage {
+  role: 'user' | 'model';
+  parts: LlmPart[];
+}
+
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters: JsonSchema;
+}
+
+// Result of a tool the app ran on the model's behalf
+export interface ToolResult {
+  output?: unknown;
+  error?: string;
+}
+
+export interface ChatRequest {
+  messages: LlmMessage[];
+  systemInstruction?: string;
+  temperature?: number;
+  tools?: ToolDeclaration[];
+  // Called for every tool call; providers feed the result back to the model
+  runTool?: (name: string, args: Record<string, unknown>) => ToolResult;
+  // When set, the model must answer with JSON matching this schema
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface ChatResponse {
+  text: string;
+}
+
+export interface OcrRequest {
+  mimeType: string;
+  data: string;
+  signal?: AbortSignal;
+}
+
+export type LlmErrorCode =
+  | 'auth'
+  | 'rate-limit'
+  | 'network'
+  | 'safety'
+  | 'too-large'
+  | 'invalid-request'
+  | 'unsupported'
+  | 'server'
+  | 'unknown';
+
+// Failures worth retrying: the same request may succeed a moment later
+export const TRANSIENT_ERROR_CODES: LlmErrorCode[] = ['rate-limit', 'network', 'server'];
+
+export class LlmError extends Error {
+  code: LlmErrorCode;
+  provider: ProviderId;
+  status?: number;
+
+  constructor(message: string, code: LlmErrorCode, provider: ProviderId, status?: number) {
+    super(message);
+    this.name = 'LlmError';
+    this.code = code;
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+export interface LlmProvider {
+  readonly id: ProviderId;
+  // Streams the answer; `onText` receives the accumulated text so far.
+  // Tool calls are resolved through `request.runTool` before the final answer.
+  streamChat(request: ChatRequest, onText: (text: string) => void): Promise<ChatResponse>;
+  // Dedicated OCR route; providers without one are prompted through streamChat
+  extractText?(request: OcrRequest): Promise<string>;
+}
+
+// Upper bound on tool round-trips for a single answer
+export const MAX_TOOL_ROUNDS = 5;
+
+// Map an HTTP status to an error code shared by all providers
+export const errorCodeForStatus = (status?: number): LlmErrorCode => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'rate-limit';
+  if (status === 413) return 'too-large';
+  if (status === 400 || status === 404 || status === 422) return 'invalid-request';
+  if (status && status >= 500) return 'server';
+  return 'unknown';
+};
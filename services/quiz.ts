@@ -0,0 +1,146 @@
+import { v4 as uuidv4 } from 'uuid';
+import { parseAmount } from './balanceValidator';
+import { formatNumber } from './localeSettings';
+
+export type QuizDifficulty = 'easy' | 'medium' | 'hard';
+
+export const QUIZ_DIFFICULTIES: QuizDifficulty[] = ['easy', 'medium', 'hard'];
+
+interface QuestionBase {
+  id: string;
+  prompt: string;
+  explanation: string; // Model solution shown after grading
+}
+
+export type QuizQuestion =
+  | (QuestionBase & { type: 'mcq'; options: string[]; correctIndex: number })
+  | (QuestionBase & { type: 'true-false'; answer: boolean })
+  | (QuestionBase & { type: 'numerical'; answer: number; unit?: string });
+
+export interface QuizResult {
+  questionId: string;
+  response: string;
+  working?: string; // Steps shown for a numerical question
+  score: number; // 0 to 1
+  feedback?: string;
+}
+
+export interface QuizAttempt {
+  id: string;
+  subject: string;
+  difficulty: QuizDifficulty;
+  questions: QuizQuestion[];
+  results: QuizResult[];
+  score: number; // Sum of result scores
+  createdAt: Date;
+}
+
+// Shape the model fills in; one flat object per question keeps the schema simple
+export interface RawQuizQuestion {
+  type: 'mcq' | 'true-false' | 'numerical';
+  prompt: string;
+  explanation: string;
+  options?: string[];
+  correctOptionIndex?: number;
+  trueFalseAnswer?: boolean;
+  numericAnswer?: number;
+  unit?: string;
+}
+
+// Keep only well-formed questions from the model's output
+export const normalizeQuizQuestions = (raw: RawQuizQuestion[]): QuizQuestion[] => {
+  const questions: QuizQuestion[] = [];
+  raw.forEach(item => {
+    if (!item?.prompt) return;
+    const base = { id: uuidv4(), prompt: item.prompt, explanation: item.explanation || '' };
+
+    if (item.type === 'mcq' && Array.isArray(item.options) && item.options.length >= 2
+      && Number.isInteger(item.correctOptionIndex) && item.correctOptionIndex! >= 0 && item.correctOptionIndex! < item.options.length) {
+      questions.push({ ...base, type: 'mcq', options: item.options, correctIndex: item.correctOptionIndex! });
+    } else if (item.type === 'true-false' && typeof item.trueFalseAnswer === 'boolean') {
+      questions.push({ ...base, type: 'true-false', answer: item.trueFalseAnswer });
+    } else if (item.type === 'numerical' && typeof item.numericAnswer === 'number' && Number.isFinite(item.numericAnswer)) {
+      questions.push({ ...base, type: 'numerical', answer: item.numericAnswer, unit: item.unit || undefined });
+    }
+  });
+  return questions;
+};
+
+// Numerical answers within half a percent (or 0.01) of the key count as correct
+const isCloseEnough = (value: number, expected: number) =>
+  Math.abs(value - expected) <= Math.max(0.01, Math.abs(expected) * 0.005);
+
+// A figure, with an optional "=" or currency marker before it and "%" after it
+const FIGURE = /(=\s*|(?:[$€£₹¥]|\b(?:Rs\.?|INR|USD|EUR|GBP))\s*)?(\(?-?\d[\d,]*(?:\.\d+)?\)?)(\s*%)?/gi;
+
+// Pull the final figure out of a numerical answer such as "$12,500" or "Rs. 4,000 (Dr)".
+// In a sentence like "NPV = 12,500 at 10%", a figure after "=" or a currency sign is the
+// answer; otherwise the last figure that is not a rate, and failing that the last figure.
+export const parseNumericResponse = (response: string): number | null => {
+  const figures = Array.from(response.matchAll(FIGURE), ([, marker, figure, percent]) => ({ marker, figure, percent }));
+  const pick = figures.filter(f => f.marker).pop() ?? figures.filter(f => !f.percent).pop() ?? figures.pop();
+  return pick ? parseAmount(pick.figure) : null;
+};
+
+// Grade MCQ and true/false locally; numerical answers only get a final-figure check here
+export const gradeObjective = (question: QuizQuestion, response: string): QuizResult => {
+  const result = (score: number, feedback?: string): QuizResult => ({ questionId: question.id, response, score, feedback });
+
+  switch (question.type) {
+    case 'mcq':
+      return result(Number(response) === question.correctIndex ? 1 : 0);
+    case 'true-false':
+      return result(response === String(question.answer) ? 1 : 0);
+    case 'numerical': {
+      const value = parseNumericResponse(response);
+      return value !== null && isCloseEnough(value, question.answer)
+        ? result(1, 'The final figure matches the answer key.')
+        : result(0, 'The final figure does not match the answer key.');
+    }
+  }
+};
+
+export const formatCorrectAnswer = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'mcq':
+      return question.options[question.correctIndex];
+    case 'true-false':
+      return question.answer ? 'True' : 'False';
+    case 'numerical':
+      return `${formatNumber(question.answer, undefined, 4)}${question.unit ? ` ${question.unit}` : ''}`;
+  }
+};
+
+export interface SubjectQuizStats {
+  subject: string;
+  attempts: number;
+  averagePercent: number;
+  bestPercent: number;
+  // Oldest first, for the trend line
+  recentPercents: number[];
+}
+
+export const attemptPercent = (attempt: QuizAttempt) =>
+  attempt.questions.length ? Math.round((attempt.score / attempt.questions.length) * 100) : 0;
+
+// Per-subject summary of saved attempts, most practised subject first
+export const summarizeAttempts = (attempts: QuizAttempt[]): SubjectQuizStats[] => {
+  const bySubject = new Map<string, QuizAttempt[]>();
+  attempts.forEach(attempt => {
+    bySubject.set(attempt.subject, [...(bySubject.get(attempt.subject) || []), attempt]);
+  });
+
+  return [...bySubject.entries()]
+    .map(([subject, list]) => {
+      const sorted = [...list].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+      const percents = sorted.map(attemptPercent);
+      return {
+        subject,
+        attempts: list.length,
+        averagePercent: Math.round(percents.reduce((a, b) => a + b, 0) / percents.length),
+        bestPercent: Math.max(...percents),
+        recentPercents: percents.slice(-10),
+      };
+    })
+    .sort((a, b) => b.attempts - a.attempts);
+};
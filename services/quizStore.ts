@@ -0,0 +1,19 @@
+import { openDatabase, completeTransaction, requestToPromise, QUIZ_ATTEMPTS_STORE } from './chatDatabase';
+import { QuizAttempt } from './quiz';
+
+export const saveQuizAttempt = async (attempt: QuizAttempt): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUIZ_ATTEMPTS_STORE, 'readwrite');
+  tx.objectStore(QUIZ_ATTEMPTS_STORE).put(attempt);
+  await completeTransaction(tx);
+};
+
+// All saved attempts, newest first
+export const loadQuizAttempts = async (): Promise<QuizAttempt[]> => {
+  const db = await openDatabase();
+  const tx = db.transaction(QUIZ_ATTEMPTS_STORE, 'readonly');
+  const attempts = await requestToPromise(tx.objectStore(QUIZ_ATTEMPTS_STORE).getAll() as IDBRequest<QuizAttempt[]>);
+  return attempts
+    .map(attempt => ({ ...attempt, createdAt: new Date(attempt.createdAt) }))
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+};
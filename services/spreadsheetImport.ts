@@ -0,0 +1,64 @@
+import * as XLSX from 'xlsx';
+import { Attachment } from '../types';
+import { encodeTextAsDataUrl } from './fileUtils';
+
+export const SPREADSHEET_EXTENSIONS = ['xlsx', 'xls', 'ods'];
+
+export interface WorkbookSheet {
+  name: string;
+  csv: string;
+  previewRows: string[][]; // First few rows, for the attachment card
+}
+
+export interface ParsedWorkbook {
+  fileName: string;
+  sheets: WorkbookSheet[];
+}
+
+const PREVIEW_ROWS = 5;
+const PREVIEW_COLUMNS = 5;
+
+export const isSpreadsheetFile = (fileName: string) =>
+  SPREADSHEET_EXTENSIONS.includes(fileName.split('.').pop()?.toLowerCase() || '');
+
+// Parse a workbook in the browser and convert every non-empty sheet to CSV text
+export const readWorkbook = async (file: File): Promise<ParsedWorkbook> => {
+  const workbook = XLSX.read(await file.arrayBuffer(), { type: 'array', cellDates: true });
+
+  const sheets = workbook.SheetNames.map(name => {
+    const sheet = workbook.Sheets[name];
+    // Formatted values keep the workbook's own number and date display
+    const csv = XLSX.utils.sheet_to_csv(sheet, { blankrows: false }).trim();
+    const rows = XLSX.utils.sheet_to_json<string[]>(sheet, { header: 1, raw: false, blankrows: false });
+    const previewRows = rows
+      .slice(0, PREVIEW_ROWS)
+      .map(row => Array.from({ length: Math.min(PREVIEW_COLUMNS, row.length) }, (_, i) => String(row[i] ?? '')));
+    return { name, csv, previewRows };
+  }).filter(sheet => sheet.csv.length > 0);
+
+  if (sheets.length === 0) {
+    throw new Error(`${file.name} does not contain any data.`);
+  }
+  return { fileName: file.name, sheets };
+};
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+// Build the text attachment sent to the model for one sheet, or for all sheets when sheetIndex is null
+export const workbookToAttachment = (workbook: ParsedWorkbook, sheetIndex: number | null): Attachment => {
+  if (sheetIndex !== null || workbook.sheets.length === 1) {
+    const sheet = workbook.sheets[sheetIndex ?? 0];
+    return {
+      data: encodeTextAsDataUrl(sheet.csv, 'text/csv'),
+      mimeType: 'text/csv',
+      name: `${baseName(workbook.fileName)} - ${sheet.name}.csv`,
+    };
+  }
+
+  const combined = workbook.sheets.map(sheet => `# Sheet: ${sheet.name}\n${sheet.csv}`).join('\n\n');
+  return {
+    data: encodeTextAsDataUrl(combined, 'text/plain'),
+    mimeType: 'text/plain',
+    name: `${baseName(workbook.fileName)} (all sheets).txt`,
+  };
+};
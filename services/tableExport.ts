@@ -0,0 +1,89 @@
+import * as XLSX from 'xlsx';
+import { parseAmount } from './balanceValidator';
+import { downloadBlob } from './fileUtils';
+import { latexToText } from './mathText';
+
+export type CellValue = string | number;
+
+// KaTeX renders each formula twice (MathML and HTML), so its text is read from the TeX source
+const cellText = (cell: HTMLTableCellElement): string => {
+  if (!cell.querySelector('.katex')) return cell.textContent || '';
+  const copy = cell.cloneNode(true) as HTMLTableCellElement;
+  copy.querySelectorAll('.katex').forEach(math => {
+    const tex = math.querySelector('annotation[encoding="application/x-tex"]')?.textContent;
+    math.replaceWith(tex ? latexToText(tex) : math.querySelector('.katex-html')?.textContent || '');
+  });
+  return copy.textContent || '';
+};
+
+// Read the rendered text of an HTML table, one array per row
+export const readTableElement = (table: HTMLTableElement): string[][] =>
+  Array.from(table.rows).map(row =>
+    Array.from(row.cells).map(cell => cellText(cell).replace(/\s+/g, ' ').trim())
+  );
+
+const PERCENT_CELL = /^(-?[\d,]+(?:\.\d+)?)\s*%$/;
+
+// Turn "$ 1,20,000", "(500)" or "12.5%" into numbers; anything else stays text
+export const parseCell = (text: string): CellValue => {
+  const percent = text.trim().match(PERCENT_CELL);
+  if (percent) return parseFloat(percent[1].replace(/,/g, '')) / 100;
+
+  const amount = parseAmount(text);
+  return amount === null ? text : amount;
+};
+
+// Spreadsheets run text starting with these as a formula; a leading ' keeps it as text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const asText = (value: CellValue): CellValue =>
+  typeof value === 'string' && FORMULA_START.test(value) ? `'${value}` : value;
+
+// Header row stays text; body cells are parsed
+const toTypedRows = (rows: string[][]): CellValue[][] =>
+  rows.map((row, idx) => (idx === 0 ? row : row.map(parseCell)).map(asText));
+
+// Text formats keep percentages as "12.5%", which spreadsheets parse on import
+const toTextRows = (rows: string[][]): CellValue[][] =>
+  rows.map((row, idx) => (idx === 0 ? row.map(asText) : row.map(text =>
+    PERCENT_CELL.test(text.trim()) ? text.replace(/[,\s]/g, '') : asText(parseCell(text))
+  )));
+
+const escapeCsvField = (value: CellValue) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: string[][]) =>
+  toTextRows(rows).map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+
+// TSV is what spreadsheets expect on the clipboard
+export const toTsv = (rows: string[][]) =>
+  toTextRows(rows).map(row => row.map(value => String(value).replace(/[\t\n]/g, ' ')).join('\t')).join('\n');
+
+export const toXlsxBlob = (rows: string[][], sheetName = 'Table'): Blob => {
+  const typedRows = toTypedRows(rows);
+  const sheet = XLSX.utils.aoa_to_sheet(typedRows);
+
+  // Show parsed percentages as percentages rather than fractions
+  rows.forEach((row, r) => row.forEach((text, c) => {
+    if (r > 0 && /%\s*$/.test(text) && typeof typedRows[r][c] === 'number') {
+      const cell = sheet[XLSX.utils.encode_cell({ r, c })];
+      if (cell) cell.z = '0.00%';
+    }
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, sheet, sheetName.slice(0, 31));
+  const data = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' });
+  return new Blob([data], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
+
+export const downloadTableAsCsv = (rows: string[][], fileName: string) => {
+  // BOM so Excel opens UTF-8 currency symbols correctly
+  downloadBlob(new Blob(['\uFEFF', toCsv(rows)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`);
+};
+
+export const downloadTableAsXlsx = (rows: string[][], fileName: string) => {
+  downloadBlob(toXlsxBlob(rows), `${fileName}.xlsx`);
+};
@@ -0,0 +1,240 @@
+// Deterministic tax computations driven by versioned rule packs (services/taxRules/*.json).
+// Each pack holds one jurisdiction's slabs, rates, deductions and thresholds for one tax
+// year; results always name the pack they came from so answers can cite it.
+
+import { CurrencyCode, Jurisdiction, JURISDICTIONS } from './localeSettings';
+import pk2025 from './taxRules/pk-2025.json';
+import pk2026 from './taxRules/pk-2026.json';
+import in202425 from './taxRules/in-2024-25.json';
+import in202526 from './taxRules/in-2025-26.json';
+import uk202425 from './taxRules/uk-2024-25.json';
+import uk202526 from './taxRules/uk-2025-26.json';
+
+export interface TaxSlab {
+  from: number;
+  to: number | null; // null for the top slab
+  ratePercent: number;
+}
+
+export interface TaxpayerCategory {
+  label: string;
+  slabs: TaxSlab[];
+  standardDeduction?: number;
+  // Tax is cut to zero (up to maxRebate) when taxable income is at or below the limit
+  rebate?: { label: string; maxTaxableIncome: number; maxRebate: number };
+  // Extra percentage of the tax once taxable income passes `above`; the highest band reached applies
+  surcharge?: { above: number; ratePercent: number }[];
+}
+
+export interface TaxRulePack {
+  id: string;
+  version: number;
+  jurisdiction: Jurisdiction;
+  taxYear: string;
+  label: string;
+  effectiveFrom: string; // ISO date
+  currency: CurrencyCode;
+  source: string;
+  incomeTax: {
+    categories: Record<string, TaxpayerCategory>;
+    // Allowance withdrawn by `taperRate` for every unit of income over `taperAbove` (UK style)
+    personalAllowance?: { amount: number; taperAbove: number; taperRate: number };
+    cess?: { label: string; ratePercent: number };
+    notes?: string[];
+  };
+  deductions: { id: string; label: string; limit: number | null; categories?: string[] }[];
+  salesTax: {
+    name: string;
+    standardRatePercent: number;
+    otherRatesPercent: number[];
+    registrationThreshold?: number;
+    note?: string;
+  };
+}
+
+// Oldest first within each jurisdiction
+export const TAX_RULE_PACKS = ([pk2025, pk2026, in202425, in202526, uk202425, uk202526] as TaxRulePack[])
+  .sort((a, b) => a.effectiveFrom.localeCompare(b.effectiveFrom));
+
+export const getTaxPack = (id: string | null | undefined) => TAX_RULE_PACKS.find(pack => pack.id === id);
+
+export const taxPacksFor = (jurisdiction: Jurisdiction) => TAX_RULE_PACKS.filter(pack => pack.jurisdiction === jurisdiction);
+
+// The pack a Taxation chat uses: the one picked for it, else the jurisdiction's
+// newest pack already in force. Null when the jurisdiction has no packs.
+export const resolveTaxPack = (id: string | null | undefined, jurisdiction: Jurisdiction, today = new Date()) => {
+  const picked = getTaxPack(id);
+  if (picked) return picked;
+  const packs = taxPacksFor(jurisdiction);
+  const inForce = packs.filter(pack => new Date(pack.effectiveFrom) <= today);
+  return inForce[inForce.length - 1] || packs[packs.length - 1] || null;
+};
+
+const round = (value: number, decimals = 2) => {
+  const factor = 10 ** decimals;
+  return Math.round((value + Number.EPSILON) * factor) / factor;
+};
+
+const requirePack = (packId: string) => {
+  const pack = getTaxPack(packId);
+  if (!pack) {
+    throw new Error(`Unknown tax rule pack "${packId}". Available: ${TAX_RULE_PACKS.map(p => p.id).join(', ')}.`);
+  }
+  return pack;
+};
+
+const citation = (pack: TaxRulePack) => ({
+  id: pack.id,
+  version: pack.version,
+  jurisdiction: JURISDICTIONS[pack.jurisdiction].label,
+  taxYear: pack.label,
+  source: pack.source,
+});
+
+// --- Income tax ---
+
+export interface IncomeTaxInput {
+  packId: string;
+  category: string;
+  grossIncome: number;
+  deductions?: { id: string; amount: number }[];
+}
+
+export const computeIncomeTax = ({ packId, category, grossIncome, deductions = [] }: IncomeTaxInput) => {
+  const pack = requirePack(packId);
+  const rules = pack.incomeTax.categories[category];
+  if (!rules) {
+    throw new Error(`Unknown taxpayer category "${category}" for ${pack.id}. Use one of: ${Object.keys(pack.incomeTax.categories).join(', ')}.`);
+  }
+  if (!Number.isFinite(grossIncome) || grossIncome < 0) {
+    throw new Error('Gross income must be zero or a positive number.');
+  }
+
+  const deductionLines: { label: string; claimed: number; allowed: number }[] = [];
+  if (rules.standardDeduction) {
+    const allowed = Math.min(rules.standardDeduction, grossIncome);
+    deductionLines.push({ label: 'Standard deduction', claimed: allowed, allowed });
+  }
+  // Claims under the same section share its limit, so they are added up first
+  const claims = new Map<string, number>();
+  deductions.forEach(({ id, amount }) => {
+    if (!Number.isFinite(amount) || amount < 0) {
+      throw new Error(`Deduction "${id}" must be zero or a positive number.`);
+    }
+    claims.set(id, (claims.get(id) ?? 0) + amount);
+  });
+  claims.forEach((amount, id) => {
+    const rule = pack.deductions.find(d => d.id === id);
+    if (!rule || (rule.categories && !rule.categories.includes(category))) {
+      const usable = pack.deductions.filter(d => !d.categories || d.categories.includes(category)).map(d => d.id);
+      throw new Error(`Deduction "${id}" is not available for ${rules.label} in ${pack.id}. Available: ${usable.join(', ') || 'none'}.`);
+    }
+    deductionLines.push({ label: rule.label, claimed: amount, allowed: rule.limit === null ? amount : Math.min(amount, rule.limit) });
+  });
+  const totalDeductions = deductionLines.reduce((sum, line) => sum + line.allowed, 0);
+  const incomeAfterDeductions = Math.max(0, grossIncome - totalDeductions);
+
+  let personalAllowance = 0;
+  const allowanceRule = pack.incomeTax.personalAllowance;
+  if (allowanceRule) {
+    const reduction = Math.max(0, incomeAfterDeductions - allowanceRule.taperAbove) * allowanceRule.taperRate;
+    personalAllowance = Math.max(0, allowanceRule.amount - reduction);
+  }
+  const taxableIncome = Math.max(0, incomeAfterDeductions - personalAllowance);
+
+  // Each slab taxes only the part of income that falls inside it
+  const slabs = rules.slabs.map(slab => {
+    const upper = slab.to ?? Infinity;
+    const amount = Math.max(0, Math.min(taxableIncome, upper) - slab.from);
+    return {
+      range: slab.to === null ? `Above ${slab.from}` : `${slab.from} – ${slab.to}`,
+      ratePercent: slab.ratePercent,
+      taxableAmount: round(amount),
+      tax: round((amount * slab.ratePercent) / 100),
+    };
+  });
+  const taxOnSlabs = slabs.reduce((sum, slab) => sum + (slab.taxableAmount * slab.ratePercent) / 100, 0);
+
+  const rebate = rules.rebate && taxableIncome <= rules.rebate.maxTaxableIncome
+    ? Math.min(taxOnSlabs, rules.rebate.maxRebate)
+    : 0;
+  const taxAfterRebate = taxOnSlabs - rebate;
+
+  const surchargeBand = [...(rules.surcharge || [])].reverse().find(band => taxableIncome > band.above);
+  const surcharge = surchargeBand ? (taxAfterRebate * surchargeBand.ratePercent) / 100 : 0;
+
+  const cessRule = pack.incomeTax.cess;
+  const cess = cessRule ? ((taxAfterRebate + surcharge) * cessRule.ratePercent) / 100 : 0;
+
+  const totalTax = taxAfterRebate + surcharge + cess;
+
+  return {
+    rulePack: citation(pack),
+    category: rules.label,
+    grossIncome: round(grossIncome),
+    deductions: deductionLines.map(line => ({ ...line, claimed: round(line.claimed), allowed: round(line.allowed) })),
+    ...(allowanceRule ? { personalAllowance: round(personalAllowance) } : {}),
+    taxableIncome: round(taxableIncome),
+    slabs,
+    taxOnSlabs: round(taxOnSlabs),
+    ...(rules.rebate ? { rebate: { label: rules.rebate.label, amount: round(rebate) } } : {}),
+    ...(surchargeBand ? { surcharge: { ratePercent: surchargeBand.ratePercent, amount: round(surcharge) } } : {}),
+    ...(cessRule ? { cess: { label: cessRule.label, ratePercent: cessRule.ratePercent, amount: round(cess) } } : {}),
+    totalTax: round(totalTax),
+    effectiveRatePercent: grossIncome > 0 ? round((totalTax / grossIncome) * 100) : 0,
+    notes: pack.incomeTax.notes || [],
+  };
+};
+
+// --- Sales tax / GST / VAT ---
+
+export interface SalesTaxInput {
+  packId: string;
+  amount: number;
+  ratePercent?: number; // Defaults to the standard rate
+  inclusive?: boolean; // True when `amount` already includes the tax
+}
+
+export const computeSalesTax = ({ packId, amount, ratePercent, inclusive = false }: SalesTaxInput) => {
+  const pack = requirePack(packId);
+  const { salesTax } = pack;
+  const rate = ratePercent ?? salesTax.standardRatePercent;
+  const validRates = [salesTax.standardRatePercent, ...salesTax.otherRatesPercent];
+  if (!validRates.includes(rate)) {
+    throw new Error(`${rate}% is not a ${salesTax.name} rate in ${pack.id}. Rates: ${validRates.join('%, ')}%.`);
+  }
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error('Amount must be zero or a positive number.');
+  }
+
+  const netAmount = inclusive ? amount / (1 + rate / 100) : amount;
+  const tax = (netAmount * rate) / 100;
+
+  return {
+    rulePack: citation(pack),
+    taxName: salesTax.name,
+    ratePercent: rate,
+    netAmount: round(netAmount),
+    tax: round(tax),
+    grossAmount: round(netAmount + tax),
+    ...(salesTax.registrationThreshold ? { registrationThreshold: salesTax.registrationThreshold } : {}),
+    ...(salesTax.note ? { note: salesTax.note } : {}),
+  };
+};
+
+// Section appended to the system instruction in Taxation chats
+export const buildTaxPackInstruction = (pack: TaxRulePack): string => {
+  const categories = Object.entries(pack.incomeTax.categories).map(([id, cat]) => `${id} (${cat.label})`).join('; ');
+  const deductions = pack.deductions
+    .map(d => `${d.id} (${d.label}${d.limit !== null ? `, limit ${d.limit}` : ''}${d.categories ? `, ${d.categories.join('/')} only` : ''})`)
+    .join('; ');
+  return [
+    'Tax Rule Pack:',
+    `- This chat uses the rule pack "${pack.id}" v${pack.version}: ${JURISDICTIONS[pack.jurisdiction].label}, ${pack.label}. Source: ${pack.source}.`,
+    `- For income tax call compute_income_tax, and for ${pack.salesTax.name} call compute_sales_tax, with packId "${pack.id}". Do not use rates or slabs from memory.`,
+    `- Taxpayer categories: ${categories}.`,
+    `- Deductions that can be claimed by id: ${deductions || 'none'}.`,
+    '- Show the slab-wise computation from the result as a table, and end with a line citing the rule pack id, version, tax year and source.',
+    '- If the question is about a different tax year or country, say which year the pack covers before answering.',
+  ].join('\n');
+};
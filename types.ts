@@ -1,16 +1,55 @@
+import type { LlmErrorCode } from './services/providers/types';
+import type { ChatModeId } from './services/chatModes';
+import type { ChartSpec } from './services/chartSpec';
+import type { SourcePassage } from './services/documentLibrary';
+import type { ContextSummary } from './services/contextBudget';
+
 export interface Attachment {
   data: string; // Base64 string
   mimeType: string;
   name: string;
+  documentId?: string; // Set for PDFs indexed in the document library; only matching passages are sent
+}
+
+// Why a streamed answer ended early: stopped by the user, or the stream failed
+export type StopReason = 'stopped' | 'error';
+
+// A local calculator run requested by the model through function calling
+export interface CalculatorCall {
+  name: string;
+  args: Record<string, unknown>;
+  result: unknown;
+  error?: string;
+}
+
+// Why a turn failed; failed turns are left out of the history sent to the model
+export interface MessageError {
+  code: LlmErrorCode;
+  message: string;
 }
 
 export interface Message {
   id: string;
+  parentId: string | null; // Previous message on this branch; null for the first question
   role: 'user' | 'model';
   text: string;
+  mode?: ChatModeId; // Answer mode the question was asked in
   timestamp: Date;
   image?: string; // Legacy support for backward compatibility
-  attachment?: Attachment;
+  attachments?: Attachment[];
+  isStreaming?: boolean; // True while model chunks are still arriving
+  stopReason?: StopReason; // Set when the answer is partial
+  calculations?: CalculatorCall[]; // Calculator results the answer is based on
+  chart?: ChartSpec; // Chart the app draws under the answer
+  sources?: SourcePassage[]; // Library passages the answer was given, cited as [Source n]
+  error?: MessageError; // Set when the request for this answer failed
+}
+
+// A fixed answer layout the model follows for one kind of question
+export interface OutputTemplate {
+  name: string;
+  useFor: string; // The questions it applies to
+  format: string; // Markdown skeleton of the answer
 }
 
 export interface Subject {
@@ -18,10 +57,28 @@ export interface Subject {
   name: string;
   icon: string;
   description: string;
+  instruction: string; // Added to the system instruction in this subject's chats
+  templates: OutputTemplate[];
+  starters: string[]; // Starter questions; $ amounts follow the Regional Settings
+  concepts: string[];
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  messages: Message[]; // Every message on every branch, oldest first
+  activeLeafId: string | null; // Last message of the branch being shown
+  selectedSubject: string | null;
+  taxPackId?: string | null; // Tax rule pack picked for a Taxation chat; unset means the newest in force
+  // Rolling summaries sent in place of the oldest turns, by the last message each covers;
+  // each branch uses the latest one on its path
+  contextSummaries?: Record<string, ContextSummary>;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
 export interface ChatState {
-  messages: Message[];
+  conversations: Conversation[];
+  activeConversationId: string;
   isLoading: boolean;
-  selectedSubject: string | null;
 }
\ No newline at end of file